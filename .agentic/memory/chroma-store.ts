@@ -7,38 +7,53 @@
  * For production deployments with >1M vectors, swap CHROMA_URL in .env to point
  * at a remote Chroma server or a hosted alternative (Qdrant, Pinecone) and adapt
  * the client initialisation below. The MemoryStore interface remains unchanged.
+ *
+ * Application code gets the shared store from getMemoryStore() in store.ts.
  */
 
-import { ChromaClient, type Collection, OpenAIEmbeddingFunction } from "chromadb";
-import type { MemoryDocument, MemoryStore, QueryResult } from "./types.js";
+import {
+  ChromaClient,
+  ChromaNotFoundError,
+  type Collection,
+  type GetResponse,
+  type Metadata,
+  type Where,
+} from "chromadb";
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  type EmbeddingProvider,
+  embeddingForCollection,
+} from "./embeddings.js";
+import type { ListOptions, MemoryDocument, MemoryStore, QueryResult } from "./types.js";
 
-// ── Embedding function ────────────────────────────────────────────────────────
+/** Collection metadata key recording the EmbeddingProvider `id` of its vectors */
+export const EMBEDDING_MODEL_KEY = "embedding_model";
 
-function buildEmbeddingFunction(): OpenAIEmbeddingFunction {
-  const apiKey = process.env["OPENAI_API_KEY"];
-  if (!apiKey) {
-    throw new Error(
-      "OPENAI_API_KEY is not set. " +
-        "Copy .env.example to .env and add your key, or set the environment variable.",
-    );
-  }
-  return new OpenAIEmbeddingFunction({
-    openai_api_key: apiKey,
-    openai_model: "text-embedding-3-small",
-  });
+export interface ChromaMemoryStoreOptions {
+  path?: string;
+  url?: string;
+  /** Provider for every collection without an entry in `embeddings` */
+  embedding?: EmbeddingProvider;
+  /** Per-collection providers, e.g. `{ code: customEmbeddings("code-v2", fn) }` */
+  embeddings?: Partial<Record<string, EmbeddingProvider>>;
 }
 
 // ── ChromaMemoryStore ─────────────────────────────────────────────────────────
 
 export class ChromaMemoryStore implements MemoryStore {
   private readonly client: ChromaClient;
-  private readonly embeddingFn: OpenAIEmbeddingFunction;
+  private readonly options: ChromaMemoryStoreOptions;
   /** Cached collection handles to avoid repeated round-trips */
   private readonly colCache = new Map<string, Collection>();
 
-  constructor(options?: { path?: string; url?: string }) {
-    const url = options?.url ?? process.env["CHROMA_URL"];
-    const path = options?.path ?? process.env["CHROMA_PATH"] ?? "./__chroma__";
+  /**
+   * Each collection embeds with `options.embeddings[name]`, else
+   * `options.embedding`, else the provider EMBEDDING_MODEL[_<COLLECTION>]
+   * configures (see embeddings.ts).
+   */
+  constructor(options: ChromaMemoryStoreOptions = {}) {
+    const url = options.url ?? process.env["CHROMA_URL"];
+    const path = options.path ?? process.env["CHROMA_PATH"] ?? "./__chroma__";
 
     if (url) {
       this.client = new ChromaClient({ path: url });
@@ -47,20 +62,71 @@ export class ChromaMemoryStore implements MemoryStore {
       this.client = new ChromaClient({ path });
     }
 
-    this.embeddingFn = buildEmbeddingFunction();
+    this.options = options;
   }
 
   // ── Private helpers ─────────────────────────────────────────────────────────
 
+  private embeddingFor(name: string): EmbeddingProvider {
+    return (
+      this.options.embeddings?.[name] ?? this.options.embedding ?? embeddingForCollection(name)
+    );
+  }
+
+  /**
+   * Open a collection with its configured provider, creating it if needed. A
+   * new collection records the provider's id in its metadata; an existing one
+   * must have been embedded with the same provider.
+   * @throws {Error} if the collection holds vectors from a different model.
+   */
   private async getOrCreateCollection(name: string): Promise<Collection> {
     const cached = this.colCache.get(name);
     if (cached) return cached;
 
+    const embeddingFunction = this.embeddingFor(name);
+    // Atomic on the server, so concurrent first uses of a collection cannot race;
+    // the metadata only applies when the collection is created
     const col = await this.client.getOrCreateCollection({
       name,
-      embeddingFunction: this.embeddingFn,
-      metadata: { "hnsw:space": "cosine" },
+      embeddingFunction,
+      metadata: { "hnsw:space": "cosine", [EMBEDDING_MODEL_KEY]: embeddingFunction.id },
     });
+    return this.remember(name, col, embeddingFunction);
+  }
+
+  /**
+   * Open an existing collection without creating it — reads of a collection
+   * that was never written behave like reads of an empty one.
+   * @returns undefined if the collection does not exist.
+   * @throws {Error} if the collection holds vectors from a different model.
+   */
+  private async findCollection(name: string): Promise<Collection | undefined> {
+    const cached = this.colCache.get(name);
+    if (cached) return cached;
+
+    const embeddingFunction = this.embeddingFor(name);
+    let col: Collection;
+    try {
+      col = await this.client.getCollection({ name, embeddingFunction });
+    } catch (err) {
+      if (err instanceof ChromaNotFoundError) return undefined;
+      throw err;
+    }
+    return this.remember(name, col, embeddingFunction);
+  }
+
+  /** Cache `col` once its recorded embedding model matches `embeddingFunction`. */
+  private remember(
+    name: string,
+    col: Collection,
+    embeddingFunction: EmbeddingProvider,
+  ): Collection {
+    const recorded = col.metadata?.[EMBEDDING_MODEL_KEY] ?? DEFAULT_EMBEDDING_MODEL;
+    if (recorded !== embeddingFunction.id) {
+      throw new Error(
+        `[memory] Collection "${name}" holds vectors from ${String(recorded)}, but is configured to embed with ${embeddingFunction.id}. Vectors from different models cannot be compared — restore the original provider, or delete the collection and re-seed it.`,
+      );
+    }
 
     this.colCache.set(name, col);
     return col;
@@ -86,7 +152,8 @@ export class ChromaMemoryStore implements MemoryStore {
     topK = 5,
     where?: Record<string, unknown>,
   ): Promise<QueryResult[]> {
-    const col = await this.getOrCreateCollection(collection);
+    const col = await this.findCollection(collection);
+    if (!col) return [];
 
     const results = await col.query({
       queryTexts: [queryText],
@@ -110,8 +177,8 @@ export class ChromaMemoryStore implements MemoryStore {
 
   async delete(collection: string, ids: string[]): Promise<void> {
     if (ids.length === 0) return;
-    const col = await this.getOrCreateCollection(collection);
-    await col.delete({ ids });
+    const col = await this.findCollection(collection);
+    await col?.delete({ ids });
   }
 
   async clear(collection: string, deleteCollection = false): Promise<void> {
@@ -119,35 +186,72 @@ export class ChromaMemoryStore implements MemoryStore {
       await this.client.deleteCollection({ name: collection });
       this.colCache.delete(collection);
     } else {
-      const col = await this.getOrCreateCollection(collection);
+      const col = await this.findCollection(collection);
+      if (!col) return;
       const allIds = await col.get({ include: [] });
       if (allIds.ids.length > 0) {
         await col.delete({ ids: allIds.ids });
       }
     }
   }
-}
 
-// ── Singleton factory ─────────────────────────────────────────────────────────
+  async get(collection: string, ids: string[]): Promise<MemoryDocument[]> {
+    if (ids.length === 0) return [];
+    const col = await this.findCollection(collection);
+    if (!col) return [];
+    const byId = new Map(toDocuments(await col.get({ ids })).map((d) => [d.id, d]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
+  }
 
-let _instance: ChromaMemoryStore | undefined;
+  async list(collection: string, options: ListOptions = {}): Promise<MemoryDocument[]> {
+    const { where, limit, offset } = options;
+    const col = await this.findCollection(collection);
+    if (!col) return [];
+    return toDocuments(
+      await col.get({
+        ...(where !== undefined ? { where: where as Where } : {}),
+        ...(limit !== undefined ? { limit } : {}),
+        ...(offset !== undefined ? { offset } : {}),
+      }),
+    );
+  }
 
-/**
- * Returns a shared ChromaMemoryStore instance (lazy-initialised).
- * Use this in application code to avoid creating multiple Chroma clients.
- */
-export function getMemoryStore(): ChromaMemoryStore {
-  _instance ??= new ChromaMemoryStore();
-  return _instance;
+  async count(collection: string, where?: Record<string, unknown>): Promise<number> {
+    const col = await this.findCollection(collection);
+    if (!col) return 0;
+    if (where === undefined) return col.count();
+    const matching = await col.get({ where: where as Where, include: [] });
+    return matching.ids.length;
+  }
+
+  async updateMetadata(
+    collection: string,
+    ids: string[],
+    patch: Record<string, unknown>,
+  ): Promise<void> {
+    const docs = await this.get(collection, ids);
+    if (docs.length === 0) return;
+    const col = await this.findCollection(collection);
+    if (!col) return;
+    // Merge here rather than relying on Chroma's update semantics; the
+    // embedding is untouched because no documents are passed.
+    await col.update({
+      ids: docs.map((d) => d.id),
+      metadatas: docs.map((d) => ({ ...d.metadata, ...patch }) as Metadata),
+    });
+  }
+
+  async listCollections(): Promise<string[]> {
+    return (await this.client.listCollections()).sort();
+  }
 }
 
-/**
- * Reset the singleton — sets the shared instance to undefined so the next
- * `getMemoryStore()` call creates a fresh client.
- *
- * ONLY call this in test `afterEach` / `afterAll` hooks to prevent
- * cross-test contamination (F5). Never call in production code.
- */
-export function resetMemoryStore(): void {
-  _instance = undefined;
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function toDocuments(response: GetResponse): MemoryDocument[] {
+  return response.ids.map((id, i) => ({
+    id,
+    content: response.documents[i] ?? "",
+    metadata: { ...(response.metadatas[i] ?? {}) },
+  }));
 }
@@ -0,0 +1,128 @@
+/**
+ * .agentic/memory/embeddings.ts
+ *
+ * Embedding providers — an EmbeddingFunction plus the `id` of the model
+ * behind it, which stores record so vectors from different models never end
+ * up in one collection.
+ *
+ *   openaiEmbeddings(model)      "openai:<model>"  — OpenAI API (needs OPENAI_API_KEY)
+ *   localEmbeddings(options)     "local:hashed-ngram-<dims>x<n>" — deterministic, offline
+ *   customEmbeddings(id, fn)     "custom:<id>"     — any user-supplied function
+ *
+ * Each collection's provider comes from, later winning:
+ *
+ *   1. DEFAULT_EMBEDDING_MODEL (openai:text-embedding-3-small)
+ *   2. EMBEDDING_MODEL, e.g. EMBEDDING_MODEL=local
+ *   3. EMBEDDING_MODEL_<COLLECTION>, e.g. EMBEDDING_MODEL_QUALITY_BAR=openai:text-embedding-3-large
+ *
+ * as `openai[:model]` or `local[:dimensions]`. A custom function can only be
+ * configured in code — see ChromaMemoryStore's `embeddings` option.
+ */
+
+import { OpenAIEmbeddingFunction } from "chromadb";
+import { HashedNgramEmbedding, type HashedNgramOptions } from "./hashed-embedding.js";
+import type { EmbeddingFunction } from "./types.js";
+
+export interface EmbeddingProvider extends EmbeddingFunction {
+  /** Identifies the model behind the vectors, e.g. "openai:text-embedding-3-small" */
+  readonly id: string;
+}
+
+/** The default provider — and what collections created before providers were recorded used. */
+export const DEFAULT_EMBEDDING_MODEL = "openai:text-embedding-3-small";
+
+// ── Providers ─────────────────────────────────────────────────────────────────
+
+/**
+ * OpenAI embeddings through Chroma's OpenAIEmbeddingFunction. The API key is
+ * read on the first call, so configuring the provider never needs one.
+ */
+export function openaiEmbeddings(model = "text-embedding-3-small"): EmbeddingProvider {
+  let fn: OpenAIEmbeddingFunction | undefined;
+  return {
+    id: `openai:${model}`,
+    generate: (texts) => {
+      fn ??= buildOpenAIEmbeddingFunction(model);
+      return fn.generate(texts);
+    },
+  };
+}
+
+/** Deterministic hashed n-gram embeddings — no model, no API key, no network. */
+export function localEmbeddings(options: HashedNgramOptions = {}): EmbeddingProvider {
+  const embedder = new HashedNgramEmbedding(options);
+  return {
+    id: `local:hashed-ngram-${embedder.dimensions}x${embedder.ngram}`,
+    generate: (texts) => embedder.generate(texts),
+  };
+}
+
+/**
+ * A user-supplied embedding function. `id` must change whenever the function's
+ * vectors do (a new model or dimension count), or stores cannot tell them apart.
+ */
+export function customEmbeddings(
+  id: string,
+  generate: EmbeddingFunction["generate"],
+): EmbeddingProvider {
+  if (id.trim() === "") throw new Error("[memory] A custom embedding provider needs an id.");
+  return { id: `custom:${id}`, generate };
+}
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse `openai[:model]` or `local[:dimensions]`.
+ * @throws {Error} on an unknown provider or a malformed dimension count.
+ */
+export function parseEmbeddingSpec(spec: string, key = "embedding model"): EmbeddingProvider {
+  const [provider = "", ...rest] = spec.trim().split(":");
+  const arg = rest.join(":");
+  switch (provider) {
+    case "openai":
+      return openaiEmbeddings(arg || undefined);
+    case "local": {
+      if (arg === "") return localEmbeddings();
+      const dimensions = Number(arg);
+      if (!Number.isInteger(dimensions) || dimensions < 1) {
+        throw new Error(`[memory] ${key}: "${arg}" is not a dimension count in "${spec}".`);
+      }
+      return localEmbeddings({ dimensions });
+    }
+    default:
+      throw new Error(
+        `[memory] ${key}: unknown embedding provider "${provider}" in "${spec}" (expected openai or local).`,
+      );
+  }
+}
+
+/** The provider configured for `collection` in `env` (see the file header). */
+export function embeddingForCollection(
+  collection: string,
+  env: NodeJS.ProcessEnv = process.env,
+): EmbeddingProvider {
+  const collectionKey = `EMBEDDING_MODEL_${collection.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+  const collectionSpec = env[collectionKey];
+  if (collectionSpec) return parseEmbeddingSpec(collectionSpec, collectionKey);
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const globalSpec = env["EMBEDDING_MODEL"];
+  if (globalSpec) return parseEmbeddingSpec(globalSpec, "EMBEDDING_MODEL");
+  return parseEmbeddingSpec(DEFAULT_EMBEDDING_MODEL);
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function buildOpenAIEmbeddingFunction(model: string): OpenAIEmbeddingFunction {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const apiKey = process.env["OPENAI_API_KEY"];
+  if (!apiKey) {
+    throw new Error(
+      "OPENAI_API_KEY is not set. " +
+        "Copy .env.example to .env and add your key, or set the environment variable.",
+    );
+  }
+  return new OpenAIEmbeddingFunction({
+    openai_api_key: apiKey,
+    openai_model: model,
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * .agentic/memory/file-store.ts
+ *
+ * File-backed implementation of the MemoryStore interface — persistent memory
+ * without a Chroma server, for single-developer setups.
+ *
+ * Each collection is two files in the store directory (MEMORY_PATH, default
+ * ./__memory__):
+ *
+ *   <collection>.jsonl    one `{ id, content, metadata }` document per line
+ *   <collection>.vectors  little-endian binary: uint32 dimensions, uint32 row
+ *                         count, then one float32 row per document, in the
+ *                         same order as the JSONL lines
+ *
+ * A collection is read into memory on first use and rewritten (atomically, via
+ * a temp file and rename) after every upsert, delete or clear, so `pnpm seed`
+ * and `pnpm flywheel` share it across invocations. Search is the in-memory
+ * store's brute-force cosine ranking. One process should write at a time: a
+ * process does not see another's writes to a collection it has already loaded.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join, resolve } from "node:path";
+import { InMemoryMemoryStore, type StoredDocument } from "./in-memory-store.js";
+import type { EmbeddingFunction, ListOptions, MemoryDocument, QueryResult } from "./types.js";
+
+const VECTOR_HEADER_BYTES = 8;
+
+// ── FileMemoryStore ───────────────────────────────────────────────────────────
+
+export class FileMemoryStore extends InMemoryMemoryStore {
+  /** Absolute path of the store directory */
+  readonly dir: string;
+  private readonly loaded = new Set<string>();
+
+  constructor(options?: { path?: string; embeddingFunction?: EmbeddingFunction }) {
+    super(
+      options?.embeddingFunction !== undefined
+        ? { embeddingFunction: options.embeddingFunction }
+        : {},
+    );
+    // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+    this.dir = resolve(options?.path ?? process.env["MEMORY_PATH"] ?? "./__memory__");
+  }
+
+  // ── MemoryStore implementation ──────────────────────────────────────────────
+
+  override async upsert(collection: string, documents: MemoryDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+    this.load(collection);
+    await super.upsert(collection, documents);
+    this.persist(collection);
+  }
+
+  override async query(
+    collection: string,
+    queryText: string,
+    topK = 5,
+    where?: Record<string, unknown>,
+  ): Promise<QueryResult[]> {
+    this.load(collection);
+    return super.query(collection, queryText, topK, where);
+  }
+
+  override async delete(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    this.load(collection);
+    await super.delete(collection, ids);
+    this.persist(collection);
+  }
+
+  override async clear(collection: string, deleteCollection = false): Promise<void> {
+    this.load(collection);
+    await super.clear(collection, deleteCollection);
+    if (deleteCollection) {
+      rmSync(this.documentsFile(collection), { force: true });
+      rmSync(this.vectorsFile(collection), { force: true });
+    } else {
+      this.persist(collection);
+    }
+  }
+
+  override async get(collection: string, ids: string[]): Promise<MemoryDocument[]> {
+    this.load(collection);
+    return super.get(collection, ids);
+  }
+
+  override async list(collection: string, options?: ListOptions): Promise<MemoryDocument[]> {
+    this.load(collection);
+    return super.list(collection, options);
+  }
+
+  override async count(collection: string, where?: Record<string, unknown>): Promise<number> {
+    this.load(collection);
+    return super.count(collection, where);
+  }
+
+  override async updateMetadata(
+    collection: string,
+    ids: string[],
+    patch: Record<string, unknown>,
+  ): Promise<void> {
+    if (ids.length === 0) return;
+    this.load(collection);
+    await super.updateMetadata(collection, ids, patch);
+    this.persist(collection);
+  }
+
+  /** Names of the collections stored on disk, sorted. */
+  override async listCollections(): Promise<string[]> {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => f.slice(0, -".jsonl".length))
+      .sort();
+  }
+
+  // ── Persistence ─────────────────────────────────────────────────────────────
+
+  private documentsFile(collection: string): string {
+    return join(this.dir, `${safeCollectionName(collection)}.jsonl`);
+  }
+
+  private vectorsFile(collection: string): string {
+    return join(this.dir, `${safeCollectionName(collection)}.vectors`);
+  }
+
+  /** Read `collection` from disk the first time it is used. */
+  private load(collection: string): void {
+    if (this.loaded.has(collection)) return;
+    const docsPath = this.documentsFile(collection);
+    this.loaded.add(collection);
+    if (!existsSync(docsPath)) return;
+
+    const docs = readFileSync(docsPath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as MemoryDocument);
+    const vectors = readVectors(this.vectorsFile(collection));
+    if (vectors.length !== docs.length) {
+      this.loaded.delete(collection);
+      throw new Error(
+        `[memory] ${docsPath} holds ${docs.length} documents but its vector file holds ${vectors.length} rows. Delete both files and re-seed the collection.`,
+      );
+    }
+
+    const col = new Map<string, StoredDocument>();
+    for (const [i, doc] of docs.entries()) {
+      col.set(doc.id, { ...doc, embedding: vectors[i] ?? [] });
+    }
+    this.collections.set(collection, col);
+  }
+
+  private persist(collection: string): void {
+    const docs = [...(this.collections.get(collection)?.values() ?? [])];
+    mkdirSync(this.dir, { recursive: true });
+    writeAtomic(
+      this.documentsFile(collection),
+      docs
+        .map(({ id, content, metadata }) => `${JSON.stringify({ id, content, metadata })}\n`)
+        .join(""),
+    );
+    writeAtomic(this.vectorsFile(collection), encodeVectors(docs.map((d) => d.embedding)));
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Collection names become file names — keep them to a safe character set. */
+function safeCollectionName(collection: string): string {
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(collection)) {
+    throw new Error(`[memory] Invalid collection name "${collection}" for the file store.`);
+  }
+  return collection;
+}
+
+function encodeVectors(vectors: number[][]): Buffer {
+  const dimensions = vectors[0]?.length ?? 0;
+  const buffer = Buffer.alloc(VECTOR_HEADER_BYTES + vectors.length * dimensions * 4);
+  buffer.writeUInt32LE(dimensions, 0);
+  buffer.writeUInt32LE(vectors.length, 4);
+  let offset = VECTOR_HEADER_BYTES;
+  for (const vector of vectors) {
+    for (const value of vector) {
+      buffer.writeFloatLE(value, offset);
+      offset += 4;
+    }
+  }
+  return buffer;
+}
+
+function readVectors(path: string): number[][] {
+  if (!existsSync(path)) return [];
+  const buffer = readFileSync(path);
+  if (buffer.length < VECTOR_HEADER_BYTES) {
+    throw new Error(`[memory] ${path} is truncated.`);
+  }
+  const dimensions = buffer.readUInt32LE(0);
+  const rows = buffer.readUInt32LE(4);
+  if (buffer.length !== VECTOR_HEADER_BYTES + rows * dimensions * 4) {
+    throw new Error(
+      `[memory] ${path} is truncated: expected ${rows} rows of ${dimensions} floats.`,
+    );
+  }
+
+  const vectors: number[][] = [];
+  let offset = VECTOR_HEADER_BYTES;
+  for (let row = 0; row < rows; row++) {
+    const vector: number[] = [];
+    for (let d = 0; d < dimensions; d++) {
+      vector.push(buffer.readFloatLE(offset));
+      offset += 4;
+    }
+    vectors.push(vector);
+  }
+  return vectors;
+}
+
+/** Write to a temp file, then rename over `path`, so a crash never leaves half a file. */
+function writeAtomic(path: string, data: string | Buffer): void {
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, data);
+  renameSync(tmp, path);
+}
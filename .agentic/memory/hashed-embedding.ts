@@ -0,0 +1,79 @@
+/**
+ * .agentic/memory/hashed-embedding.ts
+ *
+ * Deterministic local embeddings — no model, no API key, no network.
+ *
+ * Each text becomes a bag of features — its lower-cased word tokens and the
+ * character n-grams inside them — hashed into a fixed number of dimensions
+ * (the "hashing trick") and L2-normalised. Texts that share words and word
+ * fragments land close together, which is enough for unit tests, offline
+ * demos and small knowledge bases; it is not a semantic model, so synonyms
+ * do not match.
+ */
+
+import type { EmbeddingFunction } from "./types.js";
+
+export interface HashedNgramOptions {
+  /** Vector length (default: 512) */
+  dimensions?: number;
+  /** Character n-gram length (default: 3) */
+  ngram?: number;
+}
+
+export class HashedNgramEmbedding implements EmbeddingFunction {
+  readonly dimensions: number;
+  readonly ngram: number;
+
+  constructor(options: HashedNgramOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+    this.ngram = options.ngram ?? 3;
+    if (!Number.isInteger(this.dimensions) || this.dimensions < 1) {
+      throw new Error(`[memory] dimensions must be a positive integer, got ${this.dimensions}.`);
+    }
+    if (!Number.isInteger(this.ngram) || this.ngram < 1) {
+      throw new Error(`[memory] ngram must be a positive integer, got ${this.ngram}.`);
+    }
+  }
+
+  async generate(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  /** Synchronous single-text variant of generate(). */
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+      // Whole words weigh as much as all their n-grams together.
+      const grams = ngrams(`#${token}#`, this.ngram);
+      addFeature(vector, `w:${token}`, 1);
+      for (const gram of grams) addFeature(vector, `g:${gram}`, 1 / grams.length);
+    }
+
+    const norm = Math.hypot(...vector);
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function ngrams(text: string, n: number): string[] {
+  if (text.length <= n) return [text];
+  const grams: string[] = [];
+  for (let i = 0; i + n <= text.length; i++) grams.push(text.slice(i, i + n));
+  return grams;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const index = fnv1a(feature) % vector.length;
+  vector[index] = (vector[index] ?? 0) + weight;
+}
+
+/** 32-bit FNV-1a — fast, stable across platforms and Node versions. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,233 @@
+/**
+ * .agentic/memory/in-memory-store.ts
+ *
+ * In-process implementation of the MemoryStore interface.
+ *
+ * Documents and their vectors live in plain Maps for the lifetime of the
+ * process — nothing to install, start or pay for. Queries rank every document
+ * in the collection by cosine similarity, so this is meant for unit tests,
+ * offline demos and small knowledge bases, not millions of vectors.
+ *
+ * Embeddings come from a pluggable EmbeddingFunction; the default is the
+ * deterministic HashedNgramEmbedding, so no API key is needed. `where` filters
+ * support the Chroma operators the retriever uses — equality and `$gte` — plus
+ * `$eq`, `$ne`, `$gt`, `$lt`, `$lte`, `$in`, `$nin`, `$and` and `$or`.
+ */
+
+import { HashedNgramEmbedding } from "./hashed-embedding.js";
+import type {
+  EmbeddingFunction,
+  ListOptions,
+  MemoryDocument,
+  MemoryStore,
+  QueryResult,
+} from "./types.js";
+
+export interface StoredDocument extends MemoryDocument {
+  embedding: number[];
+}
+
+// ── InMemoryMemoryStore ───────────────────────────────────────────────────────
+
+export class InMemoryMemoryStore implements MemoryStore {
+  private readonly embeddingFn: EmbeddingFunction;
+  /** Collection name → document ID → document and its embedding */
+  protected readonly collections = new Map<string, Map<string, StoredDocument>>();
+
+  constructor(options?: { embeddingFunction?: EmbeddingFunction }) {
+    this.embeddingFn = options?.embeddingFunction ?? new HashedNgramEmbedding();
+  }
+
+  // ── MemoryStore implementation ──────────────────────────────────────────────
+
+  async upsert(collection: string, documents: MemoryDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const embeddings = await this.embeddingFn.generate(documents.map((d) => d.content));
+    let col = this.collections.get(collection);
+    if (!col) {
+      col = new Map();
+      this.collections.set(collection, col);
+    }
+    for (const embedding of embeddings) assertDimensions(collection, col, embedding);
+    for (const [i, doc] of documents.entries()) {
+      col.set(doc.id, {
+        id: doc.id,
+        content: doc.content,
+        metadata: { ...doc.metadata },
+        embedding: embeddings[i] ?? [],
+      });
+    }
+  }
+
+  async query(
+    collection: string,
+    queryText: string,
+    topK = 5,
+    where?: Record<string, unknown>,
+  ): Promise<QueryResult[]> {
+    const col = this.collections.get(collection);
+    if (!col || col.size === 0) return [];
+
+    const [queryEmbedding = []] = await this.embeddingFn.generate([queryText]);
+    assertDimensions(collection, col, queryEmbedding);
+    return [...col.values()]
+      .filter((doc) => where === undefined || matchesWhere(doc.metadata, where))
+      .map((doc) => ({
+        id: doc.id,
+        content: doc.content,
+        metadata: { ...doc.metadata },
+        score: cosineSimilarity(queryEmbedding, doc.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(collection: string, ids: string[]): Promise<void> {
+    const col = this.collections.get(collection);
+    for (const id of ids) col?.delete(id);
+  }
+
+  async clear(collection: string, deleteCollection = false): Promise<void> {
+    if (deleteCollection) {
+      this.collections.delete(collection);
+    } else {
+      this.collections.get(collection)?.clear();
+    }
+  }
+
+  async get(collection: string, ids: string[]): Promise<MemoryDocument[]> {
+    const col = this.collections.get(collection);
+    return ids.flatMap((id) => {
+      const doc = col?.get(id);
+      return doc ? [toDocument(doc)] : [];
+    });
+  }
+
+  async list(collection: string, options: ListOptions = {}): Promise<MemoryDocument[]> {
+    const { where, limit, offset = 0 } = options;
+    return this.matching(collection, where)
+      .slice(offset, limit === undefined ? undefined : offset + limit)
+      .map(toDocument);
+  }
+
+  async count(collection: string, where?: Record<string, unknown>): Promise<number> {
+    return this.matching(collection, where).length;
+  }
+
+  async updateMetadata(
+    collection: string,
+    ids: string[],
+    patch: Record<string, unknown>,
+  ): Promise<void> {
+    const col = this.collections.get(collection);
+    for (const id of ids) {
+      const doc = col?.get(id);
+      if (doc) doc.metadata = { ...doc.metadata, ...patch };
+    }
+  }
+
+  async listCollections(): Promise<string[]> {
+    return [...this.collections.keys()].sort();
+  }
+
+  /** Documents in `collection` matching `where`, in insertion order. */
+  private matching(collection: string, where?: Record<string, unknown>): StoredDocument[] {
+    const docs = [...(this.collections.get(collection)?.values() ?? [])];
+    return where === undefined ? docs : docs.filter((doc) => matchesWhere(doc.metadata, where));
+  }
+}
+
+// ── Where filters ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether `metadata` satisfies a Chroma-style `where` clause. Top-level keys
+ * are ANDed; a plain value means equality.
+ * @throws {Error} on an operator outside the supported subset.
+ */
+export function matchesWhere(
+  metadata: Record<string, unknown>,
+  where: Record<string, unknown>,
+): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === "$and") return clauses(key, condition).every((c) => matchesWhere(metadata, c));
+    if (key === "$or") return clauses(key, condition).some((c) => matchesWhere(metadata, c));
+    if (key.startsWith("$")) throw new Error(`[memory] Unsupported where operator "${key}".`);
+
+    const value = metadata[key];
+    if (!isPlainObject(condition)) return value === condition;
+    return Object.entries(condition).every(([op, operand]) => compare(value, op, operand));
+  });
+}
+
+function compare(value: unknown, op: string, operand: unknown): boolean {
+  switch (op) {
+    case "$eq":
+      return value === operand;
+    case "$ne":
+      return value !== operand;
+    case "$gt":
+      return typeof value === "number" && typeof operand === "number" && value > operand;
+    case "$gte":
+      return typeof value === "number" && typeof operand === "number" && value >= operand;
+    case "$lt":
+      return typeof value === "number" && typeof operand === "number" && value < operand;
+    case "$lte":
+      return typeof value === "number" && typeof operand === "number" && value <= operand;
+    case "$in":
+      return Array.isArray(operand) && operand.includes(value);
+    case "$nin":
+      return Array.isArray(operand) && !operand.includes(value);
+    default:
+      throw new Error(`[memory] Unsupported where operator "${op}".`);
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Vectors from different embedding functions cannot be compared — refuse to mix them. */
+function assertDimensions(
+  collection: string,
+  col: Map<string, StoredDocument>,
+  embedding: number[],
+): void {
+  const existing = col.values().next().value as StoredDocument | undefined;
+  if (existing && existing.embedding.length !== embedding.length) {
+    throw new Error(
+      `[memory] Collection "${collection}" holds ${existing.embedding.length}-dimensional vectors, ` +
+        `but the embedding function returned ${embedding.length}. Re-seed it with one embedding function.`,
+    );
+  }
+}
+
+/** A copy of `doc` without its embedding. */
+function toDocument({ id, content, metadata }: StoredDocument): MemoryDocument {
+  return { id, content, metadata: { ...metadata } };
+}
+
+function clauses(op: string, condition: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(condition) || !condition.every(isPlainObject)) {
+    throw new Error(`[memory] "${op}" expects an array of where clauses.`);
+  }
+  return condition;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Cosine similarity of two vectors; 0 when either is all zeros or they differ in length. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,114 @@
+/**
+ * .agentic/memory/store.ts
+ *
+ * The shared MemoryStore, selected by MEMORY_STORE:
+ *
+ *   chroma (default) — ChromaMemoryStore with OpenAI embeddings
+ *   memory           — InMemoryMemoryStore with local hashed n-gram embeddings;
+ *                      no server or API key, contents last for the process
+ *   file             — FileMemoryStore: the same, persisted under MEMORY_PATH
+ *                      (default ./__memory__) across invocations
+ */
+
+import { ChromaMemoryStore } from "./chroma-store.js";
+import { FileMemoryStore } from "./file-store.js";
+import { InMemoryMemoryStore } from "./in-memory-store.js";
+import type { MemoryStore } from "./types.js";
+
+export const MEMORY_STORE_KINDS = ["chroma", "memory", "file"] as const;
+export type MemoryStoreKind = (typeof MEMORY_STORE_KINDS)[number];
+
+/**
+ * The store implementation named by MEMORY_STORE (default: "chroma").
+ * @throws {Error} on an unknown value.
+ */
+export function memoryStoreKind(env: NodeJS.ProcessEnv = process.env): MemoryStoreKind {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const kind = env["MEMORY_STORE"] || "chroma";
+  if (!(MEMORY_STORE_KINDS as readonly string[]).includes(kind)) {
+    throw new Error(
+      `[memory] MEMORY_STORE must be one of ${MEMORY_STORE_KINDS.join(", ")}, got "${kind}".`,
+    );
+  }
+  return kind as MemoryStoreKind;
+}
+
+/** A new store of the given kind. */
+export function createMemoryStore(kind: MemoryStoreKind = memoryStoreKind()): MemoryStore {
+  switch (kind) {
+    case "memory":
+      return new InMemoryMemoryStore();
+    case "file":
+      return new FileMemoryStore();
+    default:
+      return new ChromaMemoryStore();
+  }
+}
+
+// ── Singleton factory ─────────────────────────────────────────────────────────
+
+let _instance: MemoryStore | undefined;
+
+/**
+ * Returns the shared MemoryStore instance (lazy-initialised from MEMORY_STORE).
+ * Use this in application code to avoid creating multiple Chroma clients — and
+ * so every agent sees the same in-memory store. Writes through it notify
+ * onMemoryWrite() listeners.
+ */
+export function getMemoryStore(): MemoryStore {
+  _instance ??= observed(createMemoryStore());
+  return _instance;
+}
+
+/**
+ * Reset the singleton — sets the shared instance to undefined so the next
+ * `getMemoryStore()` call creates a fresh store (and re-reads MEMORY_STORE).
+ *
+ * ONLY call this in test `afterEach` / `afterAll` hooks to prevent
+ * cross-test contamination (F5). Never call in production code.
+ */
+export function resetMemoryStore(): void {
+  _instance = undefined;
+}
+
+// ── Write notifications ───────────────────────────────────────────────────────
+
+/** Called with the collection after each write through the shared store. */
+export type MemoryWriteListener = (collection: string) => void;
+
+const writeListeners = new Set<MemoryWriteListener>();
+
+/**
+ * Subscribe to upserts, deletes, clears and metadata updates made through
+ * getMemoryStore() — e.g. to drop a cache derived from a collection. Writes
+ * from other processes or through a store from createMemoryStore() are not
+ * seen. Returns an unsubscribe function.
+ */
+export function onMemoryWrite(listener: MemoryWriteListener): () => void {
+  writeListeners.add(listener);
+  return () => writeListeners.delete(listener);
+}
+
+/** MemoryStore methods that change a collection — their first argument */
+const WRITE_METHODS = new Set<PropertyKey>(["upsert", "delete", "clear", "updateMetadata"]);
+
+/**
+ * `store`, notifying the write listeners after each write — even one that
+ * fails partway. A Proxy rather than a wrapper, so it is still an instance of
+ * the store's class.
+ */
+function observed(store: MemoryStore): MemoryStore {
+  return new Proxy(store, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (!WRITE_METHODS.has(property) || typeof value !== "function") return value;
+      return async (collection: string, ...args: unknown[]) => {
+        try {
+          return await value.call(target, collection, ...args);
+        } finally {
+          for (const listener of writeListeners) listener(collection);
+        }
+      };
+    },
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * .agentic/memory/transfer.ts
+ *
+ * Export and import a knowledge base as a portable JSONL bundle — to check it
+ * into a repo or hand it to a teammate.
+ *
+ * A bundle is one header line followed by one line per document:
+ *
+ *   {"format":"agentic-memory","version":1,"exportedAt":"…","collections":{"plans":12,…}}
+ *   {"collection":"plans","id":"…","content":"…","metadata":{…}}
+ *
+ * Vectors are deliberately left out: they belong to the embedding function
+ * that produced them, so the importing store re-embeds every document. That
+ * keeps bundles small, diffable and loadable into any MemoryStore.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+import type { FileMemoryStore } from "./file-store.js";
+import type { MemoryDocument, MemoryStore } from "./types.js";
+
+const BundleHeaderSchema = z.object({
+  format: z.literal("agentic-memory"),
+  version: z.literal(1),
+  exportedAt: z.string().datetime(),
+  collections: z.record(z.string(), z.number().int().nonnegative()),
+});
+export type BundleHeader = z.infer<typeof BundleHeaderSchema>;
+
+const BundleDocumentSchema = z.object({
+  collection: z.string().min(1),
+  id: z.string().min(1),
+  content: z.string(),
+  metadata: z.record(z.string(), z.unknown()).default({}),
+});
+
+/** Documents upserted per call on import */
+const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * Write every document in `store` — or only `collections` — to a bundle at `path`.
+ * @returns Documents exported per collection.
+ */
+export async function exportMemory(
+  store: FileMemoryStore,
+  path: string,
+  collections?: string[],
+): Promise<Record<string, number>> {
+  const names = collections ?? (await store.listCollections());
+  const counts: Record<string, number> = {};
+  const lines: string[] = [];
+
+  for (const collection of names) {
+    const docs = await store.list(collection);
+    counts[collection] = docs.length;
+    for (const { id, content, metadata } of docs) {
+      lines.push(JSON.stringify({ collection, id, content, metadata }));
+    }
+  }
+
+  const header: BundleHeader = {
+    format: "agentic-memory",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    collections: counts,
+  };
+  writeFileSync(path, `${[JSON.stringify(header), ...lines].join("\n")}\n`);
+  return counts;
+}
+
+/**
+ * Upsert every document in the bundle at `path` into `store` (re-embedding
+ * them). Documents with existing IDs are overwritten.
+ * @returns Documents imported per collection.
+ * @throws {Error} if the file is not a valid bundle; nothing is imported then.
+ */
+export async function importMemory(
+  store: MemoryStore,
+  path: string,
+  collections?: string[],
+): Promise<Record<string, number>> {
+  const [headerLine, ...lines] = readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+  const header = BundleHeaderSchema.safeParse(parseLine(headerLine ?? "", path, 1));
+  if (!header.success) {
+    throw new Error(`[memory] ${path} is not a memory bundle (missing or invalid header line).`);
+  }
+
+  const byCollection = new Map<string, MemoryDocument[]>();
+  for (const [i, line] of lines.entries()) {
+    const parsed = BundleDocumentSchema.safeParse(parseLine(line, path, i + 2));
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+      throw new Error(`[memory] ${path}:${i + 2}: invalid document — ${issues}`);
+    }
+    const { collection, ...doc } = parsed.data;
+    if (collections !== undefined && !collections.includes(collection)) continue;
+    let docs = byCollection.get(collection);
+    if (!docs) {
+      docs = [];
+      byCollection.set(collection, docs);
+    }
+    docs.push(doc);
+  }
+
+  const counts: Record<string, number> = {};
+  for (const [collection, docs] of byCollection) {
+    for (let i = 0; i < docs.length; i += IMPORT_BATCH_SIZE) {
+      await store.upsert(collection, docs.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+    counts[collection] = docs.length;
+  }
+  return counts;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function parseLine(line: string, path: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch (err) {
+    throw new Error(
+      `[memory] ${path}:${lineNumber}: invalid JSON — ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
@@ -54,6 +54,55 @@ export interface MemoryStore {
    * Delete all documents in a collection, then (optionally) the collection itself.
    */
   clear(collection: string, deleteCollection?: boolean): Promise<void>;
+
+  // ── Inspection & metadata ──
+  // Reads never create a collection: one that was never written reads as empty.
+
+  /** Names of the collections in the store, sorted. */
+  listCollections(): Promise<string[]>;
+
+  /**
+   * Fetch documents by ID, in the order of `ids`. IDs not in the collection
+   * are skipped.
+   */
+  get(collection: string, ids: string[]): Promise<MemoryDocument[]>;
+
+  /**
+   * Page through a collection without a query, optionally filtered by
+   * metadata. Order is stable between calls that do not modify the collection.
+   */
+  list(collection: string, options?: ListOptions): Promise<MemoryDocument[]>;
+
+  /**
+   * Number of documents in a collection, or of those matching `where`.
+   */
+  count(collection: string, where?: Record<string, unknown>): Promise<number>;
+
+  /**
+   * Shallow-merge `patch` into the metadata of each document in `ids` without
+   * re-embedding its content. IDs not in the collection are skipped.
+   */
+  updateMetadata(collection: string, ids: string[], patch: Record<string, unknown>): Promise<void>;
+}
+
+export interface ListOptions {
+  /** Metadata filter (Chroma `where` clause format) */
+  where?: Record<string, unknown>;
+  /** Maximum number of documents to return (default: all) */
+  limit?: number;
+  /** Number of matching documents to skip (default: 0) */
+  offset?: number;
+}
+
+// ── Embeddings ────────────────────────────────────────────────────────────────
+
+/**
+ * Turns texts into vectors compared by cosine similarity.
+ * Structurally compatible with Chroma's `IEmbeddingFunction`, so Chroma's
+ * embedding functions can be passed to any store that takes one.
+ */
+export interface EmbeddingFunction {
+  generate(texts: string[]): Promise<number[][]>;
 }
 
 // ── Collection Names (keep in sync with docs/schema/README.md) ───────────────
@@ -0,0 +1,300 @@
+/**
+ * .agentic/roles/cassette.ts
+ *
+ * Record-and-replay cassettes for agent LLM calls.
+ *
+ * Set LLM_CASSETTE to a directory and every role's model is wrapped:
+ *
+ *   LLM_CASSETTE_MODE=record  — calls go to the real provider, and each
+ *     request/response pair is appended to `<dir>/<role>.json` as it
+ *     completes. Agent calls, their tool-loop steps and guardrail
+ *     self-corrections all pass through the role's model, so a cassette holds
+ *     the whole transcript of a run. Recording starts the file afresh the first
+ *     time a role is called in the process.
+ *   LLM_CASSETTE_MODE=replay (the default) — no provider is called: a
+ *     ReplayLanguageModel serves the recorded responses back, with their
+ *     original token usage, so costs and budgets replay too.
+ *
+ * A replayed call takes the next unused interaction whose request hash (the
+ * prompt messages plus tool names) matches. A drifted prompt throws, unless the
+ * caller passes an `onDrift` callback — when bisecting a prompt change, say —
+ * in which case it takes the next unused interaction in recorded order and
+ * reports the drift there. Running out of interactions always throws.
+ *
+ * Only doGenerate calls are recorded; the agents never stream.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import {
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1Prompt,
+  wrapLanguageModel,
+} from "ai";
+import { z } from "zod";
+import { type GenerateResult, type StreamResult, streamOf } from "./scripted-model.js";
+import { MODEL_ROLES, type ModelRole } from "./types.js";
+
+// ── Cassette schema ───────────────────────────────────────────────────────────
+
+export const CassetteInteractionSchema = z.object({
+  /** Provider and model that served the call at record time */
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  /** requestHash() of the request — how replay matches calls */
+  requestHash: z.string().min(1),
+  request: z.object({
+    prompt: z.array(z.unknown()),
+    tools: z.array(z.string()).default([]),
+  }),
+  response: z.object({
+    text: z.string().optional(),
+    toolCalls: z
+      .array(
+        z.object({
+          toolCallId: z.string(),
+          toolName: z.string(),
+          /** Stringified JSON, as the provider returned it */
+          args: z.string(),
+        }),
+      )
+      .default([]),
+    finishReason: z.enum([
+      "stop",
+      "length",
+      "content-filter",
+      "tool-calls",
+      "error",
+      "other",
+      "unknown",
+    ]),
+    usage: z.object({
+      promptTokens: z.number(),
+      completionTokens: z.number(),
+    }),
+  }),
+});
+export type CassetteInteraction = z.infer<typeof CassetteInteractionSchema>;
+
+export const CassetteSchema = z.object({
+  version: z.literal(1),
+  role: z.enum(MODEL_ROLES),
+  recordedAt: z.string().datetime(),
+  interactions: z.array(CassetteInteractionSchema),
+});
+export type Cassette = z.infer<typeof CassetteSchema>;
+
+export interface CassetteConfig {
+  dir: string;
+  mode: "record" | "replay";
+}
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+
+/**
+ * The cassette settings in `env`, or undefined when LLM_CASSETTE is unset.
+ * @throws {Error} if LLM_CASSETTE_MODE is neither "record" nor "replay".
+ */
+export function cassetteConfig(env: NodeJS.ProcessEnv = process.env): CassetteConfig | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const dir = env["LLM_CASSETTE"];
+  if (!dir) return undefined;
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const mode = env["LLM_CASSETTE_MODE"] || "replay";
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`[cassette] LLM_CASSETTE_MODE must be "record" or "replay", got "${mode}".`);
+  }
+  return { dir, mode };
+}
+
+/** `<dir>/<role>.json` */
+export function cassettePath(dir: string, role: ModelRole): string {
+  return resolve(dir, `${role}.json`);
+}
+
+/**
+ * Read and validate a cassette file.
+ * @throws {Error} if the file cannot be read or does not match CassetteSchema.
+ */
+export function loadCassette(path: string): Cassette {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `[cassette] Could not read cassette ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = CassetteSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`[cassette] Invalid cassette ${path}:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/** First 16 hex characters of the SHA-256 of a call's prompt messages and tool names. */
+export function requestHash(prompt: LanguageModelV1Prompt, tools: readonly string[]): string {
+  return createHash("sha256").update(JSON.stringify({ prompt, tools })).digest("hex").slice(0, 16);
+}
+
+// Per-process state, keyed by cassette path: the cassette being recorded, and
+// the interactions already served in replay. Shared by every model of a role.
+const recordings = new Map<string, Cassette>();
+const replayed = new Map<string, Set<number>>();
+
+/** Forget what has been recorded and replayed, so the next run starts fresh. */
+export function resetCassettes(): void {
+  recordings.clear();
+  replayed.clear();
+}
+
+// ── Recording ─────────────────────────────────────────────────────────────────
+
+/**
+ * Middleware that appends every successful doGenerate call of `role` to the
+ * cassette at `path`. The file is rewritten after each call, so an aborted run
+ * still leaves a usable cassette.
+ */
+export function recordingMiddleware(role: ModelRole, path: string): LanguageModelV1Middleware {
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const result = await doGenerate();
+
+      let cassette = recordings.get(path);
+      if (!cassette) {
+        cassette = { version: 1, role, recordedAt: new Date().toISOString(), interactions: [] };
+        recordings.set(path, cassette);
+      }
+      const tools = toolNames(params);
+      cassette.interactions.push({
+        provider: model.provider,
+        model: model.modelId,
+        requestHash: requestHash(params.prompt, tools),
+        request: { prompt: params.prompt, tools },
+        response: {
+          ...(result.text !== undefined ? { text: result.text } : {}),
+          toolCalls: (result.toolCalls ?? []).map(({ toolCallId, toolName, args }) => ({
+            toolCallId,
+            toolName,
+            args,
+          })),
+          finishReason: result.finishReason,
+          usage: result.usage,
+        },
+      });
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, `${JSON.stringify(cassette, null, 2)}\n`);
+
+      return result;
+    },
+  };
+}
+
+/** Wrap `model` so its calls for `role` are recorded under `dir`. */
+export function recordCalls(model: LanguageModelV1, role: ModelRole, dir: string): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: recordingMiddleware(role, cassettePath(dir, role)),
+  });
+}
+
+// ── ReplayLanguageModel ───────────────────────────────────────────────────────
+
+export class ReplayLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1";
+  readonly provider = "replay";
+  readonly defaultObjectGenerationMode = undefined;
+  readonly role: ModelRole;
+  private readonly path: string;
+  private readonly onDrift: ((message: string) => void) | undefined;
+  private cassette: Cassette | undefined;
+  private lastServed: CassetteInteraction | undefined;
+
+  /**
+   * @param path - Cassette file, loaded on first use (so a test can write it
+   *   after the roles are imported).
+   * @param options.onDrift - Replay drifted prompts in recorded order and report
+   *   each one here, instead of throwing.
+   */
+  constructor(
+    role: ModelRole,
+    path: string,
+    options: { onDrift?: (message: string) => void } = {},
+  ) {
+    this.role = role;
+    this.path = path;
+    this.onDrift = options.onDrift;
+  }
+
+  /**
+   * The recorded model ID of the interaction served last (the first one before
+   * any call), so usage is priced as it was when recorded.
+   */
+  get modelId(): string {
+    if (this.lastServed) return this.lastServed.model;
+    if (!existsSync(this.path)) return `replay-${this.role}`;
+    return this.load().interactions[0]?.model ?? `replay-${this.role}`;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<GenerateResult> {
+    const interaction = this.next(options);
+    this.lastServed = interaction;
+    const { text, toolCalls, finishReason, usage } = interaction.response;
+    return {
+      ...(text !== undefined ? { text } : {}),
+      toolCalls: toolCalls.map((call) => ({ toolCallType: "function" as const, ...call })),
+      finishReason,
+      usage,
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<StreamResult> {
+    return streamOf(await this.doGenerate(options));
+  }
+
+  private load(): Cassette {
+    this.cassette ??= loadCassette(this.path);
+    return this.cassette;
+  }
+
+  private next(options: LanguageModelV1CallOptions): CassetteInteraction {
+    const { interactions } = this.load();
+    let used = replayed.get(this.path);
+    if (!used) {
+      used = new Set();
+      replayed.set(this.path, used);
+    }
+    const hash = requestHash(options.prompt, toolNames(options));
+    const unused = interactions.map((_, i) => i).filter((i) => !used.has(i));
+
+    let index = unused.find((i) => interactions[i]?.requestHash === hash);
+    if (index === undefined) {
+      index = unused[0];
+      if (index === undefined) {
+        throw new Error(
+          `[cassette] ${this.role}: all ${interactions.length} recorded interaction(s) in ${this.path} have been replayed.`,
+        );
+      }
+      const drift = `[cassette] ${this.role}: request ${hash} does not match the recording`;
+      if (!this.onDrift) throw new Error(`${drift} — re-record the cassette.`);
+      this.onDrift(
+        `${drift} — replaying interaction #${index + 1} (${interactions[index]?.requestHash}) in order.`,
+      );
+    }
+    used.add(index);
+    return interactions[index] as CassetteInteraction;
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function toolNames(options: LanguageModelV1CallOptions): string[] {
+  return options.mode.type === "regular" ? (options.mode.tools ?? []).map((t) => t.name) : [];
+}
@@ -0,0 +1,354 @@
+/**
+ * .agentic/roles/model-registry.ts
+ *
+ * Resolves the language model each role runs on.
+ *
+ * A role's model is a ModelConfig — provider, model ID and optional
+ * temperature / max tokens / per-call timeout — assembled from these layers,
+ * later ones winning:
+ *
+ *   1. Built-in defaults (DEFAULT_ROLE_MODELS)
+ *   2. `default` in the models file
+ *   3. DEFAULT_PROVIDER / DEFAULT_MODEL env vars
+ *   4. `roles.<role>` in the models file
+ *   5. MODEL_<ROLE> env vars, e.g. MODEL_SECURITY_LEAD=anthropic:claude-sonnet-4-0,
+ *      MODEL_SECURITY_LEAD_TEMPERATURE=0, MODEL_SECURITY_LEAD_MAX_TOKENS=4096,
+ *      MODEL_SECURITY_LEAD_TIMEOUT_MS=60000
+ *
+ * Each layer may also set an ordered list of fallback models
+ * (`"fallbacks": [...]` in the file, MODEL_<ROLE>_FALLBACKS as a comma-separated
+ * `[provider:]model` list); the last layer that sets one wins. Fallbacks inherit
+ * the role's temperature, max tokens and timeout unless they set their own.
+ * Agents switch to them on provider errors, timeouts and rate limits — see
+ * withModelFallback() in src/core/agents/model-fallback.ts.
+ *
+ * The models file is `.agentic/models.json` (or the path in MODELS_CONFIG):
+ *
+ *   {
+ *     "default": { "provider": "openai", "model": "gpt-4o" },
+ *     "roles": {
+ *       "security-lead": {
+ *         "provider": "anthropic",
+ *         "model": "claude-sonnet-4-0",
+ *         "fallbacks": [{ "provider": "openai", "model": "gpt-4o" }]
+ *       }
+ *     }
+ *   }
+ *
+ * A layer that names a model but no provider infers it from the model ID
+ * ("claude-*" → anthropic, "gpt-*" / "o1-*" … → openai), so
+ * DEFAULT_MODEL=claude-sonnet-4-0 works on its own.
+ *
+ * LLM_SCRIPT overrides all of the above: every role runs on an offline
+ * ScriptedLanguageModel (see scripted-model.ts). LLM_CASSETTE records every
+ * role's calls to cassette files, or replays them without a provider (see
+ * cassette.ts).
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { anthropic } from "@ai-sdk/anthropic";
+import { openai } from "@ai-sdk/openai";
+import {
+  type LanguageModelV1,
+  type LanguageModelV1Middleware,
+  defaultSettingsMiddleware,
+  wrapLanguageModel,
+} from "ai";
+import { z } from "zod";
+import { ReplayLanguageModel, cassetteConfig, cassettePath, recordCalls } from "./cassette.js";
+import { ScriptedLanguageModel, llmScriptPath } from "./scripted-model.js";
+import { MODEL_ROLES, type ModelRole } from "./types.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+const PROVIDERS = {
+  openai: (modelId: string): LanguageModelV1 => openai(modelId),
+  anthropic: (modelId: string): LanguageModelV1 => anthropic(modelId),
+} as const;
+
+export type ModelProvider = keyof typeof PROVIDERS;
+
+export const ModelConfigSchema = z.object({
+  provider: z.enum(["openai", "anthropic"]),
+  model: z.string().min(1),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  /** Abort a single model call after this long, so the next fallback can take over */
+  timeoutMs: z.number().int().positive().optional(),
+});
+export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+
+/** A fallback entry; the provider may be left to inference from the model ID. */
+const FallbackConfigSchema = ModelConfigSchema.partial({ provider: true }).strict();
+type FallbackConfig = z.infer<typeof FallbackConfigSchema>;
+
+const ModelLayerSchema = ModelConfigSchema.partial()
+  .extend({ fallbacks: z.array(FallbackConfigSchema).optional() })
+  .strict();
+type ModelLayer = z.infer<typeof ModelLayerSchema>;
+
+export const ModelsFileSchema = z
+  .object({
+    default: ModelLayerSchema.optional(),
+    roles: z.record(z.enum(MODEL_ROLES), ModelLayerSchema).optional(),
+  })
+  .strict();
+export type ModelsFile = z.infer<typeof ModelsFileSchema>;
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+export const DEFAULT_ROLE_MODELS: Record<ModelRole, ModelConfig> = {
+  "product-architect": { provider: "openai", model: "gpt-4o" },
+  "agentic-engineer": { provider: "openai", model: "gpt-4o" },
+  "context-engineer": { provider: "openai", model: "gpt-4o-mini" },
+  "security-lead": { provider: "openai", model: "gpt-4o" },
+  "vibe-engineer": { provider: "openai", model: "gpt-4o" },
+  "logic-critic": { provider: "openai", model: "gpt-4o" },
+};
+
+const DEFAULT_MODELS_FILE = fileURLToPath(new URL("../models.json", import.meta.url));
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Read and validate the models file. A missing file at the default location
+ * means "no file"; a missing file named by MODELS_CONFIG is an error.
+ *
+ * @throws {Error} if the file is not valid JSON or does not match ModelsFileSchema.
+ */
+export function loadModelsFile(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultPath: string = DEFAULT_MODELS_FILE,
+): ModelsFile | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  const configured = env["MODELS_CONFIG"];
+  const path = configured ? resolve(configured) : defaultPath;
+  if (!configured && !existsSync(path)) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `[models] Could not read ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = ModelsFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`[models] Invalid models file ${path}:\n${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Merge the configuration layers for `role` (see the file header).
+ *
+ * @throws {Error} if an env override is malformed or the merged config is invalid.
+ */
+export function resolveModelConfig(role: ModelRole, options: ResolveOptions = {}): ModelConfig {
+  const merged: ModelLayer = { ...DEFAULT_ROLE_MODELS[role] };
+  for (const layer of layersFor(role, options)) Object.assign(merged, withInferredProvider(layer));
+
+  // Parsing also drops `fallbacks`, which is not part of a ModelConfig.
+  const parsed = ModelConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    throw new Error(`[models] Invalid model config for ${role}:\n${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The ordered fallback models for `role` (empty when none are configured).
+ *
+ * @throws {Error} if a fallback's provider cannot be inferred or its config is invalid.
+ */
+export function resolveFallbackConfigs(
+  role: ModelRole,
+  options: ResolveOptions = {},
+): ModelConfig[] {
+  let fallbacks: FallbackConfig[] = [];
+  for (const layer of layersFor(role, options)) fallbacks = layer.fallbacks ?? fallbacks;
+  const { temperature, maxTokens, timeoutMs } = resolveModelConfig(role, options);
+  const inherited = {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+  };
+
+  return fallbacks.map((fallback, i) => {
+    const parsed = ModelConfigSchema.safeParse({ ...inherited, ...withInferredProvider(fallback) });
+    if (!parsed.success) {
+      throw new Error(
+        `[models] Invalid fallback #${i + 1} ("${fallback.model ?? ""}") for ${role} — use provider:model when the provider cannot be inferred:\n${formatIssues(parsed.error)}`,
+      );
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Instantiate a ModelConfig. Temperature and max tokens are applied as
+ * call defaults, so an agent's own per-call settings still take precedence;
+ * `timeoutMs` aborts each call that runs longer. The returned model keeps the
+ * provider's `modelId` for usage pricing.
+ */
+export function createModel(config: ModelConfig): LanguageModelV1 {
+  const model = PROVIDERS[config.provider](config.model);
+  const settings = {
+    ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+    ...(config.maxTokens !== undefined ? { maxTokens: config.maxTokens } : {}),
+  };
+  const middleware: LanguageModelV1Middleware[] = [];
+  if (Object.keys(settings).length > 0) middleware.push(defaultSettingsMiddleware({ settings }));
+  if (config.timeoutMs !== undefined) middleware.push(timeoutMiddleware(config.timeoutMs));
+  if (middleware.length === 0) return model;
+  return wrapLanguageModel({ model, middleware });
+}
+
+/**
+ * The model `role` should run on, resolved from the current environment and
+ * models file — or a ScriptedLanguageModel when LLM_SCRIPT is set. Under
+ * LLM_CASSETTE the model is wrapped to record its calls, or replaced by a
+ * ReplayLanguageModel in replay mode.
+ */
+export function modelFor(role: ModelRole): LanguageModelV1 {
+  const cassette = cassetteConfig();
+  const script = llmScriptPath();
+  if (cassette?.mode === "replay") {
+    if (script !== undefined) {
+      throw new Error("[models] LLM_SCRIPT cannot be combined with LLM_CASSETTE_MODE=replay.");
+    }
+    return new ReplayLanguageModel(role, cassettePath(cassette.dir, role));
+  }
+  const model =
+    script !== undefined
+      ? new ScriptedLanguageModel(role, script)
+      : createModel(resolveModelConfig(role));
+  return cassette ? recordCalls(model, role, cassette.dir) : model;
+}
+
+/**
+ * The models `role` falls back to, in order — none when LLM_SCRIPT is set or a
+ * cassette is replayed (the recording already holds whichever model served).
+ */
+export function fallbacksFor(role: ModelRole): LanguageModelV1[] {
+  const cassette = cassetteConfig();
+  if (llmScriptPath() !== undefined || cassette?.mode === "replay") return [];
+  const models = resolveFallbackConfigs(role).map(createModel);
+  return cassette ? models.map((model) => recordCalls(model, role, cassette.dir)) : models;
+}
+
+// ── Internals ─────────────────────────────────────────────────────────────────
+
+interface ResolveOptions {
+  env?: NodeJS.ProcessEnv;
+  file?: ModelsFile;
+}
+
+/** The configuration layers for `role`, lowest precedence first (built-in defaults excluded). */
+function layersFor(
+  role: ModelRole,
+  { env = process.env, file = loadModelsFile(env) }: ResolveOptions,
+): ModelLayer[] {
+  return [
+    file?.default ?? {},
+    envLayer(env, "DEFAULT_PROVIDER", "DEFAULT_MODEL"),
+    file?.roles?.[role] ?? {},
+    roleEnvLayer(env, role),
+  ];
+}
+
+/** Abort each call after `timeoutMs`, alongside any signal the caller passed. */
+function timeoutMiddleware(timeoutMs: number): LanguageModelV1Middleware {
+  return {
+    transformParams: async ({ params }) => {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      return {
+        ...params,
+        abortSignal: params.abortSignal ? AbortSignal.any([params.abortSignal, timeout]) : timeout,
+      };
+    },
+  };
+}
+
+/** "MODEL_SECURITY_LEAD" for "security-lead". */
+function roleEnvKey(role: ModelRole): string {
+  return `MODEL_${role.toUpperCase().replace(/-/g, "_")}`;
+}
+
+function roleEnvLayer(env: NodeJS.ProcessEnv, role: ModelRole): ModelLayer {
+  const key = roleEnvKey(role);
+  const spec = env[key];
+  const layer: ModelLayer = spec ? parseModelSpec(spec, key) : {};
+  const temperature = numberFromEnv(env, `${key}_TEMPERATURE`);
+  if (temperature !== undefined) layer.temperature = temperature;
+  const maxTokens = numberFromEnv(env, `${key}_MAX_TOKENS`);
+  if (maxTokens !== undefined) layer.maxTokens = maxTokens;
+  const timeoutMs = numberFromEnv(env, `${key}_TIMEOUT_MS`);
+  if (timeoutMs !== undefined) layer.timeoutMs = timeoutMs;
+  const fallbacks = env[`${key}_FALLBACKS`];
+  if (fallbacks !== undefined) {
+    layer.fallbacks = fallbacks
+      .split(",")
+      .map((s) => s.trim())
+      .filter((s) => s !== "")
+      .map((s) => parseModelSpec(s, `${key}_FALLBACKS`));
+  }
+  return layer;
+}
+
+/** "provider:model" or a bare model ID. */
+function parseModelSpec(spec: string, key: string): FallbackConfig {
+  const colon = spec.indexOf(":");
+  if (colon === -1) return { model: spec };
+  return { provider: parseProvider(spec.slice(0, colon), key), model: spec.slice(colon + 1) };
+}
+
+function envLayer(env: NodeJS.ProcessEnv, providerKey: string, modelKey: string): ModelLayer {
+  const provider = env[providerKey];
+  const model = env[modelKey];
+  return {
+    ...(provider ? { provider: parseProvider(provider, providerKey) } : {}),
+    ...(model ? { model } : {}),
+  };
+}
+
+function parseProvider(value: string, key: string): ModelProvider {
+  if (!(value in PROVIDERS)) {
+    throw new Error(
+      `[models] ${key}: unknown provider "${value}" (expected ${Object.keys(PROVIDERS).join(" | ")}).`,
+    );
+  }
+  return value as ModelProvider;
+}
+
+function numberFromEnv(env: NodeJS.ProcessEnv, key: string): number | undefined {
+  const raw = env[key];
+  if (raw === undefined || raw === "") return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`[models] ${key} must be a number, got "${raw}".`);
+  }
+  return value;
+}
+
+/** Fill in the provider for a layer that names only a model, when the ID makes it obvious. */
+function withInferredProvider<
+  T extends { model?: string | undefined; provider?: ModelProvider | undefined },
+>(layer: T): T {
+  if (layer.model === undefined || layer.provider !== undefined) return layer;
+  const provider = inferProvider(layer.model);
+  return provider ? { ...layer, provider } : layer;
+}
+
+function inferProvider(modelId: string): ModelProvider | undefined {
+  if (modelId.startsWith("claude-")) return "anthropic";
+  if (/^(gpt-|chatgpt-|o\d)/.test(modelId)) return "openai";
+  return undefined;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n");
+}
@@ -10,8 +10,8 @@
 
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
-import { openai } from "@ai-sdk/openai";
 import { COLLECTIONS } from "../memory/types.js";
+import { fallbacksFor, modelFor } from "./model-registry.js";
 import type { RoleConfig } from "./types.js";
 
 /** Load full role logic from the docs/roles/ system-of-record. */
@@ -25,7 +25,7 @@ export const productArchitect: RoleConfig = {
   displayName: "Product Architect",
   defaultCollection: COLLECTIONS.PLANS,
   maxSteps: 3,
-  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
-  model: openai(process.env["DEFAULT_MODEL"] ?? "gpt-4o"),
+  model: modelFor("product-architect"),
+  fallbackModels: fallbacksFor("product-architect"),
   systemPrompt,
 };
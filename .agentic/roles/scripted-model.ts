@@ -0,0 +1,248 @@
+/**
+ * .agentic/roles/scripted-model.ts
+ *
+ * Offline, deterministic LanguageModelV1 for tests, CI and local dev.
+ *
+ * A ScriptedLanguageModel never touches the network: it replays canned
+ * responses from an LLM script — a JSON file of responses keyed by role and
+ * prompt. Set LLM_SCRIPT to the script's path and every role (and the Logic
+ * Critic) resolves to a scripted model instead of a real provider, so the full
+ * `runFlywheel` path runs with no API keys.
+ *
+ *   {
+ *     "responses": [
+ *       {
+ *         "role": "product-architect",
+ *         "promptIncludes": "GET /hello",
+ *         "steps": [
+ *           { "toolCalls": [{ "toolName": "listDirectory", "args": { "path": "src" } }] },
+ *           { "json": { "id": "spec-1", "title": "…" } }
+ *         ]
+ *       },
+ *       { "role": "security-lead", "steps": [{ "text": "{ … }" }] }
+ *     ]
+ *   }
+ *
+ * A call is matched against the responses for its role, in this order:
+ *
+ *   1. `fingerprint` — equal to promptFingerprint() of the call's first user
+ *      message (the task, without the retrieved context in the system prompt);
+ *   2. `promptIncludes` — a substring of any message in the call;
+ *   3. a response with neither — the role's default.
+ *
+ * An unmatched call throws with the fingerprint to add to the script.
+ *
+ * `steps` script a tool loop: step N answers the call that already holds N
+ * assistant turns, so `generateText({ maxSteps })` walks through them — tool
+ * calls are executed by the real tools between steps. Calls beyond the last
+ * step replay it. Each step is plain `text`, a `json` value (serialized for
+ * you), `toolCalls`, or text plus tool calls.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "ai";
+import { z } from "zod";
+import { MODEL_ROLES, type ModelRole } from "./types.js";
+
+export type GenerateResult = Awaited<ReturnType<LanguageModelV1["doGenerate"]>>;
+export type StreamResult = Awaited<ReturnType<LanguageModelV1["doStream"]>>;
+
+// ── Script schema ─────────────────────────────────────────────────────────────
+
+const ScriptedToolCallSchema = z.object({
+  toolName: z.string().min(1),
+  args: z.record(z.string(), z.unknown()).default({}),
+});
+
+const ScriptedStepSchema = z
+  .object({
+    text: z.string().optional(),
+    /** Serialized with JSON.stringify — convenient for TechSpec / CodeArtifact output */
+    json: z.unknown().optional(),
+    toolCalls: z.array(ScriptedToolCallSchema).default([]),
+  })
+  .strict()
+  .refine((s) => s.text === undefined || s.json === undefined, "Use either text or json, not both");
+export type ScriptedStep = z.infer<typeof ScriptedStepSchema>;
+
+export const ScriptedResponseSchema = z
+  .object({
+    role: z.enum(MODEL_ROLES),
+    fingerprint: z.string().min(1).optional(),
+    promptIncludes: z.string().min(1).optional(),
+    steps: z.array(ScriptedStepSchema).min(1),
+  })
+  .strict();
+export type ScriptedResponse = z.infer<typeof ScriptedResponseSchema>;
+
+export const LlmScriptSchema = z.object({ responses: z.array(ScriptedResponseSchema) }).strict();
+export type LlmScript = z.infer<typeof LlmScriptSchema>;
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+/**
+ * Read and validate an LLM script.
+ * @throws {Error} if the file cannot be read or does not match LlmScriptSchema.
+ */
+export function loadLlmScript(path: string): LlmScript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(resolve(path), "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `[scripted] Could not read LLM script ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = LlmScriptSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((i) => `  - ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`[scripted] Invalid LLM script ${path}:\n${issues}`);
+  }
+  return parsed.data;
+}
+
+/** Path of the active LLM script, or undefined when real providers are in use. */
+export function llmScriptPath(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  return env["LLM_SCRIPT"] || undefined;
+}
+
+/**
+ * First 16 hex characters of the SHA-256 of a prompt's first user message.
+ * Stable across runs as long as the agent's task text is.
+ */
+export function promptFingerprint(prompt: LanguageModelV1Prompt): string {
+  const firstUser = prompt.find((m) => m.role === "user");
+  const text = firstUser ? messageText(firstUser) : "";
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+// ── ScriptedLanguageModel ─────────────────────────────────────────────────────
+
+export class ScriptedLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1";
+  readonly provider = "scripted";
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode = undefined;
+  readonly role: ModelRole;
+  private readonly source: LlmScript | string;
+  private script: LlmScript | undefined;
+
+  /**
+   * @param script - The script itself, or a path to load it from on first use
+   *   (so a test can write the file after the roles are imported).
+   */
+  constructor(role: ModelRole, script: LlmScript | string) {
+    this.role = role;
+    this.modelId = `scripted-${role}`;
+    this.source = script;
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions) {
+    const step = this.stepFor(options.prompt);
+    const text = step.json !== undefined ? JSON.stringify(step.json, null, 2) : (step.text ?? "");
+    const toolCalls = step.toolCalls.map((call, i) => ({
+      toolCallType: "function" as const,
+      toolCallId: `scripted-call-${assistantTurns(options.prompt)}-${i}`,
+      toolName: call.toolName,
+      args: JSON.stringify(call.args),
+    }));
+
+    return {
+      text,
+      toolCalls,
+      finishReason: toolCalls.length > 0 ? ("tool-calls" as const) : ("stop" as const),
+      usage: {
+        promptTokens: estimateTokens(options.prompt.map(messageText).join("\n")),
+        completionTokens: estimateTokens(text),
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<StreamResult> {
+    return streamOf(await this.doGenerate(options));
+  }
+
+  private stepFor(prompt: LanguageModelV1Prompt): ScriptedStep {
+    this.script ??= typeof this.source === "string" ? loadLlmScript(this.source) : this.source;
+    const candidates = this.script.responses.filter((r) => r.role === this.role);
+    const fingerprint = promptFingerprint(prompt);
+    const allText = prompt.map(messageText).join("\n");
+
+    const response =
+      candidates.find((r) => r.fingerprint === fingerprint) ??
+      candidates.find(
+        (r) => r.promptIncludes !== undefined && allText.includes(r.promptIncludes),
+      ) ??
+      candidates.find((r) => r.fingerprint === undefined && r.promptIncludes === undefined);
+    if (!response) {
+      const firstUser = prompt.find((m) => m.role === "user");
+      throw new Error(
+        `[scripted] No scripted response for role "${this.role}" (fingerprint ${fingerprint}). ` +
+          `Add { "role": "${this.role}", "fingerprint": "${fingerprint}", "steps": [...] } to the LLM script. ` +
+          `Prompt: ${JSON.stringify((firstUser ? messageText(firstUser) : "").slice(0, 200))}`,
+      );
+    }
+
+    const steps = response.steps;
+    return steps[Math.min(assistantTurns(prompt), steps.length - 1)] as ScriptedStep;
+  }
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * Replay a doGenerate() result as a doStream() result — for offline models
+ * that only know complete responses.
+ */
+export function streamOf({
+  text,
+  toolCalls,
+  finishReason,
+  usage,
+  rawCall,
+}: GenerateResult): StreamResult {
+  const parts: LanguageModelV1StreamPart[] = [
+    ...(text ? [{ type: "text-delta" as const, textDelta: text }] : []),
+    ...(toolCalls ?? []).map((call) => ({ type: "tool-call" as const, ...call })),
+    { type: "finish", finishReason, usage },
+  ];
+  const stream = new ReadableStream<LanguageModelV1StreamPart>({
+    start(controller) {
+      for (const part of parts) controller.enqueue(part);
+      controller.close();
+    },
+  });
+  return { stream, rawCall };
+}
+
+function messageText(message: LanguageModelV1Prompt[number]): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => {
+      if (part.type === "text") return part.text;
+      if (part.type === "tool-call") return `${part.toolName}(${JSON.stringify(part.args)})`;
+      if (part.type === "tool-result") return JSON.stringify(part.result);
+      return "";
+    })
+    .join("\n");
+}
+
+function assistantTurns(prompt: LanguageModelV1Prompt): number {
+  return prompt.filter((m) => m.role === "assistant").length;
+}
+
+/** Roughly four characters per token — enough for budget tests. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
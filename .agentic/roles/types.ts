@@ -19,8 +19,13 @@ export interface RoleConfig {
   displayName: string;
   /** The system prompt injected on every call using this role */
   systemPrompt: string;
-  /** Language model to use for this role (overrides DEFAULT_MODEL) */
+  /** Language model to use for this role — resolved by modelFor() in model-registry.ts */
   model: LanguageModelV1;
+  /**
+   * Tried in order when `model` fails with a provider error, timeout or rate
+   * limit — resolved by fallbacksFor() in model-registry.ts.
+   */
+  fallbackModels?: LanguageModelV1[];
   /**
    * The primary Chroma collection this role reads from.
    * The agent can still query other collections explicitly.
@@ -29,3 +34,15 @@ export interface RoleConfig {
   /** Maximum agent loop steps before forcing termination */
   maxSteps?: number;
 }
+
+/** Every role that calls an LLM: the Pod roles plus the Logic Critic. */
+export type ModelRole = RoleConfig["name"] | "logic-critic";
+
+export const MODEL_ROLES = [
+  "product-architect",
+  "agentic-engineer",
+  "context-engineer",
+  "security-lead",
+  "vibe-engineer",
+  "logic-critic",
+] as const satisfies readonly ModelRole[];
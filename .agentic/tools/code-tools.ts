@@ -4,6 +4,10 @@
  * Code verification tools — let the Agentic Engineer self-verify generated output.
  * These tools run real TypeScript and Biome checks so agents get honest feedback
  * before declaring their work done.
+ *
+ * `createCodeTools(cwd)` binds the tools to a directory — the executor points
+ * them at its scratch workspace so the checks see the code it just wrote.
+ * The plain exports run against process.cwd().
  */
 
 import { exec } from "node:child_process";
@@ -17,11 +21,12 @@ const execAsync = promisify(exec);
 
 async function runCommand(
   command: string,
+  cwd: string,
   timeoutMs = 30_000,
 ): Promise<{ success: boolean; output: string; exitCode: number }> {
   try {
     const { stdout, stderr } = await execAsync(command, {
-      cwd: process.cwd(),
+      cwd,
       timeout: timeoutMs,
       encoding: "utf-8",
     });
@@ -35,52 +40,59 @@ async function runCommand(
 
 // ── Tools ─────────────────────────────────────────────────────────────────────
 
-/**
- * Run TypeScript type-checking across the workspace.
- * Call this after generating or modifying any .ts file.
- */
-export const runTypeCheck = tool({
-  description:
-    "Run TypeScript type-checking (tsc --noEmit) across the entire workspace. " +
-    "Always call this after generating TypeScript code to verify correctness. " +
-    "Fix any reported errors before declaring the task done.",
-  parameters: z.object({
-    _unused: z.undefined().optional().describe("No parameters needed."),
-  }),
-  execute: async () => {
-    return runCommand("npx tsc --noEmit");
-  },
-});
+/** Build runTypeCheck / runLint / runUnitTests that run inside `cwd`. */
+export function createCodeTools(cwd: string) {
+  /**
+   * Run TypeScript type-checking across the workspace.
+   * Call this after generating or modifying any .ts file.
+   */
+  const runTypeCheck = tool({
+    description:
+      "Run TypeScript type-checking (tsc --noEmit) across the entire workspace. " +
+      "Always call this after generating TypeScript code to verify correctness. " +
+      "Fix any reported errors before declaring the task done.",
+    parameters: z.object({
+      _unused: z.undefined().optional().describe("No parameters needed."),
+    }),
+    execute: async () => {
+      return runCommand("npx tsc --noEmit", cwd);
+    },
+  });
 
-/**
- * Run Biome linting across the workspace.
- * Call this after generating code to catch style and correctness violations.
- */
-export const runLint = tool({
-  description:
-    "Run Biome linting to check for code style violations, unused imports, and common errors. " +
-    "Call this after runTypeCheck. Fix reported issues before declaring the task done.",
-  parameters: z.object({
-    _unused: z.undefined().optional().describe("No parameters needed."),
-  }),
-  execute: async () => {
-    return runCommand("npx biome check .");
-  },
-});
+  /**
+   * Run Biome linting across the workspace.
+   * Call this after generating code to catch style and correctness violations.
+   */
+  const runLint = tool({
+    description:
+      "Run Biome linting to check for code style violations, unused imports, and common errors. " +
+      "Call this after runTypeCheck. Fix reported issues before declaring the task done.",
+    parameters: z.object({
+      _unused: z.undefined().optional().describe("No parameters needed."),
+    }),
+    execute: async () => {
+      return runCommand("npx biome check .", cwd);
+    },
+  });
 
-/**
- * Run the unit test suite.
- * Call this to verify your implementation against existing tests.
- */
-export const runUnitTests = tool({
-  description:
-    "Run the unit test suite (tests/unit/). " +
-    "Use this to verify that your changes do not break existing tests. " +
-    "If tests fail, read the error output and fix before proceeding.",
-  parameters: z.object({
-    _unused: z.undefined().optional().describe("No parameters needed."),
-  }),
-  execute: async () => {
-    return runCommand("npx vitest run tests/unit", 60_000);
-  },
-});
+  /**
+   * Run the unit test suite.
+   * Call this to verify your implementation against existing tests.
+   */
+  const runUnitTests = tool({
+    description:
+      "Run the unit test suite (tests/unit/). " +
+      "Use this to verify that your changes do not break existing tests. " +
+      "If tests fail, read the error output and fix before proceeding.",
+    parameters: z.object({
+      _unused: z.undefined().optional().describe("No parameters needed."),
+    }),
+    execute: async () => {
+      return runCommand("npx vitest run tests/unit", cwd, 60_000);
+    },
+  });
+
+  return { runTypeCheck, runLint, runUnitTests };
+}
+
+export const { runTypeCheck, runLint, runUnitTests } = createCodeTools(process.cwd());
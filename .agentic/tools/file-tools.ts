@@ -5,6 +5,10 @@
  *
  * Security note: all paths are resolved relative to the project root
  * and checked against an allowlist to prevent path traversal.
+ *
+ * `createFileTools(root)` binds the tools to another root — the executor
+ * points them at its scratch workspace so it can read back what it wrote.
+ * The plain exports read from process.cwd().
  */
 
 import { readFile as fsReadFile, readdir } from "node:fs/promises";
@@ -14,12 +18,10 @@ import { z } from "zod";
 
 // ── Root guard ────────────────────────────────────────────────────────────────
 
-const PROJECT_ROOT = resolve(process.cwd());
-
-/** Throw if the resolved path escapes the project root. */
-function safeResolve(relativePath: string): string {
-  const resolved = normalize(join(PROJECT_ROOT, relativePath));
-  if (!resolved.startsWith(PROJECT_ROOT)) {
+/** Throw if the resolved path escapes `root`. */
+function safeResolve(root: string, relativePath: string): string {
+  const resolved = normalize(join(root, relativePath));
+  if (!resolved.startsWith(root)) {
     throw new Error(
       `Path traversal attempt blocked: "${relativePath}" resolves outside project root.`,
     );
@@ -43,52 +45,63 @@ function assertReadAllowed(relativePath: string): void {
 
 // ── Tools ─────────────────────────────────────────────────────────────────────
 
-/**
- * Read the full contents of a workspace file.
- * Use this to fetch implementation context before generating related code.
- */
-export const readFile = tool({
-  description:
-    "Read the contents of a file in the workspace. " +
-    "Use this to understand existing code before generating new code that interacts with it.",
-  parameters: z.object({
-    path: z
-      .string()
-      .min(1)
-      .describe("Workspace-relative path to the file (e.g., 'src/core/guardrails/pii-filter.ts')."),
-  }),
-  execute: async ({ path }) => {
-    assertReadAllowed(path);
-    const absPath = safeResolve(path);
-    const contents = await fsReadFile(absPath, "utf-8");
-    return { path, contents, charCount: contents.length };
-  },
-});
+/** Build readFile / listDirectory rooted at `root`. */
+export function createFileTools(root: string) {
+  const projectRoot = resolve(root);
 
-/**
- * List the contents of a directory (non-recursive).
- * Use this to understand directory structure before reading specific files.
- */
-export const listDirectory = tool({
-  description:
-    "List files and subdirectories in a workspace directory (non-recursive). " +
-    "Use this to understand project structure or find relevant files.",
-  parameters: z.object({
-    path: z
-      .string()
-      .min(1)
-      .describe("Workspace-relative directory path (e.g., 'src/core/' or 'docs/')."),
-  }),
-  execute: async ({ path }) => {
-    assertReadAllowed(path);
-    const absPath = safeResolve(path);
-    const entries = await readdir(absPath, { withFileTypes: true });
-    return {
-      path,
-      entries: entries.map((e) => ({
-        name: e.name,
-        type: e.isDirectory() ? "directory" : "file",
-      })),
-    };
-  },
-});
+  /**
+   * Read the full contents of a workspace file.
+   * Use this to fetch implementation context before generating related code.
+   */
+  const readFile = tool({
+    description:
+      "Read the contents of a file in the workspace. " +
+      "Use this to understand existing code before generating new code that interacts with it.",
+    parameters: z.object({
+      path: z
+        .string()
+        .min(1)
+        .describe(
+          "Workspace-relative path to the file (e.g., 'src/core/guardrails/pii-filter.ts').",
+        ),
+    }),
+    execute: async ({ path }) => {
+      assertReadAllowed(path);
+      const absPath = safeResolve(projectRoot, path);
+      const contents = await fsReadFile(absPath, "utf-8");
+      return { path, contents, charCount: contents.length };
+    },
+  });
+
+  /**
+   * List the contents of a directory (non-recursive).
+   * Use this to understand directory structure before reading specific files.
+   */
+  const listDirectory = tool({
+    description:
+      "List files and subdirectories in a workspace directory (non-recursive). " +
+      "Use this to understand project structure or find relevant files.",
+    parameters: z.object({
+      path: z
+        .string()
+        .min(1)
+        .describe("Workspace-relative directory path (e.g., 'src/core/' or 'docs/')."),
+    }),
+    execute: async ({ path }) => {
+      assertReadAllowed(path);
+      const absPath = safeResolve(projectRoot, path);
+      const entries = await readdir(absPath, { withFileTypes: true });
+      return {
+        path,
+        entries: entries.map((e) => ({
+          name: e.name,
+          type: e.isDirectory() ? "directory" : "file",
+        })),
+      };
+    },
+  });
+
+  return { readFile, listDirectory };
+}
+
+export const { readFile, listDirectory } = createFileTools(process.cwd());
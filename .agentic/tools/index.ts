@@ -6,11 +6,15 @@
  * Usage in an agent:
  *   import { allTools, executorTools } from "../tools/index.js";
  *   const { text } = await generateText({ tools: executorTools, ... });
+ *
+ * The executor uses `createExecutorTools(workspace)` instead, which binds the
+ * file and code tools to a scratch workspace (see src/core/tools/workspace.ts).
  */
 
 export { searchKnowledgeBase, searchVulnerabilities, writeVulnerability } from "./search-tools.js";
-export { readFile, listDirectory } from "./file-tools.js";
-export { runTypeCheck, runLint, runUnitTests } from "./code-tools.js";
+export { readFile, listDirectory, createFileTools } from "./file-tools.js";
+export { runTypeCheck, runLint, runUnitTests, createCodeTools } from "./code-tools.js";
+export { createWorkspaceTools } from "./workspace-tools.js";
 export { queryLogs, queryMetrics } from "../../src/core/tools/observability-tools.js";
 
 // ── Role-scoped tool bundles ──────────────────────────────────────────────────
@@ -18,9 +22,11 @@ export { queryLogs, queryMetrics } from "../../src/core/tools/observability-tool
 // This reduces the LLM's decision surface and token usage.
 
 import { queryLogs, queryMetrics } from "../../src/core/tools/observability-tools.js";
-import { runLint, runTypeCheck, runUnitTests } from "./code-tools.js";
-import { listDirectory, readFile } from "./file-tools.js";
+import type { ScratchWorkspace } from "../../src/core/tools/workspace.js";
+import { createCodeTools, runLint, runTypeCheck, runUnitTests } from "./code-tools.js";
+import { createFileTools, listDirectory, readFile } from "./file-tools.js";
 import { searchKnowledgeBase, searchVulnerabilities, writeVulnerability } from "./search-tools.js";
+import { createWorkspaceTools } from "./workspace-tools.js";
 
 /** Tools available to the Product Architect (planning agent) */
 export const plannerTools = {
@@ -47,6 +53,21 @@ export const executorTools = {
   queryMetrics,
 } as const;
 
+/**
+ * executorTools bound to a scratch workspace, plus `writeFile`: the agent
+ * writes its files there and the code tools verify them in place.
+ */
+export function createExecutorTools(workspace: ScratchWorkspace) {
+  return {
+    searchKnowledgeBase,
+    ...createFileTools(workspace.root),
+    ...createWorkspaceTools(workspace),
+    ...createCodeTools(workspace.root),
+    queryLogs,
+    queryMetrics,
+  } as const;
+}
+
 /** Tools available to the Security Lead (auditor agent) */
 export const auditorTools = {
   searchKnowledgeBase,
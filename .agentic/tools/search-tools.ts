@@ -6,7 +6,7 @@
 
 import { tool } from "ai";
 import { z } from "zod";
-import { getMemoryStore } from "../memory/chroma-store.js";
+import { getMemoryStore } from "../memory/store.js";
 import { COLLECTIONS } from "../memory/types.js";
 
 const collectionEnum = z
@@ -0,0 +1,40 @@
+/**
+ * .agentic/tools/workspace-tools.ts
+ *
+ * Scratch workspace tools — let the Agentic Engineer write the files it is
+ * generating into an isolated copy of the repository, so runTypeCheck,
+ * runLint and runUnitTests check the new code rather than the unchanged tree.
+ *
+ * Writes never reach the real working tree; the workspace is discarded once
+ * the executor has produced its artifact.
+ */
+
+import { tool } from "ai";
+import { z } from "zod";
+import type { ScratchWorkspace } from "../../src/core/tools/workspace.js";
+
+// ── Tools ─────────────────────────────────────────────────────────────────────
+
+/** Build a writeFile tool bound to `workspace`. */
+export function createWorkspaceTools(workspace: ScratchWorkspace) {
+  /**
+   * Write (create or overwrite) a file in the scratch workspace.
+   * Call this for every generated file before running the code tools.
+   */
+  const writeFile = tool({
+    description:
+      "Write a file into the scratch workspace (an isolated copy of the repository). " +
+      "Write every file you generate with this tool before calling runTypeCheck, runLint or runUnitTests — " +
+      "the checks only see files written here. Writing does not change the real repository.",
+    parameters: z.object({
+      path: z.string().min(1).describe("Workspace-relative path (e.g., 'src/api/hello.ts')."),
+      content: z.string().describe("The complete file contents."),
+    }),
+    execute: async ({ path, content }) => {
+      await workspace.writeFile(path, content);
+      return { path, written: true, charCount: content.length };
+    },
+  });
+
+  return { writeFile };
+}
@@ -12,7 +12,8 @@
  * 1. Always add new fields as `.optional()` first.
  * 2. Never rename a field — add the new name and mark the old as `.optional()`.
  * 3. Breaking changes require an ADR in docs/decisions/.
- * 4. After each change, the Context Engineer re-indexes this file by running `pnpm seed`.
+ * 4. After each change, the Context Engineer re-indexes this file by running `pnpm seed`
+ *    (or automatically, while `pnpm seed:watch` is running).
  */
 
 import { z } from "zod";
@@ -109,6 +110,14 @@ export const CodeArtifactSchema = z.object({
   nominateAsGolden: z.boolean().optional(),
   goldenTitle: z.string().optional(),
   goldenTags: z.array(z.string()).optional(),
+  /**
+   * Map of relative file path → unified diff against the current tree, for
+   * edits to existing files that are too large to re-emit whole. A path may
+   * appear in `files` or `patches`, not both. Every patch must apply cleanly
+   * (see src/core/guardrails/patch-validator.ts).
+   * Following schema-evolution convention: new fields are .optional() first.
+   */
+  patches: z.record(z.string(), z.string()).optional(),
 });
 export type CodeArtifact = z.infer<typeof CodeArtifactSchema>;
 
@@ -141,6 +150,37 @@ export const AuditReportSchema = z.object({
 });
 export type AuditReport = z.infer<typeof AuditReportSchema>;
 
+/**
+ * Post-execution handoff: the outcome of running an artifact's
+ * `verificationSteps` against a scratch copy of the repository with the
+ * artifact materialized (see src/core/tools/verification.ts).
+ * Only allow-listed commands run; anything else is recorded as skipped.
+ */
+export const VerificationStepSchema = z.object({
+  /** The command exactly as listed in `verificationSteps` */
+  command: z.string(),
+  /** skipped = not on the allow-list (or not runnable); never counts as a failure */
+  status: z.enum(["passed", "failed", "skipped"]),
+  /** Process exit code, absent when skipped or killed by a signal */
+  exitCode: z.number().int().optional(),
+  /** Combined stdout + stderr, truncated to the last few thousand characters */
+  output: z.string().default(""),
+  /** Why the step was skipped or did not exit normally (e.g. "timed out after 120s") */
+  reason: z.string().optional(),
+  durationMs: z.number().nonnegative(),
+});
+export type VerificationStep = z.infer<typeof VerificationStepSchema>;
+
+export const VerificationResultSchema = z.object({
+  id: z.string().min(1),
+  artifactId: z.string().min(1),
+  /** true = no step failed (skipped steps do not count) */
+  passed: z.boolean(),
+  steps: z.array(VerificationStepSchema).default([]),
+  createdAt: ISODateSchema,
+});
+export type VerificationResult = z.infer<typeof VerificationResultSchema>;
+
 /**
  * Stage 4 → output: the polished, enterprise-ready artifact.
  * The CodeArtifact schema is reused; this type alias signals provenance.
@@ -149,6 +189,110 @@ export type PolishedArtifact = CodeArtifact;
 
 // ── Flywheel Run ──────────────────────────────────────────────────────────────
 
+/**
+ * One execute → audit round of the optional repair loop (`repairRounds`).
+ * Round 0 is the original execution; every later round re-ran the executor
+ * with the previous round's critical/high findings as repair instructions.
+ */
+export const RepairRoundSchema = z.object({
+  round: z.number().int().nonnegative(),
+  /** Findings fed back to the executor for this round (empty for round 0) */
+  instructions: z.array(AuditFindingSchema).default([]),
+  artifact: CodeArtifactSchema,
+  audit: AuditReportSchema,
+});
+export type RepairRound = z.infer<typeof RepairRoundSchema>;
+
+/**
+ * One Logic-Critic-driven rework attempt inside the Trust Gate
+ * (`logicReworkAttempts`). The executor re-ran with the previous review's
+ * issues as instructions; the result was re-audited and re-reviewed.
+ */
+export const LogicReworkSchema = z.object({
+  attempt: z.number().int().positive(),
+  /** Logic Critic issues (and failed verification steps) fed back to the executor */
+  issues: z.array(z.string()),
+  artifact: CodeArtifactSchema,
+  audit: AuditReportSchema,
+  /** Verdict of the Logic Critic on the reworked artifact */
+  logicReviewPassed: z.boolean(),
+  /**
+   * verificationSteps re-run against the reworked artifact (verify:true only).
+   * Following schema-evolution convention: new fields are .optional() first.
+   */
+  verification: VerificationResultSchema.optional(),
+});
+export type LogicRework = z.infer<typeof LogicReworkSchema>;
+
+// ── Usage & Cost ──────────────────────────────────────────────────────────────
+
+/**
+ * Token usage of one LLM call, attributed to the stage and agent that made it.
+ * `kind` separates the agent's own generation from guardrail self-corrections.
+ */
+export const UsageRecordSchema = z.object({
+  /** Pipeline stage the call was made in (e.g. "execute") */
+  stage: z.string().min(1),
+  /** Agent that made the call (e.g. "executor") */
+  agent: z.string().min(1),
+  /** Model ID as reported by the provider (e.g. "gpt-4o") */
+  model: z.string().min(1),
+  kind: z.enum(["generation", "correction"]),
+  /** 1-based self-correction attempt (corrections only) */
+  attempt: z.number().int().positive().optional(),
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+  /** Cost from the run's price table; 0 for models without a price */
+  costUsd: z.number().nonnegative(),
+  /** Set when the run's price table has no entry for the model (so `costUsd` is 0) */
+  unpriced: z.literal(true).optional(),
+});
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
+export const UsageTotalsSchema = z.object({
+  promptTokens: z.number().int().nonnegative(),
+  completionTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+  costUsd: z.number().nonnegative(),
+});
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+
+/** Token and cost accounting for a whole run: totals, per-stage subtotals and every call. */
+export const RunUsageSchema = UsageTotalsSchema.extend({
+  byStage: z.record(z.string(), UsageTotalsSchema).default({}),
+  records: z.array(UsageRecordSchema).default([]),
+});
+export type RunUsage = z.infer<typeof RunUsageSchema>;
+
+// ── Model Serving ─────────────────────────────────────────────────────────────
+
+/** A model that failed an agent call and was abandoned for the next fallback. */
+export const ModelFailureSchema = z.object({
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  /** The provider error, timeout or rate limit that triggered the switch */
+  error: z.string(),
+});
+export type ModelFailure = z.infer<typeof ModelFailureSchema>;
+
+/**
+ * Which model actually served one agent call, after any fallbacks.
+ * A stage has one record per agent call (more when it loops, e.g. rework).
+ */
+export const ModelServingSchema = z.object({
+  /** Pipeline stage the call was made in (e.g. "audit") */
+  stage: z.string().min(1),
+  /** Agent that made the call (e.g. "auditor") */
+  agent: z.string().min(1),
+  /** Provider ID as reported by the SDK (e.g. "anthropic.messages") */
+  provider: z.string().min(1),
+  model: z.string().min(1),
+  /** Models tried first and abandoned, in order — empty when the primary served */
+  failedOver: z.array(ModelFailureSchema).default([]),
+});
+export type ModelServing = z.infer<typeof ModelServingSchema>;
+
 /**
  * The result of a complete Knowledge Flywheel run (all five stages).
  */
@@ -156,6 +300,12 @@ export const FlywheelResultSchema = z.object({
   runId: z.string().min(1),
   brief: z.string().min(1),
   spec: TechSpecSchema,
+  /**
+   * The spec as returned by approveSpec, which the executor built from
+   * (present only when approveSpec ran). `spec` above is the planner's.
+   * Following schema-evolution convention: new fields are .optional() first.
+   */
+  approvedSpec: TechSpecSchema.optional(),
   artifact: CodeArtifactSchema,
   audit: AuditReportSchema,
   polished: CodeArtifactSchema,
@@ -167,5 +317,160 @@ export const FlywheelResultSchema = z.object({
    */
   autoMerged: z.boolean().optional(),
   logicReviewPassed: z.boolean().optional(),
+  /**
+   * Every execute → audit round, in order (present only when repairRounds > 0).
+   * `artifact` and `audit` above are the last round's.
+   */
+  repairRounds: z.array(RepairRoundSchema).optional(),
+  /**
+   * Trust Gate rework attempts, in order (present only when autoMerge:true and
+   * logicReworkAttempts > 0). `artifact` and `audit` above are those of the
+   * last attempt whose audit and Logic Critic review both passed, if any.
+   */
+  logicReworks: z.array(LogicReworkSchema).optional(),
+  /**
+   * Outcome of running the final artifact's verificationSteps (present only
+   * when verify:true). A failed step fails the Trust Gate.
+   */
+  verification: VerificationResultSchema.optional(),
+  /**
+   * Token usage and cost of every LLM call in the run, including calls made
+   * before a resume.
+   * Following schema-evolution convention: new fields are .optional() first.
+   */
+  usage: RunUsageSchema.optional(),
+  /**
+   * The model that served each agent call, in call order — including calls
+   * made before a resume. Shows where a fallback model took over.
+   * Following schema-evolution convention: new fields are .optional() first.
+   */
+  models: z.array(ModelServingSchema).optional(),
 });
 export type FlywheelResult = z.infer<typeof FlywheelResultSchema>;
+
+// ── Flywheel Events ───────────────────────────────────────────────────────────
+
+/**
+ * Structured progress events emitted during a flywheel run.
+ * Consumed by the CLI renderer, `streamFlywheel()`, dashboards and bots.
+ * Every event carries the `runId` it belongs to.
+ */
+const EventBase = z.object({ runId: z.string().min(1) });
+
+export const FlywheelEventSchema = z.discriminatedUnion("type", [
+  EventBase.extend({
+    type: z.literal("run:start"),
+    brief: z.string(),
+    /** true when continuing from persisted checkpoints */
+    resumed: z.boolean(),
+  }),
+  EventBase.extend({
+    type: z.literal("stage:start"),
+    stage: z.string().min(1),
+    label: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal("stage:end"),
+    stage: z.string().min(1),
+    /** completed = ran now; checkpoint = restored from disk; skipped = disabled for this run */
+    status: z.enum(["completed", "checkpoint", "skipped"]),
+    durationMs: z.number().nonnegative(),
+    /** Optional one-line summary of the stage output */
+    summary: z.string().optional(),
+  }),
+  EventBase.extend({
+    type: z.literal("retrieval"),
+    /** The agent that performed the retrieval (e.g. "planner") */
+    agent: z.string().min(1),
+    query: z.string(),
+    collections: z.array(z.string()),
+    resultCount: z.number().int().nonnegative(),
+    durationMs: z.number().nonnegative(),
+  }),
+  EventBase.extend({
+    type: z.literal("tool:call"),
+    agent: z.string().min(1),
+    toolName: z.string().min(1),
+    args: z.unknown(),
+  }),
+  EventBase.extend({
+    type: z.literal("agent:log"),
+    agent: z.string().min(1),
+    level: z.enum(["info", "warn"]),
+    /** One human-readable progress line, without the `[agent]` prefix */
+    message: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal("guardrail:retry"),
+    /** Guardrail label, e.g. "TechSpec from planner" */
+    label: z.string(),
+    attempt: z.number().int().positive(),
+    maxAttempts: z.number().int().positive(),
+    issues: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal("repair:round"),
+    /** 1-based repair round */
+    round: z.number().int().positive(),
+    maxRounds: z.number().int().positive(),
+    /** Number of critical/high findings fed back to the executor */
+    findings: z.number().int().nonnegative(),
+    /** Whether the re-audit passed */
+    passed: z.boolean(),
+  }),
+  EventBase.extend({
+    type: z.literal("logic:rework"),
+    /** 1-based rework attempt */
+    attempt: z.number().int().positive(),
+    maxAttempts: z.number().int().positive(),
+    /** Number of Logic Critic issues fed back to the executor */
+    issues: z.number().int().nonnegative(),
+    /** Whether the Logic Critic passed the reworked artifact */
+    passed: z.boolean(),
+  }),
+  EventBase.extend({
+    type: z.literal("verification"),
+    passed: z.boolean(),
+    /** Number of verificationSteps, including skipped ones */
+    steps: z.number().int().nonnegative(),
+    /** Commands that failed */
+    failed: z.array(z.string()),
+    /** Commands that were not on the allow-list */
+    skipped: z.array(z.string()),
+  }),
+  EventBase.extend({
+    type: z.literal("usage"),
+    /** The call that was just recorded */
+    record: UsageRecordSchema,
+    /** Run totals including this call */
+    totalTokens: z.number().int().nonnegative(),
+    totalCostUsd: z.number().nonnegative(),
+  }),
+  EventBase.extend({
+    type: z.literal("model:fallback"),
+    agent: z.string().min(1),
+    /** The model that failed (provider/model) */
+    from: z.string().min(1),
+    /** The fallback about to be tried (provider/model) */
+    to: z.string().min(1),
+    error: z.string(),
+  }),
+  EventBase.extend({
+    type: z.literal("trust-gate"),
+    passed: z.boolean(),
+    /** Why the gate failed — empty on a Perfect Pass */
+    reasons: z.array(z.string()),
+  }),
+  EventBase.extend({
+    type: z.literal("run:complete"),
+    durationMs: z.number().nonnegative(),
+    result: FlywheelResultSchema,
+  }),
+  EventBase.extend({
+    type: z.literal("run:error"),
+    durationMs: z.number().nonnegative(),
+    message: z.string(),
+  }),
+]);
+export type FlywheelEvent = z.infer<typeof FlywheelEventSchema>;
+export type FlywheelEventType = FlywheelEvent["type"];
@@ -0,0 +1,56 @@
+/**
+ * scripts/apply-artifact.ts
+ *
+ * Apply a completed flywheel run's polished artifact to this repository:
+ * writes `polished.files` on a new branch `flywheel/<spec.id>` and commits
+ * them with a message generated from the spec and audit report. The spec is
+ * the approved one when the run had an approveSpec gate.
+ *
+ * Usage:
+ *   pnpm apply <runId>                 # refuse paths outside spec.affectedPaths
+ *   pnpm apply <runId> --force         # write them anyway
+ *   pnpm apply <runId> --branch <name> # custom branch name
+ *
+ * The run is read from its checkpoint directory (FLYWHEEL_RUNS_DIR or ./__runs__).
+ */
+
+import { FlywheelResultSchema } from "../docs/schema/entities.js";
+import { applyArtifact } from "../src/core/apply.js";
+import { CheckpointStore } from "../src/core/checkpoints.js";
+
+const args = process.argv.slice(2);
+const force = args.includes("--force");
+const branchIdx = args.indexOf("--branch");
+const branch = branchIdx !== -1 ? args[branchIdx + 1] : undefined;
+const runId = args.find((a, i) => !a.startsWith("--") && (branchIdx === -1 || i !== branchIdx + 1));
+
+if (runId === undefined || (branchIdx !== -1 && branch === undefined)) {
+  console.error("Usage: pnpm apply <runId> [--force] [--branch <name>]");
+  process.exit(1);
+}
+
+async function main(runId: string): Promise<void> {
+  const checkpoints = new CheckpointStore(runId);
+  const result = await checkpoints.load("result", FlywheelResultSchema);
+  if (!result) {
+    throw new Error(
+      `[apply] Run ${runId} has no result in ${checkpoints.dir} — finish it with 'pnpm flywheel --resume ${runId}' first.`,
+    );
+  }
+
+  // The executor built from the approved spec, so its affectedPaths are the ones to enforce.
+  const spec = result.approvedSpec ?? result.spec;
+  console.log(`[apply] Applying "${spec.title}" from run ${runId}`);
+  const applied = await applyArtifact(
+    { spec, artifact: result.polished, audit: result.audit },
+    { force, ...(branch !== undefined ? { branch } : {}) },
+  );
+
+  console.log(`\n✅ Branch ${applied.branch} @ ${applied.commit.slice(0, 8)}`);
+  for (const file of applied.files) console.log(`   ${file}`);
+}
+
+main(runId).catch((error: unknown) => {
+  console.error("\n❌ Apply failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
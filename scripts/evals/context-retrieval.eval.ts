@@ -10,11 +10,26 @@
  * Each test case has an expected document ID that must appear in the results
  * for a "hit." Results below MIN_EVAL_SCORE fail the CI gate.
  *
- * Test suite: 12 cases spanning all collections and query types (O5 / F7).
+ * Test suite: 14 cases spanning all collections and query types (O5 / F7),
+ * including bare-identifier queries that embeddings alone tend to miss.
+ *
+ * runRetrievalModeEvals() runs every case once per retrieval mode (vector,
+ * lexical, hybrid) and reports precision@5 and MRR for each.
+ *
+ * runChunkingEvals() re-indexes the seed sources once per chunking variant,
+ * into throwaway "eval-<variant>-<collection>" collections, and runs the same
+ * cases against each so strategies can be compared side by side.
  */
 
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getMemoryStore } from "../../.agentic/memory/store.js";
 import { COLLECTIONS } from "../../.agentic/memory/types.js";
-import { retrieve } from "../../src/core/context/retriever.js";
+import type { Chunking } from "../../src/core/context/indexer.js";
+import { RETRIEVAL_MODES, type RetrievalMode, retrieve } from "../../src/core/context/retriever.js";
+import { loadSeedSources } from "../../src/core/context/seed-config.js";
+import { seedContext } from "../../src/core/context/seeder.js";
 
 // ── Test cases ────────────────────────────────────────────────────────────────
 
@@ -108,6 +123,20 @@ const TEST_CASES: RetrievalTestCase[] = [
     collection: COLLECTIONS.DEFAULT,
     expectedContentSubstring: "security",
   },
+
+  // ─ Exact identifiers (short queries) ──────────────────────────────
+  {
+    name: "Identifier lookup — GoldenExampleSchema",
+    query: "GoldenExampleSchema",
+    collection: COLLECTIONS.SCHEMA,
+    expectedContentSubstring: "export const GoldenExampleSchema",
+  },
+  {
+    name: "Identifier lookup — fetchUserFromDatabase",
+    query: "fetchUserFromDatabase",
+    collection: COLLECTIONS.CODE,
+    expectedContentSubstring: "fetchUserFromDatabase",
+  },
 ];
 
 // ── Runner ────────────────────────────────────────────────────────────────────
@@ -116,21 +145,38 @@ export interface RetrievalEvalResult {
   name: string;
   hit: boolean;
   score: number;
+  /** 1-based position of the first relevant result, if any */
+  rank?: number;
   topResult?: string;
 }
 
-export async function runRetrievalEvals(): Promise<RetrievalEvalResult[]> {
+export interface RetrievalEvalOptions {
+  /** Prepended to each case's collection (see runChunkingEvals()) */
+  collectionPrefix?: string;
+  /** Retrieval mode (default: retrieve()'s, "vector") */
+  mode?: RetrievalMode;
+}
+
+export async function runRetrievalEvals(
+  options: RetrievalEvalOptions = {},
+): Promise<RetrievalEvalResult[]> {
+  const { collectionPrefix = "", mode } = options;
   const results: RetrievalEvalResult[] = [];
 
   for (const tc of TEST_CASES) {
-    const docs = await retrieve(tc.query, { collection: tc.collection, topK: 5 });
-    const hit = docs.some((d) => d.content.includes(tc.expectedContentSubstring));
+    const docs = await retrieve(tc.query, {
+      collection: `${collectionPrefix}${tc.collection}`,
+      topK: 5,
+      ...(mode !== undefined ? { mode } : {}),
+    });
+    const index = docs.findIndex((d) => d.content.includes(tc.expectedContentSubstring));
     const topScore = docs[0]?.score ?? 0;
 
     results.push({
       name: tc.name,
-      hit,
+      hit: index >= 0,
       score: topScore,
+      ...(index >= 0 ? { rank: index + 1 } : {}),
       ...(docs[0] !== undefined ? { topResult: docs[0].content.slice(0, 120) } : {}),
     });
   }
@@ -142,3 +188,95 @@ export function computePrecisionAt5(results: RetrievalEvalResult[]): number {
   if (results.length === 0) return 0;
   return results.filter((r) => r.hit).length / results.length;
 }
+
+/** Mean reciprocal rank of the first relevant result (0 for misses). */
+export function computeMrr(results: RetrievalEvalResult[]): number {
+  if (results.length === 0) return 0;
+  return (
+    results.reduce((sum, r) => sum + (r.rank !== undefined ? 1 / r.rank : 0), 0) / results.length
+  );
+}
+
+// ── Mode comparison ───────────────────────────────────────────────────────────
+
+export interface ModeEvalResult {
+  mode: RetrievalMode;
+  precision: number;
+  mrr: number;
+  results: RetrievalEvalResult[];
+}
+
+/** Run every case once per retrieval mode against the seeded collections. */
+export async function runRetrievalModeEvals(
+  modes: readonly RetrievalMode[] = RETRIEVAL_MODES,
+): Promise<ModeEvalResult[]> {
+  const comparison: ModeEvalResult[] = [];
+  for (const mode of modes) {
+    const results = await runRetrievalEvals({ mode });
+    comparison.push({
+      mode,
+      precision: computePrecisionAt5(results),
+      mrr: computeMrr(results),
+      results,
+    });
+  }
+  return comparison;
+}
+
+// ── Chunking comparison ───────────────────────────────────────────────────────
+
+/** Chunking settings compared by `pnpm evals --compare-chunking` */
+export const CHUNKING_VARIANTS: Record<string, Chunking> = {
+  text: "text",
+  tokens: { strategy: "tokens", maxTokens: 400 },
+  window: { strategy: "window", maxTokens: 400, overlap: 50 },
+  breadcrumbs: { strategy: "tokens", maxTokens: 400, breadcrumbs: true },
+};
+
+export interface ChunkingEvalResult {
+  variant: string;
+  /** Chunks the seed sources were indexed as */
+  chunks: number;
+  precision: number;
+  results: RetrievalEvalResult[];
+}
+
+/**
+ * Index the seed sources with each chunking variant and run the retrieval
+ * cases against them. The eval collections are deleted afterwards.
+ */
+export async function runChunkingEvals(
+  variants: Record<string, Chunking> = CHUNKING_VARIANTS,
+  root = process.cwd(),
+): Promise<ChunkingEvalResult[]> {
+  const store = getMemoryStore();
+  const sources = loadSeedSources(root);
+  const comparison: ChunkingEvalResult[] = [];
+
+  for (const [variant, chunking] of Object.entries(variants)) {
+    const prefix = `eval-${variant}-`;
+    const manifestDir = await mkdtemp(join(tmpdir(), "chunking-eval-"));
+    try {
+      const seeded = await seedContext(
+        sources.map((s) => ({ ...s, collection: `${prefix}${s.collection}`, chunking })),
+        root,
+        { manifestPath: join(manifestDir, "manifest.json"), full: true },
+      );
+      const results = await runRetrievalEvals({ collectionPrefix: prefix });
+      comparison.push({
+        variant,
+        chunks: seeded.totalDocuments,
+        precision: computePrecisionAt5(results),
+        results,
+      });
+    } finally {
+      for (const collection of new Set(sources.map((s) => `${prefix}${s.collection}`))) {
+        // Never created if the source matched no files
+        await store.clear(collection, true).catch(() => undefined);
+      }
+      await rm(manifestDir, { recursive: true, force: true });
+    }
+  }
+
+  return comparison;
+}
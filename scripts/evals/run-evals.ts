@@ -3,12 +3,17 @@
  *
  * CLI entry point for the eval harness.
  * Run: npm run evals
+ *      npm run evals -- --compare-chunking   (also compares chunking strategies)
  *
  * Exits with code 1 if any suite score is below MIN_EVAL_SCORE.
  */
 
 import { runAgentOutputEvals } from "./agent-output.eval.js";
-import { computePrecisionAt5, runRetrievalEvals } from "./context-retrieval.eval.js";
+import {
+  computePrecisionAt5,
+  runChunkingEvals,
+  runRetrievalModeEvals,
+} from "./context-retrieval.eval.js";
 
 const MIN_SCORE = Number(process.env["MIN_EVAL_SCORE"] ?? "0.70");
 
@@ -38,7 +43,9 @@ async function main(): Promise<void> {
   console.log("Suite 1: Context Retrieval (RAG precision)");
   console.log("═".repeat(60));
 
-  const retrievalResults = await runRetrievalEvals();
+  const modeResults = await runRetrievalModeEvals();
+  // The gate scores retrieve()'s default mode; the others are reported below
+  const retrievalResults = modeResults.find((m) => m.mode === "vector")?.results ?? [];
   const retrievalScore = computePrecisionAt5(retrievalResults);
 
   for (const r of retrievalResults) {
@@ -54,6 +61,23 @@ async function main(): Promise<void> {
 
   if (retrievalScore < MIN_SCORE) allPassed = false;
 
+  console.log("\n  By retrieval mode:");
+  for (const m of modeResults) {
+    console.log(
+      `    ${m.mode.padEnd(8)} P@5 ${bar(m.precision)} ${(m.precision * 100).toFixed(0)}%  MRR ${m.mrr.toFixed(2)}`,
+    );
+  }
+
+  // Informational only — never fails the run
+  if (process.argv.includes("--compare-chunking")) {
+    console.log("\n  Chunking strategies (re-indexed into eval-* collections):");
+    for (const c of await runChunkingEvals()) {
+      console.log(
+        `    ${c.variant.padEnd(12)} ${String(c.chunks).padStart(5)} chunks  ${bar(c.precision)} ${(c.precision * 100).toFixed(0)}%`,
+      );
+    }
+  }
+
   // ── Suite 2: Agent Output Quality ─────────────────────────────────────────
   console.log("\n" + "═".repeat(60));
   console.log("Suite 2: Planning Agent Output (LLM-as-judge)");
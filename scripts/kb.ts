@@ -0,0 +1,199 @@
+/**
+ * scripts/kb.ts
+ *
+ * Knowledge base inspector — see what `pnpm seed` and flywheel runs have
+ * written to the memory store, and clean it up.
+ *
+ * Usage:
+ *   pnpm kb collections                                 # every collection with its count
+ *   pnpm kb show <id> [--collection <name>]             # a document and its metadata
+ *   pnpm kb query "<text>" [--collection <name>] [--top-k <n>] [--min-score <x>] [--where <json>]
+ *                [--mode vector|lexical|hybrid]
+ *   pnpm kb delete --collection <name> --id <id> [--id <id> ...] [--yes]
+ *   pnpm kb delete --collection <name> --where <json> [--yes]
+ *   pnpm kb dump <collection> [--where <json>] [--out <file.json>]
+ *
+ * `delete` only lists what it would remove unless --yes is passed. `--where`
+ * takes a Chroma where clause, e.g. '{"category":"PII Leak"}'; pnpm expands
+ * `$` in arguments, so use `npx tsx scripts/kb.ts` for operators like `$gte`.
+ * The store is whichever MEMORY_STORE selects — see .agentic/memory/store.ts.
+ */
+
+import { writeFileSync } from "node:fs";
+import type { QueryResult } from "../.agentic/memory/types.js";
+import {
+  collectionStats,
+  deleteDocuments,
+  dumpCollection,
+  findDocument,
+  knownCollections,
+  selectDocuments,
+} from "../src/core/context/inspector.js";
+import { RETRIEVAL_MODES, retrieve } from "../src/core/context/retriever.js";
+
+const USAGE = `Usage:
+  pnpm kb collections
+  pnpm kb show <id> [--collection <name>]
+  pnpm kb query "<text>" [--collection <name>] [--top-k <n>] [--min-score <x>] [--where <json>]
+               [--mode vector|lexical|hybrid]
+  pnpm kb delete --collection <name> (--id <id> ... | --where <json>) [--yes]
+  pnpm kb dump <collection> [--where <json>] [--out <file.json>]`;
+
+const VALUE_FLAGS = [
+  "--collection",
+  "--id",
+  "--top-k",
+  "--min-score",
+  "--where",
+  "--out",
+  "--mode",
+];
+
+const [command, ...args] = process.argv.slice(2);
+const positional = args.filter(
+  (a, i) => !a.startsWith("--") && !VALUE_FLAGS.includes(args[i - 1] ?? ""),
+);
+
+/** Every value passed for `name`, e.g. all `--id` values. */
+function flags(name: string): string[] {
+  return args.flatMap((a, i) => (args[i - 1] === name ? [a] : []));
+}
+
+function flag(name: string): string | undefined {
+  return flags(name).at(-1);
+}
+
+function numberFlag(name: string): number | undefined {
+  const value = flag(name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (Number.isNaN(n)) throw new Error(`[kb] ${name} expects a number, got "${value}".`);
+  return n;
+}
+
+function whereFlag(): Record<string, unknown> | undefined {
+  const value = flag("--where");
+  if (value === undefined) return undefined;
+  let where: unknown;
+  try {
+    where = JSON.parse(value);
+  } catch {
+    throw new Error(`[kb] --where expects a JSON object, got ${value}`);
+  }
+  if (typeof where !== "object" || where === null || Array.isArray(where)) {
+    throw new Error(`[kb] --where expects a JSON object, got ${value}`);
+  }
+  return where as Record<string, unknown>;
+}
+
+function usage(): never {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+// ── Subcommands ───────────────────────────────────────────────────────────────
+
+async function collections(): Promise<void> {
+  const stats = await collectionStats();
+  for (const { collection, count } of stats) {
+    console.log(`${collection.padEnd(20)} ${count}`);
+  }
+  console.log(`${"total".padEnd(20)} ${stats.reduce((sum, s) => sum + s.count, 0)}`);
+}
+
+async function show(id: string): Promise<void> {
+  const collection = flag("--collection");
+  const collections = collection !== undefined ? [collection] : await knownCollections();
+  const found = await findDocument(id, collections);
+  if (found.length === 0) {
+    throw new Error(`[kb] No document "${id}" in ${collections.join(", ")}.`);
+  }
+  for (const { collection, document } of found) {
+    console.log(`── ${collection} / ${document.id}`);
+    console.log(JSON.stringify(document.metadata, null, 2));
+    console.log(`\n${document.content}\n`);
+  }
+}
+
+async function query(text: string): Promise<void> {
+  const topK = numberFlag("--top-k");
+  const minScore = numberFlag("--min-score");
+  const where = whereFlag();
+  const collection = flag("--collection");
+  const modeFlag = flag("--mode");
+  const mode = RETRIEVAL_MODES.find((m) => m === modeFlag);
+  if (modeFlag !== undefined && mode === undefined) {
+    throw new Error(`[kb] --mode expects one of ${RETRIEVAL_MODES.join(", ")}, got "${modeFlag}".`);
+  }
+  const results = await retrieve(text, {
+    minScore: minScore ?? 0,
+    ...(mode !== undefined ? { mode } : {}),
+    ...(collection !== undefined ? { collection } : {}),
+    ...(topK !== undefined ? { topK } : {}),
+    ...(where !== undefined ? { where } : {}),
+  });
+  if (results.length === 0) console.log("No results.");
+  for (const result of results) printResult(result);
+}
+
+async function remove(): Promise<void> {
+  const collection = flag("--collection");
+  const ids = flags("--id");
+  const where = whereFlag();
+  if (collection === undefined || (ids.length === 0) === (where === undefined)) usage();
+  const selector = where !== undefined ? { where } : { ids };
+
+  if (!args.includes("--yes")) {
+    const selected = await selectDocuments(collection, selector);
+    console.log(`Would delete ${selected.length} document(s) from ${collection}:`);
+    for (const id of selected) console.log(`  ${id}`);
+    console.log("\nRe-run with --yes to delete them.");
+    return;
+  }
+  const deleted = await deleteDocuments(collection, selector);
+  console.log(`✅ Deleted ${deleted.length} document(s) from ${collection}`);
+}
+
+async function dump(collection: string): Promise<void> {
+  const documents = await dumpCollection(collection, whereFlag());
+  const json = JSON.stringify(documents, null, 2);
+  const out = flag("--out");
+  if (out === undefined) {
+    console.log(json);
+  } else {
+    writeFileSync(out, `${json}\n`);
+    console.error(`✅ Wrote ${documents.length} document(s) from ${collection} to ${out}`);
+  }
+}
+
+function printResult({ id, score, content, metadata }: QueryResult): void {
+  const snippet = content.replace(/\s+/g, " ").slice(0, 160);
+  console.log(`${score.toFixed(3)}  ${id}`);
+  console.log(`       ${JSON.stringify(metadata)}`);
+  console.log(`       ${snippet}${content.length > 160 ? "…" : ""}\n`);
+}
+
+// ── Main ──────────────────────────────────────────────────────────────────────
+
+async function main(): Promise<void> {
+  const [first] = positional;
+  switch (command) {
+    case "collections":
+      return collections();
+    case "show":
+      return first !== undefined ? show(first) : usage();
+    case "query":
+      return first !== undefined ? query(first) : usage();
+    case "delete":
+      return remove();
+    case "dump":
+      return first !== undefined ? dump(first) : usage();
+    default:
+      usage();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(`\n❌ kb ${command ?? ""} failed:`, error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+/**
+ * scripts/memory-transfer.ts
+ *
+ * Export the file-backed knowledge base to a portable JSONL bundle, or import
+ * a bundle into the configured memory store (re-embedding every document).
+ *
+ * Usage:
+ *   pnpm memory:export <bundle.jsonl> [--collection <name> ...]
+ *   pnpm memory:import <bundle.jsonl> [--collection <name> ...]
+ *
+ * Export reads the file store at MEMORY_PATH (default ./__memory__). Import
+ * writes to whichever store MEMORY_STORE selects — see .agentic/memory/store.ts.
+ */
+
+import { FileMemoryStore } from "../.agentic/memory/file-store.js";
+import { getMemoryStore } from "../.agentic/memory/store.js";
+import { exportMemory, importMemory } from "../.agentic/memory/transfer.js";
+
+const [command, ...args] = process.argv.slice(2);
+const collections = args.flatMap((a, i) => (args[i - 1] === "--collection" ? [a] : []));
+const bundle = args.find((a, i) => !a.startsWith("--") && args[i - 1] !== "--collection");
+
+if ((command !== "export" && command !== "import") || bundle === undefined) {
+  console.error("Usage: pnpm memory:<export|import> <bundle.jsonl> [--collection <name> ...]");
+  process.exit(1);
+}
+
+async function main(command: "export" | "import", bundle: string): Promise<void> {
+  const only = collections.length > 0 ? collections : undefined;
+  const counts =
+    command === "export"
+      ? await exportMemory(new FileMemoryStore(), bundle, only)
+      : await importMemory(getMemoryStore(), bundle, only);
+
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  console.log(`\n✅ ${command === "export" ? "Exported" : "Imported"} ${total} document(s)`);
+  for (const [collection, count] of Object.entries(counts)) {
+    console.log(`   ${collection.padEnd(16)} ${count}`);
+  }
+}
+
+main(command, bundle).catch((error: unknown) => {
+  console.error(`\n❌ ${command} failed:`, error instanceof Error ? error.message : error);
+  process.exit(1);
+});
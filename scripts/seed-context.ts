@@ -2,23 +2,50 @@
  * scripts/seed-context.ts
  *
  * Convenience entry point for seeding the knowledge base.
- * Run: npm run seed
+ * Run: npm run seed            # only files changed since the last seed
+ *      npm run seed -- --full  # re-index everything
+ *      npm run seed:watch      # seed, then re-index docs as they change
  */
 
-import { seedContext } from "../src/core/context/seeder.js";
+import { seedContext, watchContext } from "../src/core/context/seeder.js";
 
-console.log("🌱 Seeding knowledge base...\n");
+const args = process.argv.slice(2);
+const full = args.includes("--full");
+const watchMode = args.includes("--watch");
 
-seedContext()
+console.log(`🌱 Seeding knowledge base${full ? " (full)" : ""}...\n`);
+
+seedContext(undefined, undefined, { full })
   .then((result) => {
     console.log(`\n✅ Seed complete in ${result.durationMs}ms`);
     console.log(`   Files processed : ${result.totalFiles}`);
+    console.log(
+      `   Files           : ${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.unchanged} unchanged`,
+    );
     console.log(`   Chunks indexed  : ${result.totalDocuments}`);
+    console.log(`   Stale chunks    : ${result.purgedChunks} deleted`);
     console.log("\n   By collection:");
     for (const [collection, count] of Object.entries(result.byCollection)) {
       console.log(`     ${collection.padEnd(20)} ${count} chunks`);
     }
-    console.log("\n💡 Run 'npm run evals' to verify retrieval quality.");
+    if (!watchMode) {
+      console.log("\n💡 Run 'npm run evals' to verify retrieval quality.");
+      return;
+    }
+    const watcher = watchContext(undefined, undefined, {
+      onSeed: (update) => {
+        if (update.added + update.updated + update.removed > 0) {
+          console.log(
+            `[seed] ${update.added} added, ${update.updated} updated, ${update.removed} removed in ${update.durationMs}ms`,
+          );
+        }
+      },
+    });
+    console.log("\n👀 Watching seed sources for changes — Ctrl-C to stop.");
+    process.once("SIGINT", () => {
+      watcher.close();
+      process.exit(0);
+    });
   })
   .catch((error: unknown) => {
     console.error("\n❌ Seed failed:", error);
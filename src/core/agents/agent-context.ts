@@ -0,0 +1,125 @@
+/**
+ * src/core/agents/agent-context.ts
+ *
+ * Per-run context the flywheel threads into every agent.
+ *
+ * Agents use it to report progress, retrievals, tool calls and guardrail
+ * retries as structured `FlywheelEvent`s, the token usage of every LLM call
+ * for cost accounting, and which model served each call. Every helper is a
+ * no-op when no context is passed, so agents stay callable on their own
+ * (e.g. from a REPL or an eval).
+ */
+
+import type { LanguageModelV1 } from "ai";
+import type { FlywheelEvent, ModelServing } from "../../../docs/schema/entities.js";
+import type { AgentUsage } from "../guardrails/budget.js";
+import type { CorrectionUsage, RetryNotice } from "../guardrails/schema-validator.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface AgentContext {
+  /** The flywheel run this agent call belongs to */
+  runId: string;
+  /** Publish a structured event to the run's subscribers */
+  emit(event: FlywheelEvent): void;
+  /**
+   * Record the token usage of an LLM call against the run's budget.
+   * Throws when the budget is exceeded, aborting the agent.
+   */
+  recordUsage?(usage: AgentUsage): void;
+  /** Record which model served an agent call; the flywheel adds the stage. */
+  recordModel?(serving: Omit<ModelServing, "stage">): void;
+}
+
+// ── Event helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * Time a retrieval call and report it as a `retrieval` event.
+ *
+ * @returns Whatever `fn` resolves to, unchanged.
+ */
+export async function traceRetrieval<T extends readonly unknown[]>(
+  ctx: AgentContext | undefined,
+  agent: string,
+  query: string,
+  collections: string[],
+  fn: () => Promise<T>,
+): Promise<T> {
+  const start = Date.now();
+  const results = await fn();
+  ctx?.emit({
+    type: "retrieval",
+    runId: ctx.runId,
+    agent,
+    query: query.slice(0, 200),
+    collections,
+    resultCount: results.length,
+    durationMs: Date.now() - start,
+  });
+  return results;
+}
+
+/**
+ * Report a human-readable progress line as an `agent:log` event.
+ * Agents never print; the CLI renders these through renderEventToConsole.
+ */
+export function traceLog(
+  ctx: AgentContext | undefined,
+  agent: string,
+  message: string,
+  level: "info" | "warn" = "info",
+): void {
+  ctx?.emit({ type: "agent:log", runId: ctx.runId, agent, level, message });
+}
+
+/** `onStepFinish` handler for generateText that reports each tool call as a `tool:call` event. */
+export function traceToolCalls(
+  ctx: AgentContext | undefined,
+  agent: string,
+): (step: { toolCalls: ReadonlyArray<{ toolName: string; args: unknown }> }) => void {
+  return (step) => {
+    if (!ctx) return;
+    for (const call of step.toolCalls) {
+      ctx.emit({
+        type: "tool:call",
+        runId: ctx.runId,
+        agent,
+        toolName: call.toolName,
+        args: call.args,
+      });
+    }
+  };
+}
+
+/** `onRetry` handler for the self-correcting guardrails that emits `guardrail:retry` events. */
+export function traceRetries(ctx: AgentContext | undefined): (retry: RetryNotice) => void {
+  return (retry) => {
+    ctx?.emit({ type: "guardrail:retry", runId: ctx.runId, ...retry });
+  };
+}
+
+/** Report the token usage of an agent's own generateText call. */
+export function traceUsage(
+  ctx: AgentContext | undefined,
+  agent: string,
+  model: LanguageModelV1,
+  usage: { promptTokens: number; completionTokens: number },
+): void {
+  ctx?.recordUsage?.({
+    agent,
+    model: model.modelId,
+    kind: "generation",
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+  });
+}
+
+/** `onUsage` handler for the self-correcting guardrails that records correction calls. */
+export function traceCorrectionUsage(
+  ctx: AgentContext | undefined,
+  agent: string,
+): (usage: CorrectionUsage) => void {
+  return (usage) => {
+    ctx?.recordUsage?.({ agent, kind: "correction", ...usage });
+  };
+}
@@ -15,7 +15,18 @@ import { securityLead } from "../../../.agentic/roles/security-lead.js";
 import { auditorTools } from "../../../.agentic/tools/index.js";
 import type { AuditReport, CodeArtifact } from "../../../docs/schema/entities.js";
 import { formatAsContext, retrieve } from "../context/retriever.js";
+import { formatArtifactForReview } from "../guardrails/patch-validator.js";
 import { parseAuditReportWithRetry } from "../guardrails/schema-validator.js";
+import {
+  type AgentContext,
+  traceCorrectionUsage,
+  traceLog,
+  traceRetries,
+  traceRetrieval,
+  traceToolCalls,
+  traceUsage,
+} from "./agent-context.js";
+import { modelsOf, withModelFallback } from "./model-fallback.js";
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
@@ -27,22 +38,34 @@ import { parseAuditReportWithRetry } from "../guardrails/schema-validator.js";
  * findings back to ChromaDB — closing the Knowledge Flywheel loop.
  *
  * @param artifact - The CodeArtifact from the Executor Agent.
+ * @param ctx - Optional run context; retrievals, tool calls and retries are reported as events.
  * @returns A Zod-validated AuditReport. `passed` is true iff no critical/high findings.
  */
-export async function auditArtifact(artifact: CodeArtifact): Promise<AuditReport> {
-  console.log(`\n[auditor] ▶ Auditing artifact: ${artifact.id}`);
+export async function auditArtifact(
+  artifact: CodeArtifact,
+  ctx?: AgentContext,
+): Promise<AuditReport> {
+  traceLog(ctx, "auditor", `▶ Auditing artifact: ${artifact.id}`);
 
   // ── Stage 4a: Retrieve past findings ──────────────────────────────────────
-  const fileContents = Object.entries(artifact.files)
-    .map(([path, content]) => `// ${path}\n${content}`)
-    .join("\n\n---\n\n");
+  // Patched paths contribute only their diff hunks, which keeps large edited
+  // files well inside MAX_FILE_CHARS.
+  const fileContents = formatArtifactForReview(artifact);
 
   // Primary pass: semantic similarity against code text
-  const primaryFindings = await retrieve(fileContents.slice(0, 500), {
-    collection: COLLECTIONS.VULNERABILITIES,
-    topK: 5,
-    minScore: 0.25,
-  });
+  const primaryQuery = fileContents.slice(0, 500);
+  const primaryFindings = await traceRetrieval(
+    ctx,
+    "auditor",
+    primaryQuery,
+    [COLLECTIONS.VULNERABILITIES],
+    () =>
+      retrieve(primaryQuery, {
+        collection: COLLECTIONS.VULNERABILITIES,
+        topK: 5,
+        minScore: 0.25,
+      }),
+  );
 
   // Secondary pass (F2): retrieve by vulnerability category so findings from
   // different code but the same category surface even when embedding similarity
@@ -59,7 +82,9 @@ export async function auditArtifact(artifact: CodeArtifact): Promise<AuditReport
     categories.length > 0
       ? await Promise.all(
           categories.map((cat) =>
-            retrieve(cat, { collection: COLLECTIONS.VULNERABILITIES, topK: 3, minScore: 0.2 }),
+            traceRetrieval(ctx, "auditor", cat, [COLLECTIONS.VULNERABILITIES], () =>
+              retrieve(cat, { collection: COLLECTIONS.VULNERABILITIES, topK: 3, minScore: 0.2 }),
+            ),
           ),
         ).then((batches) => batches.flat())
       : [];
@@ -77,7 +102,11 @@ export async function auditArtifact(artifact: CodeArtifact): Promise<AuditReport
 
   const context = formatAsContext(pastFindings, "Past Vulnerability Findings");
 
-  console.log(`[auditor] Retrieved ${pastFindings.length} past findings (${primaryFindings.length} primary, ${secondaryFindings.length} secondary)`);
+  traceLog(
+    ctx,
+    "auditor",
+    `Retrieved ${pastFindings.length} past findings (${primaryFindings.length} primary, ${secondaryFindings.length} secondary)`,
+  );
 
   // ── Stage 4b: Run security audit ──────────────────────────────────────────
   // Truncate file contents to stay within a reasonable token budget (O2)
@@ -88,29 +117,40 @@ export async function auditArtifact(artifact: CodeArtifact): Promise<AuditReport
       : fileContents;
 
   const systemPrompt = `${securityLead.systemPrompt}\n\n${context}`;
-  const userPrompt = `Audit the following code artifact for security vulnerabilities.\nFor every critical or high severity finding, call the writeVulnerability tool to persist it.\n\nArtifact ID: ${artifact.id}\nFiles:\n${fileContentsForPrompt}\n\nOutput an AuditReport JSON matching the schema in docs/schema/entities.ts.`;
-
-  const { text } = await generateText({
-    model: securityLead.model,
-    maxRetries: 3,
-    ...(securityLead.maxSteps !== undefined ? { maxSteps: securityLead.maxSteps } : {}),
-    tools: auditorTools,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  const userPrompt = `Audit the following code artifact for security vulnerabilities.\nFor every critical or high severity finding, call the writeVulnerability tool to persist it.\n\nArtifact ID: ${artifact.id}\nFiles (unified diffs cover only the changed hunks — audit the added lines and their context):\n${fileContentsForPrompt}\n\nOutput an AuditReport JSON matching the schema in docs/schema/entities.ts.`;
+
+  const {
+    result: { text, usage },
+    model,
+  } = await withModelFallback(ctx, "auditor", modelsOf(securityLead), (model) =>
+    generateText({
+      model,
+      maxRetries: 3,
+      ...(securityLead.maxSteps !== undefined ? { maxSteps: securityLead.maxSteps } : {}),
+      tools: auditorTools,
+      system: systemPrompt,
+      prompt: userPrompt,
+      onStepFinish: traceToolCalls(ctx, "auditor"),
+    }),
+  );
+  traceUsage(ctx, "auditor", model, usage);
 
   // ── Stage 4c: Validate at boundary (with self-correction) ─────────────────
   const report = await parseAuditReportWithRetry(text, {
-    model: securityLead.model,
+    model,
     systemPrompt,
     originalPrompt: userPrompt,
+    onRetry: traceRetries(ctx),
+    onUsage: traceCorrectionUsage(ctx, "auditor"),
   });
   const highCount = report.findings.filter(
     (f) => f.severity === "critical" || f.severity === "high",
   ).length;
 
-  console.log(
-    `[auditor] ✓ Report: ${report.passed ? "PASSED" : "FAILED"} (${report.findings.length} findings, ${highCount} critical/high)`,
+  traceLog(
+    ctx,
+    "auditor",
+    `✓ Report: ${report.passed ? "PASSED" : "FAILED"} (${report.findings.length} findings, ${highCount} critical/high)`,
   );
 
   return report;
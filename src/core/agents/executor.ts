@@ -6,20 +6,50 @@
  *
  * Implements a TechSpec into a CodeArtifact using a multi-step agentic loop.
  * The agent can read files, search for examples, and self-verify with runTypeCheck/runLint.
+ * It works in a ScratchWorkspace: generated files are written into a throwaway
+ * copy of the repository so the checks run against them, never the real tree.
+ *
+ * When given a RepairRequest, the executor revises a previous artifact instead
+ * of starting from scratch (used by the flywheel's audit repair loop).
  */
 
-import { generateText } from "ai";
+import { type LanguageModelV1, generateText } from "ai";
 import { COLLECTIONS } from "../../../.agentic/memory/types.js";
 import { agenticEngineer } from "../../../.agentic/roles/agentic-engineer.js";
-import { executorTools } from "../../../.agentic/tools/index.js";
+import { createExecutorTools } from "../../../.agentic/tools/index.js";
 import type { CodeArtifact, TechSpec } from "../../../docs/schema/entities.js";
 import { formatAsContext, retrieveMulti } from "../context/retriever.js";
+import { formatArtifactForReview, readFromTree } from "../guardrails/patch-validator.js";
 import { parseCodeArtifactWithRetry } from "../guardrails/schema-validator.js";
 import { getStartupSeconds } from "../tools/observability-tools.js";
+import { ScratchWorkspace } from "../tools/workspace.js";
+import {
+  type AgentContext,
+  traceCorrectionUsage,
+  traceLog,
+  traceRetries,
+  traceRetrieval,
+  traceToolCalls,
+  traceUsage,
+} from "./agent-context.js";
+import { modelsOf, withModelFallback } from "./model-fallback.js";
 
 /** Service startup SLA in seconds (800ms). Change is caught by the observability check. */
 const STARTUP_SLA_SECONDS = 0.8;
 
+/** Max characters of the previous artifact's files included in a repair prompt (O2). */
+const MAX_REPAIR_FILE_CHARS = 6_000;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** A previous artifact plus the issues the executor must fix in it. */
+export interface RepairRequest {
+  /** The artifact that was rejected */
+  artifact: CodeArtifact;
+  /** One instruction per issue, e.g. "[HIGH] SQL Injection in src/db.ts — …" */
+  instructions: string[];
+}
+
 // ── Public API ────────────────────────────────────────────────────────────────
 
 /**
@@ -28,21 +58,36 @@ const STARTUP_SLA_SECONDS = 0.8;
  * Uses a multi-step agentic loop so the agent can:
  *   1. Search for relevant golden examples.
  *   2. Read existing files for context.
- *   3. Generate code files.
- *   4. Self-verify with runTypeCheck and runLint.
+ *   3. Generate code files and write them into a scratch workspace.
+ *   4. Self-verify with runTypeCheck and runLint inside that workspace.
  *   5. Iterate to fix errors.
  *
  * @param spec - The validated TechSpec from the Planning Agent.
+ * @param ctx - Optional run context; retrievals, tool calls and retries are reported as events.
+ * @param repair - Optional previous artifact and the issues to fix in it.
  * @returns A Zod-validated CodeArtifact ready for the Security Audit.
  */
-export async function executeSpec(spec: TechSpec): Promise<CodeArtifact> {
-  console.log(`\n[executor] ▶ Executing: "${spec.title}"`);
+export async function executeSpec(
+  spec: TechSpec,
+  ctx?: AgentContext,
+  repair?: RepairRequest,
+): Promise<CodeArtifact> {
+  traceLog(
+    ctx,
+    "executor",
+    repair
+      ? `▶ Repairing: "${spec.title}" (${repair.instructions.length} issue(s))`
+      : `▶ Executing: "${spec.title}"`,
+  );
 
   // ── Stage 3a: Retrieve golden examples and schema ──────────────────────────
-  const contextDocs = await retrieveMulti(spec.title, [COLLECTIONS.CODE, COLLECTIONS.SCHEMA], 4);
+  const collections = [COLLECTIONS.CODE, COLLECTIONS.SCHEMA];
+  const contextDocs = await traceRetrieval(ctx, "executor", spec.title, collections, () =>
+    retrieveMulti(spec.title, collections, 4),
+  );
   const contextBlock = formatAsContext(contextDocs, "Golden Examples & Schema Context");
 
-  console.log(`[executor] Retrieved ${contextDocs.length} context chunks`);
+  traceLog(ctx, "executor", `Retrieved ${contextDocs.length} context chunks`);
 
   // ── Stage 3b: Multi-step agentic execution ─────────────────────────────────
   // Build a token-budget-aware spec payload: include only essential fields (O2).
@@ -60,37 +105,72 @@ export async function executeSpec(spec: TechSpec): Promise<CodeArtifact> {
   );
 
   const systemPrompt = `${agenticEngineer.systemPrompt}\n\n${contextBlock}`;
-  const userPrompt = `Implement the following TechSpec. After generating all files, \nrun runTypeCheck and runLint to verify. Fix any errors before producing the final output.\n\nTechSpec:\n${specPayload}\n\nOutput a CodeArtifact JSON object with:\n- id: a unique nanoid\n- specId: "${spec.id}"\n- files: { "relative/path.ts": "full file contents", ... }\n- summary: what was built\n- verificationSteps: ["npm run typecheck", ...]\n- createdAt: current ISO-8601 timestamp`;
+  const repairBlock = repair ? formatRepairBlock(repair) : "";
+  const userPrompt = `${repairBlock}Implement the following TechSpec. Write every file you generate with writeFile, \nthen run runTypeCheck and runLint to verify. Fix any errors before producing the final output.\n\nTechSpec:\n${specPayload}\n\nOutput a CodeArtifact JSON object with:\n- id: a unique nanoid\n- specId: "${spec.id}"\n- files: { "relative/path.ts": "full file contents", ... }\n- patches (optional): { "existing/path.ts": "unified diff against the current file", ... } — prefer this over files for small edits to large existing files; never list a path in both\n- summary: what was built\n- verificationSteps: ["npm run typecheck", ...]\n- createdAt: current ISO-8601 timestamp`;
 
-  const { text } = await generateText({
-    model: agenticEngineer.model,
-    maxRetries: 3,
-    ...(agenticEngineer.maxSteps !== undefined ? { maxSteps: agenticEngineer.maxSteps } : {}),
-    tools: executorTools,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  // The code tools run in a throwaway copy of the repo; a repair starts from the rejected artifact.
+  const workspace = await ScratchWorkspace.create();
+  let text: string;
+  let model: LanguageModelV1;
+  try {
+    if (repair) await workspace.materialize(repair.artifact);
+    traceLog(ctx, "executor", `Scratch workspace: ${workspace.root}`);
+
+    const generation = await withModelFallback(
+      ctx,
+      "executor",
+      modelsOf(agenticEngineer),
+      (model) =>
+        generateText({
+          model,
+          maxRetries: 3,
+          ...(agenticEngineer.maxSteps !== undefined ? { maxSteps: agenticEngineer.maxSteps } : {}),
+          tools: createExecutorTools(workspace),
+          system: systemPrompt,
+          prompt: userPrompt,
+          onStepFinish: traceToolCalls(ctx, "executor"),
+        }),
+    );
+    text = generation.result.text;
+    model = generation.model;
+    traceUsage(ctx, "executor", model, generation.result.usage);
+  } finally {
+    await workspace.dispose();
+  }
 
   // ── Stage 3c: Validate at boundary (with self-correction) ─────────────────
-  const artifact = await parseCodeArtifactWithRetry(text, {
-    model: agenticEngineer.model,
-    systemPrompt,
-    originalPrompt: userPrompt,
-  });
+  const artifact = await parseCodeArtifactWithRetry(
+    text,
+    {
+      model,
+      systemPrompt,
+      originalPrompt: userPrompt,
+      onRetry: traceRetries(ctx),
+      onUsage: traceCorrectionUsage(ctx, "executor"),
+    },
+    readFromTree(),
+  );
   const fileCount = Object.keys(artifact.files).length;
-  console.log(`[executor] ✓ Artifact: ${fileCount} file(s) generated`);
+  const patchCount = Object.keys(artifact.patches ?? {}).length;
+  traceLog(
+    ctx,
+    "executor",
+    `✓ Artifact: ${fileCount} file(s) generated${patchCount > 0 ? `, ${patchCount} patch(es)` : ""}`,
+  );
 
   // ── Stage 3d: Post-ship observability check ─────────────────────────────────
   const latestStartup = getStartupSeconds();
   const startupMs = Math.round(latestStartup * 1000);
 
-  console.log(
-    `[executor] ▶ observability-check startup=${startupMs}ms (SLA: ${STARTUP_SLA_SECONDS * 1000}ms)`,
+  traceLog(
+    ctx,
+    "executor",
+    `▶ observability-check startup=${startupMs}ms (SLA: ${STARTUP_SLA_SECONDS * 1000}ms)`,
   );
 
   if (latestStartup > STARTUP_SLA_SECONDS) {
     const warning = `[observability] startup=${startupMs}ms exceeds SLA of ${STARTUP_SLA_SECONDS * 1000}ms. Investigate cold-start path and defer non-critical initialisation.`;
-    console.warn(`[executor] ⚠️  ${warning}`);
+    traceLog(ctx, "executor", warning, "warn");
     // Surface the warning in the artifact summary so auditors and the logic critic can see it.
     return {
       ...artifact,
@@ -100,3 +180,17 @@ export async function executeSpec(spec: TechSpec): Promise<CodeArtifact> {
 
   return artifact;
 }
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Prompt preamble asking the agent to revise `repair.artifact` rather than start over. */
+function formatRepairBlock(repair: RepairRequest): string {
+  const previousFiles = formatArtifactForReview(repair.artifact);
+  const filesForPrompt =
+    previousFiles.length > MAX_REPAIR_FILE_CHARS
+      ? `${previousFiles.slice(0, MAX_REPAIR_FILE_CHARS)}\n\n[... truncated for token budget ...]`
+      : previousFiles;
+  const issues = repair.instructions.map((i) => `- ${i}`).join("\n");
+
+  return `A previous implementation of this TechSpec was rejected. Revise it so that every issue below is resolved, keep all other behaviour intact, and output the complete corrected artifact (every file and patch, not only the changed ones).\n\nIssues to fix:\n${issues}\n\nPrevious files:\n${filesForPrompt}\n\n`;
+}
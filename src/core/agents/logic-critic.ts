@@ -13,11 +13,20 @@
 
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
-import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
 import { z } from "zod";
+import { fallbacksFor, modelFor } from "../../../.agentic/roles/model-registry.js";
 import type { CodeArtifact, TechSpec } from "../../../docs/schema/entities.js";
+import { formatArtifactForReview } from "../guardrails/patch-validator.js";
 import { parseAgentOutputWithRetry } from "../guardrails/schema-validator.js";
+import {
+  type AgentContext,
+  traceCorrectionUsage,
+  traceLog,
+  traceRetries,
+  traceUsage,
+} from "./agent-context.js";
+import { type ModelChain, modelsOf, withModelFallback } from "./model-fallback.js";
 
 // ── Schema ────────────────────────────────────────────────────────────────────
 
@@ -41,9 +50,11 @@ const systemPrompt = readFileSync(
   "utf-8",
 );
 
-/** Shared model: re-uses the product-architect's gpt-4o for logic evaluation. */
-// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
-const logicCriticModel = openai(process.env["DEFAULT_MODEL"] ?? "gpt-4o");
+/** Resolved by the model registry; override with MODEL_LOGIC_CRITIC or the models file. */
+const logicCriticModels: ModelChain = {
+  model: modelFor("logic-critic"),
+  fallbackModels: fallbacksFor("logic-critic"),
+};
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
@@ -59,19 +70,26 @@ const logicCriticModel = openai(process.env["DEFAULT_MODEL"] ?? "gpt-4o");
  *
  * @param spec     - The validated TechSpec that defines acceptance criteria.
  * @param artifact - The CodeArtifact to evaluate against the spec.
+ * @param ctx      - Optional run context; guardrail retries are reported as events.
  * @returns A `LogicReview` with `passed` boolean and `issues` list.
  */
-export async function runLogicReview(spec: TechSpec, artifact: CodeArtifact): Promise<LogicReview> {
-  console.log(
-    `\n[logic-critic] ▶ Reviewing "${spec.title}" (${spec.acceptanceCriteria.length} criteria)`,
+export async function runLogicReview(
+  spec: TechSpec,
+  artifact: CodeArtifact,
+  ctx?: AgentContext,
+): Promise<LogicReview> {
+  traceLog(
+    ctx,
+    "logic-critic",
+    `▶ Reviewing "${spec.title}" (${spec.acceptanceCriteria.length} criteria)`,
   );
 
   const specJson = JSON.stringify(spec, null, 2);
-  const fileNames = Object.keys(artifact.files).join(", ");
+  const fileNames = [...Object.keys(artifact.files), ...Object.keys(artifact.patches ?? {})].join(
+    ", ",
+  );
   const verificationList = artifact.verificationSteps.map((s, i) => `  ${i + 1}. ${s}`).join("\n");
-  const fileContents = Object.entries(artifact.files)
-    .map(([p, c]) => `### ${p}\n${c.slice(0, 300)}…`)
-    .join("\n\n");
+  const fileContents = formatArtifactForReview(artifact, { maxFileChars: 300 });
 
   const userPrompt = `Review the following CodeArtifact against its TechSpec and return a LogicReview JSON.
 
@@ -88,33 +106,42 @@ Files: ${fileNames}
 Verification Steps:
 ${verificationList}
 
-File Contents (truncated to first 300 chars each):
+File Contents (whole files truncated to first 300 chars each; patched files shown as diff hunks):
 ${fileContents}
 
 Output a JSON object: { "passed": true|false, "issues": ["…"] }. No markdown fences. No prose.`;
 
-  const { text } = await generateText({
-    model: logicCriticModel,
-    maxRetries: 3,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  const {
+    result: { text, usage },
+    model,
+  } = await withModelFallback(ctx, "logic-critic", modelsOf(logicCriticModels), (model) =>
+    generateText({
+      model,
+      maxRetries: 3,
+      system: systemPrompt,
+      prompt: userPrompt,
+    }),
+  );
+  traceUsage(ctx, "logic-critic", model, usage);
 
   const review = await parseAgentOutputWithRetry(LogicReviewSchema, text, "LogicReview", {
-    model: logicCriticModel,
+    model,
     systemPrompt,
     originalPrompt: userPrompt,
     maxRetries: 1,
+    onRetry: traceRetries(ctx),
+    onUsage: traceCorrectionUsage(ctx, "logic-critic"),
   });
 
-  if (review.passed) {
-    console.log("[logic-critic] ✓ Perfect Pass — all acceptance criteria covered");
-  } else {
-    console.log(`[logic-critic] ✗ Failed — ${review.issues.length} issue(s):`);
-    for (const issue of review.issues) {
-      console.log(`  • ${issue}`);
-    }
-  }
+  traceLog(
+    ctx,
+    "logic-critic",
+    review.passed
+      ? "✓ Perfect Pass — all acceptance criteria covered"
+      : [`✗ Failed — ${review.issues.length} issue(s):`, ...review.issues.map((i) => `  • ${i}`)].join(
+          "\n",
+        ),
+  );
 
   return review;
 }
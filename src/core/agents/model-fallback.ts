@@ -0,0 +1,114 @@
+/**
+ * src/core/agents/model-fallback.ts
+ *
+ * Ordered model fallback for agent LLM calls.
+ *
+ * `generateText`'s own `maxRetries` only retries the same model, so a provider
+ * outage used to stop the whole flywheel. `withModelFallback()` runs an agent
+ * call against a role's primary model and, when it fails with a provider error
+ * (5xx, connection failure), a timeout or a rate limit (429), repeats the call
+ * on the role's next fallback model. Any other error — a bad request, a tool
+ * failure, an exceeded budget — is thrown straight away, since another model
+ * would not fix it.
+ *
+ * The model that finally served is reported through `AgentContext.recordModel`
+ * (surfacing as `FlywheelResult.models`), and each switch as a
+ * `model:fallback` event.
+ */
+
+import { APICallError, type LanguageModelV1, RetryError } from "ai";
+import type { ModelFailure } from "../../../docs/schema/entities.js";
+import type { AgentContext } from "./agent-context.js";
+
+/** Anything with a primary model and optional fallbacks — a RoleConfig, typically. */
+export interface ModelChain {
+  model: LanguageModelV1;
+  fallbackModels?: readonly LanguageModelV1[];
+}
+
+/** `[model, ...fallbackModels]` — the order withModelFallback() tries them in. */
+export function modelsOf(chain: ModelChain): LanguageModelV1[] {
+  return [chain.model, ...(chain.fallbackModels ?? [])];
+}
+
+/**
+ * Run `call` with each model in turn until one succeeds.
+ *
+ * @returns The call's result and the model that produced it — use that model
+ *   for follow-up calls (e.g. guardrail self-correction) and usage pricing.
+ * @throws The original error when it does not warrant a fallback, or when
+ *   there is only one model; once every model has failed over, an Error
+ *   listing them all.
+ */
+export async function withModelFallback<T>(
+  ctx: AgentContext | undefined,
+  agent: string,
+  models: readonly LanguageModelV1[],
+  call: (model: LanguageModelV1) => Promise<T>,
+): Promise<{ result: T; model: LanguageModelV1 }> {
+  if (models.length === 0) throw new Error(`[${agent}] No model configured.`);
+
+  const failedOver: ModelFailure[] = [];
+  for (const [i, model] of models.entries()) {
+    try {
+      const result = await call(model);
+      ctx?.recordModel?.({
+        agent,
+        provider: model.provider,
+        model: model.modelId,
+        failedOver,
+      });
+      return { result, model };
+    } catch (err) {
+      const next = models[i + 1];
+      if (!isFallbackError(err) || (next === undefined && failedOver.length === 0)) throw err;
+      if (next === undefined) {
+        throw new Error(
+          `[${agent}] Every model failed: ${[...failedOver.map(describeFailure), `${label(model)} (${errorMessage(err)})`].join("; ")}`,
+          { cause: err },
+        );
+      }
+
+      const failure = { provider: model.provider, model: model.modelId, error: errorMessage(err) };
+      failedOver.push(failure);
+      ctx?.emit({
+        type: "model:fallback",
+        runId: ctx.runId,
+        agent,
+        from: label(model),
+        to: label(next),
+        error: failure.error,
+      });
+    }
+  }
+  // Unreachable: the last iteration either returns or throws.
+  throw new Error(`[${agent}] No model produced a result.`);
+}
+
+/**
+ * Whether an error from a model call should move on to the next model:
+ * rate limits, timeouts, server-side provider errors and connection failures.
+ */
+export function isFallbackError(err: unknown): boolean {
+  // generateText wraps the last attempt's error once its own retries run out.
+  if (RetryError.isInstance(err)) return isFallbackError(err.lastError);
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode;
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+  }
+  return err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError");
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function label(model: LanguageModelV1): string {
+  return `${model.provider}/${model.modelId}`;
+}
+
+function describeFailure(failure: ModelFailure): string {
+  return `${failure.provider}/${failure.model} (${failure.error})`;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
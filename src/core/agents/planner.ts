@@ -15,6 +15,16 @@ import { plannerTools } from "../../../.agentic/tools/index.js";
 import type { TechSpec } from "../../../docs/schema/entities.js";
 import { formatAsContext, retrieveMulti } from "../context/retriever.js";
 import { parseTechSpecWithRetry } from "../guardrails/schema-validator.js";
+import {
+  type AgentContext,
+  traceCorrectionUsage,
+  traceLog,
+  traceRetries,
+  traceRetrieval,
+  traceToolCalls,
+  traceUsage,
+} from "./agent-context.js";
+import { modelsOf, withModelFallback } from "./model-fallback.js";
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
@@ -25,37 +35,50 @@ import { parseTechSpecWithRetry } from "../guardrails/schema-validator.js";
  * spec honours existing ADRs and schema conventions.
  *
  * @param brief - Plain-English description of the feature to build.
+ * @param ctx - Optional run context; retrievals, tool calls and retries are reported as events.
  * @returns A Zod-validated TechSpec ready for handoff to the Executor.
  */
-export async function planFeature(brief: string): Promise<TechSpec> {
-  console.log(`\n[planner] ▶ Planning: "${brief.slice(0, 70)}..."`);
+export async function planFeature(brief: string, ctx?: AgentContext): Promise<TechSpec> {
+  traceLog(ctx, "planner", `▶ Planning: "${brief.slice(0, 70)}..."`);
 
   // ── Stage 2a: Retrieve context ─────────────────────────────────────────────
-  const contextDocs = await retrieveMulti(brief, [COLLECTIONS.PLANS, COLLECTIONS.SCHEMA], 4);
+  const collections = [COLLECTIONS.PLANS, COLLECTIONS.SCHEMA];
+  const contextDocs = await traceRetrieval(ctx, "planner", brief, collections, () =>
+    retrieveMulti(brief, collections, 4),
+  );
   const contextBlock = formatAsContext(contextDocs, "Prior Decisions & Schema Context");
 
-  console.log(`[planner] Retrieved ${contextDocs.length} context chunks`);
+  traceLog(ctx, "planner", `Retrieved ${contextDocs.length} context chunks`);
 
   // ── Stage 2b: Generate spec ────────────────────────────────────────────────
   const systemPrompt = `${productArchitect.systemPrompt}\n\n${contextBlock}`;
   const userPrompt = `Generate a TechSpec for the following feature brief:\n\n${brief}`;
 
-  const { text } = await generateText({
-    model: productArchitect.model,
-    maxRetries: 3,
-    ...(productArchitect.maxSteps !== undefined ? { maxSteps: productArchitect.maxSteps } : {}),
-    tools: plannerTools,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  const {
+    result: { text, usage },
+    model,
+  } = await withModelFallback(ctx, "planner", modelsOf(productArchitect), (model) =>
+    generateText({
+      model,
+      maxRetries: 3,
+      ...(productArchitect.maxSteps !== undefined ? { maxSteps: productArchitect.maxSteps } : {}),
+      tools: plannerTools,
+      system: systemPrompt,
+      prompt: userPrompt,
+      onStepFinish: traceToolCalls(ctx, "planner"),
+    }),
+  );
+  traceUsage(ctx, "planner", model, usage);
 
   // ── Stage 2c: Validate at boundary (with self-correction) ─────────────────
   const spec = await parseTechSpecWithRetry(text, {
-    model: productArchitect.model,
+    model,
     systemPrompt,
     originalPrompt: userPrompt,
+    onRetry: traceRetries(ctx),
+    onUsage: traceCorrectionUsage(ctx, "planner"),
   });
-  console.log(`[planner] ✓ Spec: "${spec.title}" (${spec.acceptanceCriteria.length} criteria)`);
+  traceLog(ctx, "planner", `✓ Spec: "${spec.title}" (${spec.acceptanceCriteria.length} criteria)`);
 
   return spec;
 }
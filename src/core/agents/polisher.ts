@@ -16,7 +16,18 @@ import { polisherTools } from "../../../.agentic/tools/index.js";
 import type { AuditReport, CodeArtifact, PolishedArtifact } from "../../../docs/schema/entities.js";
 import { indexDocuments } from "../context/indexer.js";
 import { formatAsContext, retrieveMulti } from "../context/retriever.js";
+import { materializeFiles, readFromTree } from "../guardrails/patch-validator.js";
 import { parseCodeArtifactWithRetry } from "../guardrails/schema-validator.js";
+import {
+  type AgentContext,
+  traceCorrectionUsage,
+  traceLog,
+  traceRetries,
+  traceRetrieval,
+  traceToolCalls,
+  traceUsage,
+} from "./agent-context.js";
+import { modelsOf, withModelFallback } from "./model-fallback.js";
 
 // ── Public API ────────────────────────────────────────────────────────────────
 
@@ -29,23 +40,25 @@ import { parseCodeArtifactWithRetry } from "../guardrails/schema-validator.js";
  *
  * @param artifact - The CodeArtifact from the Executor Agent.
  * @param audit - The AuditReport for context (failed audits are surfaced to the agent).
+ * @param ctx - Optional run context; retrievals, tool calls and retries are reported as events.
  * @returns A polished CodeArtifact.
  */
 export async function polishOutput(
   artifact: CodeArtifact,
   audit: AuditReport,
+  ctx?: AgentContext,
 ): Promise<PolishedArtifact> {
-  console.log(`\n[polisher] ▶ Polishing artifact: ${artifact.id}`);
+  traceLog(ctx, "polisher", `▶ Polishing artifact: ${artifact.id}`);
 
   // ── Stage 5a: Retrieve quality bar and golden examples ────────────────────
-  const contextDocs = await retrieveMulti(
-    `${artifact.summary} quality enterprise code`,
-    [COLLECTIONS.QUALITY_BAR, COLLECTIONS.CODE],
-    4,
+  const query = `${artifact.summary} quality enterprise code`;
+  const collections = [COLLECTIONS.QUALITY_BAR, COLLECTIONS.CODE];
+  const contextDocs = await traceRetrieval(ctx, "polisher", query, collections, () =>
+    retrieveMulti(query, collections, 4),
   );
   const context = formatAsContext(contextDocs, "Quality Bar & Golden Examples");
 
-  console.log(`[polisher] Retrieved ${contextDocs.length} context chunks`);
+  traceLog(ctx, "polisher", `Retrieved ${contextDocs.length} context chunks`);
 
   // ── Stage 5b: Polish ────────────────────────────────────────────────────────
   const auditSummary = audit.passed
@@ -64,37 +77,55 @@ Artifact:
 ${JSON.stringify(artifact, null, 2)}
 
 Produce a polished CodeArtifact JSON with improved file contents.
+Entries under "patches" are unified diffs against the current tree: review their hunks,
+and return any polish for those paths as updated patches rather than whole files.
 If this artifact exemplifies a reusable pattern, also include:
   "nominateAsGolden": true,
   "goldenTitle": "<descriptive title>",
   "goldenTags": ["tag1", "tag2"]`;
 
-  const { text } = await generateText({
-    model: vibeEngineer.model,
-    maxRetries: 3,
-    ...(vibeEngineer.maxSteps !== undefined ? { maxSteps: vibeEngineer.maxSteps } : {}),
-    tools: polisherTools,
-    system: systemPrompt,
-    prompt: userPrompt,
-  });
+  const {
+    result: { text, usage },
+    model,
+  } = await withModelFallback(ctx, "polisher", modelsOf(vibeEngineer), (model) =>
+    generateText({
+      model,
+      maxRetries: 3,
+      ...(vibeEngineer.maxSteps !== undefined ? { maxSteps: vibeEngineer.maxSteps } : {}),
+      tools: polisherTools,
+      system: systemPrompt,
+      prompt: userPrompt,
+      onStepFinish: traceToolCalls(ctx, "polisher"),
+    }),
+  );
+  traceUsage(ctx, "polisher", model, usage);
 
   // ── Stage 5c: Validate at boundary (with self-correction) ─────────────────
-  const polished = await parseCodeArtifactWithRetry(text, {
-    model: vibeEngineer.model,
-    systemPrompt,
-    originalPrompt: userPrompt,
-  });
+  const readBase = readFromTree();
+  const polished = await parseCodeArtifactWithRetry(
+    text,
+    {
+      model,
+      systemPrompt,
+      originalPrompt: userPrompt,
+      onRetry: traceRetries(ctx),
+      onUsage: traceCorrectionUsage(ctx, "polisher"),
+    },
+    readBase,
+  );
 
   // ── Stage 5d: Optional golden-example nomination ───────────────────────
   // Golden fields are now typed on CodeArtifact (schema-evolution O7 / F3)
   if (polished.nominateAsGolden === true) {
     const goldenTitle = polished.goldenTitle ?? polished.summary;
     const goldenTags = polished.goldenTags ?? [];
+    // The final contents, so polish returned as patches is indexed as code, not diffs
+    const goldenFiles = materializeFiles(polished, readBase);
 
     await indexDocuments([
       {
         id: `golden:${polished.id}`,
-        content: JSON.stringify(polished.files, null, 2),
+        content: JSON.stringify(goldenFiles, null, 2),
         collection: COLLECTIONS.CODE,
         metadata: {
           title: goldenTitle,
@@ -105,9 +136,9 @@ If this artifact exemplifies a reusable pattern, also include:
         },
       },
     ]);
-    console.log(`[polisher] ⭐ Nominated as golden example: "${goldenTitle}"`);
+    traceLog(ctx, "polisher", `⭐ Nominated as golden example: "${goldenTitle}"`);
   }
 
-  console.log(`[polisher] ✓ Polish complete`);
+  traceLog(ctx, "polisher", "✓ Polish complete");
   return polished;
 }
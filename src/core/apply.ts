@@ -0,0 +1,219 @@
+/**
+ * src/core/apply.ts
+ *
+ * Apply a flywheel artifact to a git working tree.
+ *
+ * `applyArtifact()` writes `artifact.files` into the repository on a new local
+ * branch named after the spec (`flywheel/<spec.id>`) and commits them with a
+ * message generated from the spec and the audit report. The branch is left
+ * checked out so the result can be reviewed, amended or pushed.
+ * `artifact.patches` are applied to the current tree; a patch that does not
+ * apply cleanly aborts before anything is touched.
+ *
+ * Safety rails:
+ *   - The working tree must be clean (nothing is stashed or overwritten silently).
+ *   - If writing or committing fails (e.g. a pre-commit hook rejects the commit),
+ *     the written paths are restored, the original branch is checked out again
+ *     and the new branch is deleted.
+ *   - Paths outside `spec.affectedPaths` are refused unless `force: true`.
+ *   - Absolute paths, paths escaping the repository and `.git/` are always refused.
+ *
+ * CLI: pnpm apply <runId> [--force]
+ */
+
+import { execFile } from "node:child_process";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { AuditReport, CodeArtifact, TechSpec } from "../../docs/schema/entities.js";
+import { materializeFiles, readFromTree } from "./guardrails/patch-validator.js";
+
+const execFileAsync = promisify(execFile);
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface ApplyInput {
+  spec: TechSpec;
+  /** The artifact to write — normally `FlywheelResult.polished` */
+  artifact: CodeArtifact;
+  audit: AuditReport;
+}
+
+export interface ApplyOptions {
+  /** Repository to write into (default: process.cwd()) */
+  repoDir?: string;
+  /** Write paths outside `spec.affectedPaths` instead of refusing (default: false) */
+  force?: boolean;
+  /** Branch name override (default: `flywheel/<spec.id>`) */
+  branch?: string;
+}
+
+export interface ApplyResult {
+  branch: string;
+  /** SHA of the new commit */
+  commit: string;
+  /** Repository-relative paths written, sorted */
+  files: string[];
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Write an artifact's files to a new git branch and commit them.
+ *
+ * @returns The branch, commit SHA and files written.
+ * @throws {Error} if the tree is dirty, the branch already exists, the
+ *   artifact has no files, a patch does not apply, a path is outside
+ *   `spec.affectedPaths` (without `force`), or the commit fails — after
+ *   rolling the repository back.
+ */
+export async function applyArtifact(
+  { spec, artifact, audit }: ApplyInput,
+  options: ApplyOptions = {},
+): Promise<ApplyResult> {
+  const repoDir = resolve(options.repoDir ?? process.cwd());
+  const files = [...Object.keys(artifact.files), ...Object.keys(artifact.patches ?? {})].sort();
+  if (files.length === 0) {
+    throw new Error(`[apply] Artifact ${artifact.id} has no files to apply.`);
+  }
+
+  // ── Path checks ───────────────────────────────────────────────────────────
+  const escaping = files.filter((path) => !isInsideRepo(repoDir, path));
+  if (escaping.length > 0) {
+    throw new Error(`[apply] Refusing to write outside the repository: ${escaping.join(", ")}`);
+  }
+
+  const unexpected = files.filter((path) => !isAffectedPath(path, spec.affectedPaths));
+  if (unexpected.length > 0 && !options.force) {
+    throw new Error(
+      `[apply] Refusing to write ${unexpected.length} path(s) outside spec.affectedPaths:\n` +
+        `${unexpected.map((p) => `  - ${p}`).join("\n")}\nRe-run with force to write them anyway.`,
+    );
+  }
+
+  const contents = materializeFiles(artifact, readFromTree(repoDir));
+
+  // ── Git checks ────────────────────────────────────────────────────────────
+  const git = (...args: string[]) => runGit(repoDir, args);
+
+  const status = await git("status", "--porcelain");
+  if (status !== "") {
+    throw new Error(
+      `[apply] Working tree at ${repoDir} has uncommitted changes — commit or stash them first.`,
+    );
+  }
+
+  const branch = options.branch ?? branchNameFor(spec);
+  await git("check-ref-format", "--branch", branch);
+  const exists = await git("branch", "--list", branch);
+  if (exists !== "") {
+    throw new Error(`[apply] Branch "${branch}" already exists.`);
+  }
+
+  // ── Write + commit ────────────────────────────────────────────────────────
+  // An empty branch name means a detached HEAD, restored by commit instead.
+  const originalBranch = await git("branch", "--show-current");
+  const originalCommit = await git("rev-parse", "HEAD");
+  await git("switch", "--create", branch);
+
+  try {
+    for (const path of files) {
+      const target = resolve(repoDir, path);
+      const content = contents[path];
+      if (content === null) {
+        await rm(target, { force: true });
+      } else {
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, content ?? "", "utf-8");
+      }
+    }
+
+    await git("add", "--", ...files);
+    await git("commit", "--message", buildCommitMessage({ spec, artifact, audit }));
+  } catch (err) {
+    try {
+      // Nothing was committed, so HEAD still holds every path as it was.
+      await git("reset", "--quiet", "--", ...files);
+      const tracked = new Set(
+        (await git("ls-tree", "-r", "--name-only", "HEAD", "--", ...files)).split("\n"),
+      );
+      const restored = files.filter((path) => tracked.has(path));
+      if (restored.length > 0) await git("checkout", "HEAD", "--", ...restored);
+      for (const path of files.filter((p) => !tracked.has(p))) {
+        await rm(resolve(repoDir, path), { force: true });
+      }
+      await (originalBranch !== ""
+        ? git("switch", originalBranch)
+        : git("switch", "--detach", originalCommit));
+      await git("branch", "--delete", "--force", branch);
+    } catch (rollbackErr) {
+      throw new Error(
+        `${errorMessage(err)}\n[apply] Rolling back also failed — check ${repoDir} by hand: ${errorMessage(rollbackErr)}`,
+        { cause: err },
+      );
+    }
+    throw err;
+  }
+  const commit = await git("rev-parse", "HEAD");
+  return { branch, commit, files };
+}
+
+/**
+ * Commit message for an applied artifact: the spec title as subject, then
+ * the brief, acceptance criteria, audit verdict and provenance trailers.
+ */
+export function buildCommitMessage({ spec, artifact, audit }: ApplyInput): string {
+  const subject = spec.title.length > 72 ? `${spec.title.slice(0, 71)}…` : spec.title;
+  const criteria = spec.acceptanceCriteria.map((c) => `- ${c}`).join("\n");
+  const verdict = audit.passed ? "PASSED" : "FAILED";
+
+  return [
+    subject,
+    spec.brief,
+    `Acceptance criteria:\n${criteria}`,
+    `Security audit: ${verdict} (${audit.findings.length} finding(s))\n${audit.summary}`,
+    `Spec-Id: ${spec.id}\nArtifact-Id: ${artifact.id}\nAudit-Id: ${audit.id}`,
+  ].join("\n\n");
+}
+
+/** Default branch for a spec: `flywheel/<spec.id>` with ref-unsafe characters replaced. */
+export function branchNameFor(spec: TechSpec): string {
+  const safeId = spec.id.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[.-]+|[.-]+$/g, "");
+  return `flywheel/${safeId || "spec"}`;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Rejects absolute paths, `..` escapes and anything under `.git/`. */
+function isInsideRepo(repoDir: string, path: string): boolean {
+  if (isAbsolute(path)) return false;
+  const rel = normalise(relative(repoDir, resolve(repoDir, path)));
+  return rel !== "" && !rel.startsWith("..") && rel.split("/")[0] !== ".git";
+}
+
+/** True if `path` is an affected path or sits inside an affected directory. */
+function isAffectedPath(path: string, affectedPaths: string[]): boolean {
+  const normalised = normalise(path);
+  return affectedPaths.some((affected) => {
+    const dir = normalise(affected);
+    return normalised === dir || normalised.startsWith(`${dir}/`);
+  });
+}
+
+function normalise(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd });
+    return stdout.trim();
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`[apply] git ${args[0]} failed: ${stderr || String(err)}`);
+  }
+}
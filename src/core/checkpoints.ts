@@ -0,0 +1,96 @@
+/**
+ * src/core/checkpoints.ts
+ *
+ * Persisted stage checkpoints for resumable flywheel runs.
+ *
+ * Every validated stage output is written as JSON to a run directory keyed by
+ * `runId`, one file per pipeline stage name:
+ *
+ *   __runs__/<runId>/
+ *     run.json        — brief + start time (written before the first stage)
+ *     plan.json       — TechSpec from the planner
+ *     approve.json    — TechSpec as returned by the approveSpec gate
+ *     execute.json    — CodeArtifact from the executor
+ *     audit.json      — AuditReport from the auditor
+ *     repair.json     — every execute → audit round (repairRounds > 0 only)
+ *     verify.json     — VerificationResult for the artifact (verify:true only)
+ *     trust-gate.json — LogicReview, autoMerged verdict + reworks (autoMerge only)
+ *     polish.json     — PolishedArtifact from the polisher
+ *     usage.json      — token usage and cost so far (written when the run ends or fails)
+ *     models.json     — the model that served each agent call so far (same timing)
+ *     result.json     — the final FlywheelResult (written once the run completes)
+ *     <custom>.json   — output of any custom stage
+ *
+ * `resumeFlywheel(runId)` reads these back (re-validating each through its Zod
+ * schema) and restarts at the first stage with no checkpoint, so a crash in the
+ * polisher never forces planning and execution to be paid for twice.
+ *
+ * The root directory defaults to FLYWHEEL_RUNS_DIR or ./__runs__.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { z } from "zod";
+import type { ZodTypeAny } from "zod";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Metadata written once per run so `resumeFlywheel` can recover the brief. */
+export const RunManifestSchema = z.object({
+  runId: z.string().min(1),
+  brief: z.string().min(1),
+  startedAt: z.string().datetime({ offset: true }),
+});
+export type RunManifest = z.infer<typeof RunManifestSchema>;
+
+// ── CheckpointStore ───────────────────────────────────────────────────────────
+
+export class CheckpointStore {
+  readonly runId: string;
+  /** Absolute path of this run's checkpoint directory. */
+  readonly dir: string;
+
+  constructor(runId: string, runsDir?: string) {
+    this.runId = runId;
+    // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+    const root = runsDir ?? process.env["FLYWHEEL_RUNS_DIR"] ?? "./__runs__";
+    this.dir = resolve(root, runId);
+  }
+
+  /**
+   * Write a checkpoint atomically (temp file + rename) so a crash mid-write
+   * never leaves a truncated JSON file behind.
+   */
+  async save(name: string, value: unknown): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const target = join(this.dir, `${name}.json`);
+    const temp = `${target}.tmp`;
+    await writeFile(temp, `${JSON.stringify(value, null, 2)}\n`, "utf-8");
+    await rename(temp, target);
+  }
+
+  /**
+   * Read and validate a checkpoint.
+   *
+   * @returns The parsed value, or `undefined` if the checkpoint does not exist.
+   * @throws {Error} if the file exists but fails schema validation.
+   */
+  async load<S extends ZodTypeAny>(name: string, schema: S): Promise<z.output<S> | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(join(this.dir, `${name}.json`), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+
+    const result = schema.safeParse(JSON.parse(raw));
+    if (!result.success) {
+      throw new Error(
+        `[checkpoint] ${this.runId}/${name}.json failed validation.\n` +
+          `Issues:\n${JSON.stringify(result.error.issues, null, 2)}`,
+      );
+    }
+    return result.data;
+  }
+}
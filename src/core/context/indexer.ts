@@ -8,10 +8,12 @@
  */
 
 import { createHash } from "node:crypto";
-import { getMemoryStore } from "../../../.agentic/memory/chroma-store.js";
+import { z } from "zod";
+import { getMemoryStore } from "../../../.agentic/memory/store.js";
 import type { MemoryDocument } from "../../../.agentic/memory/types.js";
 import { COLLECTIONS } from "../../../.agentic/memory/types.js";
 import { sanitize } from "../guardrails/pii-filter.js";
+import { TYPESCRIPT_EXTENSIONS, chunkTypeScript } from "./ts-chunker.js";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -21,24 +23,41 @@ export interface IndexInput {
   metadata?: Record<string, unknown>;
   /** If provided, used as the document ID. Otherwise, a content hash is used. */
   id?: string;
+  /** How to split the content (default: "text") — see chunkWith() */
+  chunking?: Chunking;
+  /** Source file extension without the dot; selects a language-aware chunker */
+  extension?: string;
 }
 
 export interface IndexResult {
   indexed: number;
   skipped: number;
   collection: string;
+  /** IDs of the documents upserted, in order */
+  ids: string[];
 }
 
 // ── Chunking ──────────────────────────────────────────────────────────────────
 
+export interface Chunk {
+  content: string;
+  /** Merged into the document's metadata, e.g. the TypeScript symbol it declares */
+  metadata?: Record<string, string | number>;
+}
+
 const MAX_CHUNK_CHARS = 1_500;
 const HEADING_REGEX = /^#{1,4} .+$/m;
 
 /**
  * Split a document into chunks ≤ MAX_CHUNK_CHARS characters.
  * Strategy: split on Markdown headings first; fall back to paragraph breaks; then hard-cut.
+ * TypeScript (by `extension`) is split by top-level declaration first — see ts-chunker.ts.
  */
-export function chunkText(text: string): string[] {
+export function chunkText(text: string, extension?: string): string[] {
+  if (extension !== undefined && TYPESCRIPT_EXTENSIONS.has(extension)) {
+    return chunkCode(text, extension, (t) => chunkText(t)).map((c) => c.content);
+  }
+
   const trimmed = text.trim();
   if (trimmed.length <= MAX_CHUNK_CHARS) return [trimmed];
 
@@ -73,6 +92,214 @@ export function chunkText(text: string): string[] {
   return chunks;
 }
 
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count — about four characters per token, the usual rule of
+ * thumb for English with OpenAI tokenizers. Good enough for chunk budgets.
+ */
+export function countTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+const DEFAULT_CHUNK_TOKENS = 400;
+const DEFAULT_OVERLAP_TOKENS = 50;
+
+/**
+ * Split a document into chunks of at most `maxTokens` (countTokens()).
+ * Same strategy as chunkText(), but paragraphs are packed by token count and
+ * oversized paragraphs are windowed instead of truncated.
+ */
+export function chunkTokens(text: string, maxTokens = DEFAULT_CHUNK_TOKENS): string[] {
+  const trimmed = text.trim();
+  if (countTokens(trimmed) <= maxTokens) return [trimmed];
+
+  const headingSections = trimmed.split(/(?=^#{1,6} )/m).filter((s) => s.trim());
+  if (headingSections.length > 1) {
+    return headingSections.flatMap((s) => chunkTokens(s, maxTokens));
+  }
+
+  const paragraphs = trimmed.split(/\n\n+/).filter(Boolean);
+  if (paragraphs.length === 1) return chunkWindows(trimmed, maxTokens, 0);
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const p of paragraphs) {
+    const joined = current ? `${current}\n\n${p}` : p;
+    if (countTokens(joined) <= maxTokens) {
+      current = joined;
+      continue;
+    }
+    if (current) chunks.push(current);
+    const pieces = chunkWindows(p, maxTokens, 0);
+    current = pieces.pop() ?? "";
+    chunks.push(...pieces);
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Slide a window of at most `maxTokens` over the text, word by word; each
+ * window repeats the last `overlap` tokens of the one before, so a sentence
+ * straddling a boundary is whole in at least one chunk.
+ * @throws {Error} if `overlap` is not smaller than `maxTokens`.
+ */
+export function chunkWindows(
+  text: string,
+  maxTokens = DEFAULT_CHUNK_TOKENS,
+  overlap = DEFAULT_OVERLAP_TOKENS,
+): string[] {
+  if (overlap >= maxTokens) {
+    throw new Error(`[indexer] overlap (${overlap}) must be smaller than maxTokens (${maxTokens})`);
+  }
+  // Budgets in characters, so a window's countTokens() stays within maxTokens
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = overlap * CHARS_PER_TOKEN;
+  const words = text.trim().match(/\S+\s*/g) ?? [""];
+  const length = (i: number) => words[i]?.length ?? 0;
+
+  const chunks: string[] = [];
+  let start = 0;
+  for (;;) {
+    let end = start;
+    let chars = 0;
+    while (end < words.length && (end === start || chars + length(end) <= maxChars)) {
+      chars += length(end);
+      end++;
+    }
+    chunks.push(words.slice(start, end).join("").trim());
+    if (end >= words.length) return chunks;
+
+    // Step back over up to `overlap` tokens, always moving forward overall
+    let next = end;
+    let repeated = 0;
+    while (next > start + 1 && repeated + length(next - 1) <= overlapChars) {
+      next--;
+      repeated += length(next);
+    }
+    start = next;
+  }
+}
+
+/**
+ * Split Markdown into sections at every heading (outside code fences), each
+ * with its heading path, e.g. "Architecture > Flywheel > Stage 4". Sections
+ * that are only a heading are dropped — their title lives on in the paths.
+ */
+export function headingSections(text: string): Array<{ path: string; content: string }> {
+  const sections: Array<{ path: string; content: string }> = [];
+  const trail: string[] = [];
+  let path = "";
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    if (content && !/^#{1,6} [^\n]*$/.test(content)) sections.push({ path, content });
+    lines = [];
+  };
+
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6}) +(.+?)\s*#*\s*$/.exec(line);
+    if (heading?.[1] && heading[2]) {
+      flush();
+      trail.length = heading[1].length - 1;
+      trail[heading[1].length - 1] = heading[2];
+      path = trail.filter(Boolean).join(" > ");
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * One chunk per top-level declaration, each carrying its symbol, kind and line
+ * range; declarations over budget are split further with `split`. Files
+ * without declarations (e.g. only comments) are split with `split` as a whole.
+ */
+function chunkCode(text: string, extension: string, split: (text: string) => string[]): Chunk[] {
+  const declarations = chunkTypeScript(text, extension);
+  if (declarations.length === 0) return split(text).map((content) => ({ content }));
+  return declarations.flatMap(({ content, metadata }) =>
+    split(content).map((piece) => ({ content: piece, metadata })),
+  );
+}
+
+/**
+ * Chunking strategies a seed source or indexDocuments() input can choose:
+ *   text   — chunkText(): Markdown headings, then paragraphs, then hard cuts
+ *            at MAX_CHUNK_CHARS
+ *   tokens — chunkTokens(): the same, with a token budget (`maxTokens`)
+ *   window — chunkWindows(): sliding windows of `maxTokens` that share
+ *            `overlap` tokens with their neighbours
+ *   none   — the whole content as one chunk (short files that must stay together)
+ *
+ * All but "none" split TypeScript by top-level declaration first.
+ */
+export const CHUNKING_STRATEGIES = ["text", "tokens", "window", "none"] as const;
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+export const ChunkingOptionsSchema = z
+  .object({
+    strategy: z.enum(CHUNKING_STRATEGIES),
+    /** Token budget per chunk for "tokens" and "window" (default: 400) */
+    maxTokens: z.number().int().positive().optional(),
+    /** Tokens each "window" chunk repeats from the previous one (default: 50) */
+    overlap: z.number().int().nonnegative().optional(),
+    /**
+     * Split Markdown at every heading and prepend each chunk's heading path,
+     * e.g. "Architecture > Flywheel > Stage 4". The path is also stored as
+     * `headingPath` metadata. Not counted against the budget.
+     */
+    breadcrumbs: z.boolean().optional(),
+  })
+  .strict()
+  .refine((o) => (o.overlap ?? DEFAULT_OVERLAP_TOKENS) < (o.maxTokens ?? DEFAULT_CHUNK_TOKENS), {
+    message: "overlap must be smaller than maxTokens",
+    path: ["overlap"],
+  });
+export type ChunkingOptions = z.infer<typeof ChunkingOptionsSchema>;
+
+/** A strategy name, or a strategy with its settings */
+export const ChunkingSchema = z.union([z.enum(CHUNKING_STRATEGIES), ChunkingOptionsSchema]);
+export type Chunking = z.infer<typeof ChunkingSchema>;
+
+/** Split `text` from a file with `extension` (no dot) as `chunking` says. */
+export function chunkWith(chunking: Chunking, text: string, extension?: string): Chunk[] {
+  const options: ChunkingOptions = typeof chunking === "string" ? { strategy: chunking } : chunking;
+  const { strategy, maxTokens, overlap, breadcrumbs = false } = options;
+
+  let split: (text: string) => string[];
+  switch (strategy) {
+    case "text":
+      split = (t) => chunkText(t);
+      break;
+    case "tokens":
+      split = (t) => chunkTokens(t, maxTokens);
+      break;
+    case "window":
+      split = (t) => chunkWindows(t, maxTokens, overlap);
+      break;
+    case "none":
+      return [{ content: text.trim() }];
+  }
+
+  if (extension !== undefined && TYPESCRIPT_EXTENSIONS.has(extension)) {
+    return chunkCode(text, extension, split);
+  }
+  if (!breadcrumbs) return split(text).map((content) => ({ content }));
+  return headingSections(text).flatMap(({ path, content }) =>
+    split(content).map((piece) =>
+      path
+        ? { content: `${path}\n\n${piece}`, metadata: { headingPath: path } }
+        : { content: piece },
+    ),
+  );
+}
+
 // ── Hashing ───────────────────────────────────────────────────────────────────
 
 /** Deterministic ID from content — re-indexing identical content is a safe no-op. */
@@ -87,7 +314,7 @@ export function contentHash(text: string): string {
  *
  * Each input is:
  *   1. PII-sanitised before embedding.
- *   2. Chunked if it exceeds MAX_CHUNK_CHARS.
+ *   2. Chunked with its strategy (by default, if it exceeds MAX_CHUNK_CHARS).
  *   3. Deduplicated by content hash.
  *
  * @returns Summary of how many documents were indexed vs skipped.
@@ -101,9 +328,9 @@ export async function indexDocuments(inputs: IndexInput[]): Promise<IndexResult>
   for (const input of inputs) {
     const col = input.collection ?? collection;
     const sanitised = sanitize(input.content);
-    const chunks = chunkText(sanitised);
+    const chunks = chunkWith(input.chunking ?? "text", sanitised, input.extension);
 
-    chunks.forEach((chunk, i) => {
+    chunks.forEach(({ content: chunk, metadata }, i) => {
       const id = input.id
         ? chunks.length > 1
           ? `${input.id}-chunk${i}`
@@ -115,6 +342,7 @@ export async function indexDocuments(inputs: IndexInput[]): Promise<IndexResult>
         content: chunk,
         metadata: {
           ...input.metadata,
+          ...metadata,
           collection: col,
           chunkIndex: i,
           totalChunks: chunks.length,
@@ -125,8 +353,8 @@ export async function indexDocuments(inputs: IndexInput[]): Promise<IndexResult>
     });
   }
 
-  if (documents.length === 0) return { indexed: 0, skipped: inputs.length, collection };
+  if (documents.length === 0) return { indexed: 0, skipped: inputs.length, collection, ids: [] };
 
   await store.upsert(collection, documents);
-  return { indexed: documents.length, skipped: 0, collection };
+  return { indexed: documents.length, skipped: 0, collection, ids: documents.map((d) => d.id) };
 }
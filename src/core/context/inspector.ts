@@ -0,0 +1,128 @@
+/**
+ * src/core/context/inspector.ts
+ *
+ * Read and clean up what is actually in the knowledge base — the operations
+ * behind `pnpm kb`. Everything goes through getMemoryStore(), so it works the
+ * same against Chroma, the in-memory store and the file store.
+ */
+
+import { getMemoryStore } from "../../../.agentic/memory/store.js";
+import { COLLECTIONS } from "../../../.agentic/memory/types.js";
+import type { MemoryDocument } from "../../../.agentic/memory/types.js";
+import { loadSeedSources } from "./seed-config.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface CollectionStats {
+  collection: string;
+  count: number;
+}
+
+export interface FoundDocument {
+  collection: string;
+  document: MemoryDocument;
+}
+
+/** Exactly one of `ids` and `where` selects the documents to delete. */
+export type DeleteSelector = { ids: string[] } | { where: Record<string, unknown> };
+
+/** Documents fetched per store.list() call when paging through a collection */
+const PAGE_SIZE = 500;
+
+/** The built-in collections — the ones the default seed sources and the flywheel write to. */
+export const KNOWN_COLLECTIONS: string[] = Object.values(COLLECTIONS);
+
+// ── Inspection ────────────────────────────────────────────────────────────────
+
+/**
+ * Every collection worth inspecting: KNOWN_COLLECTIONS, then — sorted — the
+ * collections the seed config for `root` writes to and any other collection
+ * the store holds. Configured collections are listed even before they are seeded.
+ */
+export async function knownCollections(root = process.cwd()): Promise<string[]> {
+  const others = new Set([
+    ...loadSeedSources(root).map((s) => s.collection),
+    ...(await getMemoryStore().listCollections()),
+  ]);
+  for (const collection of KNOWN_COLLECTIONS) others.delete(collection);
+  return [...KNOWN_COLLECTIONS, ...[...others].sort()];
+}
+
+/**
+ * Document count of each collection (default: knownCollections()), in order.
+ * Read-only: a collection that does not exist counts 0 and is not created.
+ */
+export async function collectionStats(collections?: string[]): Promise<CollectionStats[]> {
+  const store = getMemoryStore();
+  const names = collections ?? (await knownCollections());
+  return Promise.all(
+    names.map(async (collection) => ({
+      collection,
+      count: await store.count(collection),
+    })),
+  );
+}
+
+/**
+ * Look a document up by ID across `collections` (default: knownCollections()).
+ * @returns Every collection holding the ID — usually zero or one.
+ */
+export async function findDocument(id: string, collections?: string[]): Promise<FoundDocument[]> {
+  const store = getMemoryStore();
+  const found: FoundDocument[] = [];
+  for (const collection of collections ?? (await knownCollections())) {
+    for (const document of await store.get(collection, [id])) {
+      found.push({ collection, document });
+    }
+  }
+  return found;
+}
+
+/** Every document in `collection` (optionally filtered), paged from the store. */
+export async function dumpCollection(
+  collection: string,
+  where?: Record<string, unknown>,
+): Promise<MemoryDocument[]> {
+  const store = getMemoryStore();
+  const documents: MemoryDocument[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await store.list(collection, {
+      limit: PAGE_SIZE,
+      offset,
+      ...(where !== undefined ? { where } : {}),
+    });
+    documents.push(...page);
+    if (page.length < PAGE_SIZE) return documents;
+  }
+}
+
+// ── Cleanup ───────────────────────────────────────────────────────────────────
+
+/**
+ * IDs of the documents `selector` picks in `collection` — what
+ * deleteDocuments() would remove. Unknown IDs are left out.
+ */
+export async function selectDocuments(
+  collection: string,
+  selector: DeleteSelector,
+): Promise<string[]> {
+  if ("ids" in selector) {
+    const docs = await getMemoryStore().get(collection, selector.ids);
+    return docs.map((d) => d.id);
+  }
+  const docs = await dumpCollection(collection, selector.where);
+  return docs.map((d) => d.id);
+}
+
+/**
+ * Delete the documents `selector` picks in `collection`.
+ * @returns The IDs deleted.
+ */
+export async function deleteDocuments(
+  collection: string,
+  selector: DeleteSelector,
+): Promise<string[]> {
+  const ids = await selectDocuments(collection, selector);
+  await getMemoryStore().delete(collection, ids);
+  return ids;
+}
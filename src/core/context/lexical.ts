@@ -0,0 +1,100 @@
+/**
+ * src/core/context/lexical.ts
+ *
+ * BM25 keyword scoring — the lexical half of hybrid retrieval (see
+ * retriever.ts). Embeddings of a short query often miss exact identifiers like
+ * `parseAgentOutputWithRetry` or `MAX_FILE_CHARS`; BM25 ranks the documents
+ * that contain them first, weighted by how rare each term is.
+ *
+ * Tokens are identifier-like words, lowercased. Compound identifiers are
+ * indexed whole and by their camelCase / snake_case parts, so the query
+ * "parseAgentOutputWithRetry" and the query "agent output retry" both match.
+ *
+ * The index is built in memory from the documents it is given; retrieve()
+ * builds one per collection and reuses it until the collection is written.
+ */
+
+import type { MemoryDocument, QueryResult } from "../../../.agentic/memory/types.js";
+
+// ── Tokenizer ─────────────────────────────────────────────────────────────────
+
+/** Boundaries inside an identifier: `_`, camelCase humps and acronym ends (`HTTPServer`). */
+const IDENTIFIER_PARTS = /_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+/** Lowercased words, each compound identifier followed by its parts. */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    tokens.push(word.toLowerCase());
+    const parts = word.split(IDENTIFIER_PARTS).filter(Boolean);
+    if (parts.length > 1) tokens.push(...parts.map((p) => p.toLowerCase()));
+  }
+  return tokens;
+}
+
+// ── BM25 ──────────────────────────────────────────────────────────────────────
+
+export interface Bm25Options {
+  /** Term-frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Document-length normalisation, 0–1 (default: 0.75) */
+  b?: number;
+}
+
+interface IndexedDocument {
+  document: MemoryDocument;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class Bm25Index {
+  private readonly documents: IndexedDocument[];
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+  private readonly k1: number;
+  private readonly b: number;
+
+  constructor(documents: MemoryDocument[], options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.documents = documents.map((document) => {
+      const tokens = tokenize(document.content);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      }
+      return { document, termFrequencies, length: tokens.length };
+    });
+    const totalLength = this.documents.reduce((sum, d) => sum + d.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  /**
+   * The `topK` documents with the highest BM25 score for `query`, best first.
+   * `score` is the raw BM25 score; documents sharing no term are left out.
+   */
+  search(query: string, topK = 5): QueryResult[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.documents.length;
+
+    return this.documents
+      .map(({ document, termFrequencies, length }) => {
+        let score = 0;
+        for (const term of terms) {
+          const tf = termFrequencies.get(term) ?? 0;
+          if (tf === 0) continue;
+          const df = this.documentFrequencies.get(term) ?? 0;
+          const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+          const norm = 1 - this.b + (this.b * length) / (this.averageLength || 1);
+          score += (idf * tf * (this.k1 + 1)) / (tf + this.k1 * norm);
+        }
+        return { ...document, metadata: { ...document.metadata }, score };
+      })
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
@@ -42,20 +42,28 @@ export class QueryCache {
   /**
    * Build a deterministic cache key from the query parameters.
    * Includes minScore so that calls with different score thresholds get
-   * separate cache entries (avoids returning under-threshold results).
+   * separate cache entries (avoids returning under-threshold results), and the
+   * retrieval mode, whose rankings differ.
    */
   private static key(
     collection: string,
     query: string,
     topK: number,
     minScore: number,
+    mode: string,
   ): string {
-    return `${collection}::${topK}::${minScore}::${query}`;
+    return `${collection}::${mode}::${topK}::${minScore}::${query}`;
   }
 
   /** Return cached results if present and not expired; otherwise undefined. */
-  get(collection: string, query: string, topK: number, minScore: number): QueryResult[] | undefined {
-    const k = QueryCache.key(collection, query, topK, minScore);
+  get(
+    collection: string,
+    query: string,
+    topK: number,
+    minScore: number,
+    mode = "vector",
+  ): QueryResult[] | undefined {
+    const k = QueryCache.key(collection, query, topK, minScore, mode);
     const entry = this.store.get(k);
     if (!entry) return undefined;
     if (Date.now() > entry.expiresAt) {
@@ -72,8 +80,9 @@ export class QueryCache {
     topK: number,
     minScore: number,
     results: QueryResult[],
+    mode = "vector",
   ): void {
-    const k = QueryCache.key(collection, query, topK, minScore);
+    const k = QueryCache.key(collection, query, topK, minScore, mode);
     this.store.set(k, { results, expiresAt: Date.now() + this.ttlMs });
   }
 
@@ -3,15 +3,34 @@
  *
  * Thin wrapper over ChromaMemoryStore.query() that returns ranked Document[]
  * and formats them for use as agent context blocks.
+ *
+ * Retrieval modes:
+ *   vector  — embedding similarity (the default)
+ *   lexical — BM25 keyword scoring over the collection (lexical.ts)
+ *   hybrid  — both, merged by reciprocal-rank fusion
+ * Any mode can end with a rerank step over a wider candidate pool.
  */
 
-import { getMemoryStore } from "../../../.agentic/memory/chroma-store.js";
+import { getMemoryStore, onMemoryWrite } from "../../../.agentic/memory/store.js";
 import { COLLECTIONS } from "../../../.agentic/memory/types.js";
-import type { QueryResult } from "../../../.agentic/memory/types.js";
+import type { MemoryStore, QueryResult } from "../../../.agentic/memory/types.js";
+import { Bm25Index, tokenize } from "./lexical.js";
 import { queryCache } from "./query-cache.js";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
+export const RETRIEVAL_MODES = ["vector", "lexical", "hybrid"] as const;
+export type RetrievalMode = (typeof RETRIEVAL_MODES)[number];
+
+/**
+ * Reorders candidates for `query`, best first; retrieve() keeps the first topK.
+ * Receives topK × RERANK_POOL_FACTOR candidates.
+ */
+export type Reranker = (
+  query: string,
+  candidates: QueryResult[],
+) => QueryResult[] | Promise<QueryResult[]>;
+
 export interface RetrieveOptions {
   collection?: string;
   topK?: number;
@@ -26,11 +45,26 @@ export interface RetrieveOptions {
   /**
    * O8 — When true, serve results from the in-process TTL cache when available,
    * and populate the cache on miss. Safe to enable within a single flywheel run.
-   * Defaults to false so tests are never silently cached.
+   * Defaults to false so tests are never silently cached. Ignored with `rerank`.
    */
   useCache?: boolean;
+  /**
+   * How candidates are found (default: "vector"). `minScore` filters cosine
+   * similarity only, so it applies to vector results and the vector half of
+   * hybrid. BM25 scores have no fixed scale, so lexical results are every
+   * document sharing a query term, scored relative to the best match. Hybrid
+   * scores are fused ranks, 0–1.
+   */
+  mode?: RetrievalMode;
+  /** Rerank a wider candidate pool before taking topK — e.g. termCoverageReranker */
+  rerank?: Reranker;
 }
 
+/** Reciprocal-rank fusion constant: higher values flatten the rank weights */
+const RRF_K = 60;
+/** Candidates fetched per ranking for fusion and reranking, as a multiple of topK */
+const RERANK_POOL_FACTOR = 4;
+
 // ── Retriever ─────────────────────────────────────────────────────────────────
 
 /**
@@ -43,8 +77,17 @@ export async function retrieve(
   query: string,
   options: RetrieveOptions = {},
 ): Promise<QueryResult[]> {
-  const { collection = COLLECTIONS.DEFAULT, topK = 5, minScore = 0.3, where, minPriority, useCache = false } =
-    options;
+  const {
+    collection = COLLECTIONS.DEFAULT,
+    topK = 5,
+    minScore = 0.3,
+    where,
+    minPriority,
+    useCache = false,
+    mode = "vector",
+    rerank,
+  } = options;
+  const cacheable = useCache && rerank === undefined;
 
   // Merge minPriority into the Chroma where filter (O1 / F4)
   const effectiveWhere: Record<string, unknown> | undefined =
@@ -53,22 +96,136 @@ export async function retrieve(
       : where;
 
   // Serve from cache when opted-in (O8)
-  if (useCache) {
-    const cached = queryCache.get(collection, query, topK, minScore);
+  if (cacheable) {
+    const cached = queryCache.get(collection, query, topK, minScore, mode);
     if (cached !== undefined) return cached;
   }
 
   const store = getMemoryStore();
-  const results = await store.query(collection, query, topK, effectiveWhere);
-  const filtered = results.filter((r) => r.score >= minScore);
+  const poolSize = rerank !== undefined || mode === "hybrid" ? topK * RERANK_POOL_FACTOR : topK;
+  const rank = async (m: Exclude<RetrievalMode, "hybrid">) => {
+    const results =
+      m === "vector"
+        ? await store.query(collection, query, poolSize, effectiveWhere)
+        : await lexicalSearch(store, collection, query, poolSize, effectiveWhere);
+    return m === "vector" ? results.filter((r) => r.score >= minScore) : results;
+  };
+
+  let candidates: QueryResult[];
+  if (mode === "hybrid") {
+    const [vector, lexical] = await Promise.all([rank("vector"), rank("lexical")]);
+    candidates = reciprocalRankFusion([vector, lexical]);
+  } else {
+    candidates = await rank(mode);
+  }
+  if (rerank !== undefined) candidates = await rerank(query, candidates);
+  const results = candidates.slice(0, topK);
 
-  if (useCache) {
-    queryCache.set(collection, query, topK, minScore, filtered);
+  if (cacheable) {
+    queryCache.set(collection, query, topK, minScore, results, mode);
   }
 
-  return filtered;
+  return results;
 }
 
+// ── Lexical search ────────────────────────────────────────────────────────────
+
+interface CachedIndex {
+  store: MemoryStore;
+  /** Documents indexed — a changed count means another process wrote the collection */
+  count: number;
+  index: Bm25Index;
+}
+
+/** BM25 indexes by collection, then by `where` filter; built on first lexical query */
+const lexicalIndexes = new Map<string, Map<string, CachedIndex>>();
+
+// Any write through the shared store makes the collection's indexes stale.
+onMemoryWrite((collection) => lexicalIndexes.delete(collection));
+
+/**
+ * BM25 over every document in `collection` matching `where`, scores divided
+ * by the best match's so they fall in 0–1 like cosine similarities. The
+ * collection is listed and indexed once, then reused until it is written.
+ */
+async function lexicalSearch(
+  store: MemoryStore,
+  collection: string,
+  query: string,
+  topK: number,
+  where: Record<string, unknown> | undefined,
+): Promise<QueryResult[]> {
+  const results = (await lexicalIndex(store, collection, where)).search(query, topK);
+  const best = results[0]?.score ?? 1;
+  return results.map((r) => ({ ...r, score: r.score / best }));
+}
+
+async function lexicalIndex(
+  store: MemoryStore,
+  collection: string,
+  where: Record<string, unknown> | undefined,
+): Promise<Bm25Index> {
+  let byFilter = lexicalIndexes.get(collection);
+  if (!byFilter) {
+    byFilter = new Map();
+    lexicalIndexes.set(collection, byFilter);
+  }
+  const key = JSON.stringify(where ?? {});
+  const cached = byFilter.get(key);
+  if (cached?.store === store && cached.count === (await store.count(collection, where))) {
+    return cached.index;
+  }
+
+  const documents = await store.list(collection, where !== undefined ? { where } : {});
+  const index = new Bm25Index(documents);
+  byFilter.set(key, { store, count: documents.length, index });
+  return index;
+}
+
+// ── Fusion & reranking ────────────────────────────────────────────────────────
+
+/**
+ * Merge rankings by reciprocal-rank fusion: each document scores
+ * Σ 1 / (RRF_K + rank) over the rankings it appears in, scaled so that first
+ * place in every ranking is 1. Raw scores are ignored, so rankings on
+ * different scales (cosine, BM25) combine fairly.
+ */
+export function reciprocalRankFusion(rankings: QueryResult[][]): QueryResult[] {
+  const fused = new Map<string, QueryResult>();
+  const best = rankings.length / (RRF_K + 1);
+
+  for (const ranking of rankings) {
+    ranking.forEach((result, i) => {
+      const contribution = 1 / (RRF_K + i + 1) / best;
+      const existing = fused.get(result.id);
+      fused.set(result.id, {
+        ...(existing ?? result),
+        score: (existing?.score ?? 0) + contribution,
+      });
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * A dependency-free reranker: averages each candidate's score with the share
+ * of distinct query terms (lexical.ts tokens) its content contains, so
+ * candidates that mention every identifier in the query move up.
+ */
+export const termCoverageReranker: Reranker = (query, candidates) => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return candidates;
+
+  return candidates
+    .map((candidate) => {
+      const content = new Set(tokenize(candidate.content));
+      const coverage = terms.filter((t) => content.has(t)).length / terms.length;
+      return { ...candidate, score: (candidate.score + coverage) / 2 };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
 /**
  * Retrieve from multiple collections and merge results, de-duplicated by ID.
  * Results are sorted by score (descending) across all collections.
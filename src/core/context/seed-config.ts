@@ -0,0 +1,159 @@
+/**
+ * src/core/context/seed-config.ts
+ *
+ * Where `pnpm seed` reads from: the template's default sources, or the `seed`
+ * section of the project config file — agentic.config.json at the workspace
+ * root, or the path in AGENTIC_CONFIG:
+ *
+ *   {
+ *     "seed": {
+ *       "includeDefaults": true,
+ *       "sources": [
+ *         {
+ *           "pattern": "src/**\/*.ts",
+ *           "collection": "code",
+ *           "priority": 6,
+ *           "exclude": ["**\/*.test.ts"],
+ *           "chunking": "text",
+ *           "metadata": { "origin": "app" }
+ *         }
+ *       ]
+ *     }
+ *   }
+ *
+ * Sources are validated with Zod; `includeDefaults` appends DEFAULT_SOURCES
+ * after the configured ones. Without a config file, DEFAULT_SOURCES are used.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { z } from "zod";
+import { COLLECTIONS } from "../../../.agentic/memory/types.js";
+import { ChunkingSchema } from "./indexer.js";
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+
+export const SeedSourceSchema = z.object({
+  /** Glob, relative to the workspace root */
+  pattern: z.string().min(1),
+  collection: z.string().min(1),
+  /** 0–10 priority. Higher = retrieved first. Stored as metadata for filtering. */
+  priority: z.number().min(0).max(10),
+  /** Globs of files to leave out, relative to the workspace root */
+  exclude: z.array(z.string().min(1)).optional(),
+  /** How files are split into chunks (default: "text") */
+  chunking: ChunkingSchema.optional(),
+  /** Added to every chunk's metadata; source, filename, extension and priority win */
+  metadata: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+export type SeedSource = z.infer<typeof SeedSourceSchema>;
+
+export const AgenticConfigSchema = z.object({
+  seed: z
+    .object({
+      /** Also seed DEFAULT_SOURCES, after the configured sources */
+      includeDefaults: z.boolean().default(false),
+      sources: z.array(SeedSourceSchema).default([]),
+    })
+    .optional(),
+});
+export type AgenticConfig = z.infer<typeof AgenticConfigSchema>;
+
+// ── Defaults ──────────────────────────────────────────────────────────────────
+
+/**
+ * Default seed sources.
+ * Ordered from highest to lowest priority so the most important context is indexed first.
+ */
+export const DEFAULT_SOURCES: SeedSource[] = [
+  // Schema — highest priority (agents read this to understand data shapes)
+  {
+    pattern: "docs/schema/**/*.{ts,md}",
+    collection: COLLECTIONS.SCHEMA,
+    priority: 10,
+  },
+  // Golden examples — the Ground Truth Library
+  {
+    pattern: "docs/golden-examples/**/*.{ts,md}",
+    collection: COLLECTIONS.CODE,
+    priority: 9,
+  },
+  // Architecture decisions
+  {
+    pattern: "docs/decisions/**/*.md",
+    collection: COLLECTIONS.PLANS,
+    priority: 8,
+  },
+  // Quality bar (Vibe Engineer's rubric)
+  {
+    pattern: "docs/architecture/quality-bar.md",
+    collection: COLLECTIONS.QUALITY_BAR,
+    priority: 8,
+  },
+  // General architecture docs
+  {
+    pattern: "docs/architecture/**/*.md",
+    collection: COLLECTIONS.DEFAULT,
+    priority: 6,
+  },
+  // Role full-logic docs (Harness Engineering: system-of-record for all role prompts)
+  {
+    pattern: "docs/roles/**/*.md",
+    collection: COLLECTIONS.DEFAULT,
+    priority: 7,
+  },
+  // Role stub definitions (agents can look up how other roles work)
+  {
+    pattern: ".agentic/roles/**/*.ts",
+    collection: COLLECTIONS.DEFAULT,
+    priority: 5,
+  },
+];
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+/** The project config file for `root`: AGENTIC_CONFIG, else <root>/agentic.config.json. */
+export function agenticConfigPath(
+  root = process.cwd(),
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  return resolve(root, env["AGENTIC_CONFIG"] ?? "agentic.config.json");
+}
+
+/**
+ * Read and validate the project config file.
+ * @returns `undefined` if the file does not exist.
+ * @throws {Error} if the file is not valid JSON or fails schema validation.
+ */
+export function loadAgenticConfig(path: string): AgenticConfig | undefined {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(
+      `[seed] ${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const result = AgenticConfigSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    throw new Error(`[seed] ${path} failed validation — ${issues}`);
+  }
+  return result.data;
+}
+
+/** The seed sources for the workspace at `root` — see the file header. */
+export function loadSeedSources(root = process.cwd()): SeedSource[] {
+  const seed = loadAgenticConfig(agenticConfigPath(root))?.seed;
+  if (!seed) return DEFAULT_SOURCES;
+  return seed.includeDefaults ? [...seed.sources, ...DEFAULT_SOURCES] : seed.sources;
+}
@@ -0,0 +1,145 @@
+/**
+ * src/core/context/seed-manifest.ts
+ *
+ * What the last seed indexed, so the next one only re-embeds what changed.
+ *
+ * The manifest maps collection → source path → content hash, the source
+ * settings the file was indexed with, and the chunk IDs it produced.
+ * seedContext() compares it with the files on disk: unchanged files (same
+ * content, same settings) are skipped, changed files are re-indexed and their
+ * orphaned chunks deleted, and files that disappeared have all their chunks
+ * deleted.
+ *
+ * Stored as JSON at SEED_MANIFEST (default ./__seed__/manifest.json).
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import { ChunkingSchema } from "./indexer.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Bumped whenever chunking, document IDs or the entry shape change, so every
+ * file is re-indexed; the older manifest's chunk IDs are still purged.
+ */
+export const SEED_MANIFEST_VERSION = 3;
+
+export const SeedManifestEntrySchema = z.object({
+  /** contentHash() of the file's raw content */
+  hash: z.string(),
+  /** Source priority the file was indexed with */
+  priority: z.number(),
+  /** Source chunking strategy and settings the file was indexed with */
+  chunking: ChunkingSchema,
+  /** Source metadata the file was indexed with */
+  metadata: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])),
+  /** IDs of every chunk the file was indexed as */
+  chunkIds: z.array(z.string()),
+});
+export type SeedManifestEntry = z.infer<typeof SeedManifestEntrySchema>;
+
+export const SeedManifestSchema = z.object({
+  version: z.number().int(),
+  /** collection → relative source path → entry */
+  collections: z.record(z.string(), z.record(z.string(), SeedManifestEntrySchema)),
+});
+export type SeedManifest = z.infer<typeof SeedManifestSchema>;
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+export function seedManifestPath(env: NodeJS.ProcessEnv = process.env): string {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+  return resolve(env["SEED_MANIFEST"] ?? "./__seed__/manifest.json");
+}
+
+export function emptySeedManifest(): SeedManifest {
+  return { version: SEED_MANIFEST_VERSION, collections: {} };
+}
+
+/**
+ * Read the manifest at `path`.
+ * @returns An empty manifest if the file does not exist. A manifest from
+ *   another SEED_MANIFEST_VERSION is migrated — see migrateSeedManifest().
+ * @throws {Error} if the file exists but is not a valid manifest.
+ */
+export async function loadSeedManifest(path: string): Promise<SeedManifest> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return emptySeedManifest();
+    throw err;
+  }
+
+  const json: unknown = JSON.parse(raw);
+  const version = z.object({ version: z.number() }).safeParse(json);
+  if (version.success && version.data.version !== SEED_MANIFEST_VERSION) {
+    return migrateSeedManifest(json);
+  }
+
+  const result = SeedManifestSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `[seed] ${path} is not a valid seed manifest — delete it to re-seed everything.\n` +
+        `Issues:\n${JSON.stringify(result.error.issues, null, 2)}`,
+    );
+  }
+  return result.data;
+}
+
+/** The part of any manifest version a migration relies on */
+const LegacySeedManifestSchema = z.object({
+  collections: z.record(
+    z.string(),
+    z.record(z.string(), z.object({ chunkIds: z.array(z.string()) }).passthrough()),
+  ),
+});
+
+/**
+ * Carry an older manifest's chunk IDs over to this version, so the next seed
+ * can still purge them. Each entry gets an empty hash, which never matches:
+ * the file is re-indexed and its orphaned chunks deleted, or all its chunks
+ * deleted if it is gone. Only an unreadable manifest is dropped outright.
+ */
+function migrateSeedManifest(json: unknown): SeedManifest {
+  const legacy = LegacySeedManifestSchema.safeParse(json);
+  if (!legacy.success) return emptySeedManifest();
+
+  const manifest = emptySeedManifest();
+  for (const [collection, entries] of Object.entries(legacy.data.collections)) {
+    const migrated: Record<string, SeedManifestEntry> = {};
+    for (const [path, entry] of Object.entries(entries)) {
+      migrated[path] = {
+        hash: "",
+        priority: 0,
+        chunking: "text",
+        metadata: {},
+        chunkIds: entry.chunkIds,
+      };
+    }
+    manifest.collections[collection] = migrated;
+  }
+  return manifest;
+}
+
+/** Whether a file indexed with `entry` was indexed with these source settings. */
+export function sameSeedSettings(
+  entry: SeedManifestEntry,
+  settings: Pick<SeedManifestEntry, "priority" | "chunking" | "metadata">,
+): boolean {
+  return (
+    entry.priority === settings.priority &&
+    JSON.stringify(entry.chunking) === JSON.stringify(settings.chunking) &&
+    JSON.stringify(entry.metadata) === JSON.stringify(settings.metadata)
+  );
+}
+
+/** Write the manifest atomically (temp file + rename). */
+export async function saveSeedManifest(path: string, manifest: SeedManifest): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temp = `${path}.tmp`;
+  await writeFile(temp, `${JSON.stringify(manifest, null, 2)}\n`, "utf-8");
+  await rename(temp, path);
+}
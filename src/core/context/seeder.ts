@@ -1,140 +1,276 @@
 /**
  * src/core/context/seeder.ts
  *
- * Crawls workspace files and seeds them into ChromaDB.
+ * Crawls workspace files and seeds them into ChromaDB, incrementally — see
+ * seed-manifest.ts.
  * This is the "Context Seeding" step of the Knowledge Flywheel.
  *
- * Run via: pnpm seed
+ * Run via: pnpm seed, or pnpm seed:watch to re-index docs as they change
  * Or import and call programmatically in tests.
  */
 
+import { existsSync, watch } from "node:fs";
 import { readFile } from "node:fs/promises";
-import { basename, extname, relative, resolve } from "node:path";
+import { basename, dirname, extname, join, relative, resolve, sep } from "node:path";
 import { glob } from "glob";
-import { COLLECTIONS } from "../../../.agentic/memory/types.js";
+import { getMemoryStore } from "../../../.agentic/memory/store.js";
 import { contentHash, indexDocuments } from "./indexer.js";
+import { type SeedSource, loadSeedSources } from "./seed-config.js";
+import {
+  emptySeedManifest,
+  loadSeedManifest,
+  sameSeedSettings,
+  saveSeedManifest,
+  seedManifestPath,
+} from "./seed-manifest.js";
 
-// ── Seed config ───────────────────────────────────────────────────────────────
+// ── Seeder ────────────────────────────────────────────────────────────────────
 
-interface SeedSource {
-  pattern: string;
-  collection: string;
-  /** 0–10 priority. Higher = retrieved first. Stored as metadata for filtering. */
-  priority: number;
+export interface SeedOptions {
+  /** Where the seed manifest lives (default: SEED_MANIFEST or ./__seed__/manifest.json) */
+  manifestPath?: string;
+  /** Re-index every file even if the manifest says it is unchanged */
+  full?: boolean;
+  /**
+   * Only seed these workspace-relative paths (changed or deleted files); the
+   * manifest entries of every other file are kept as they are.
+   */
+  paths?: string[];
 }
 
-/**
- * Default seed sources.
- * Ordered from highest to lowest priority so the most important context is indexed first.
- */
-const DEFAULT_SOURCES: SeedSource[] = [
-  // Schema — highest priority (agents read this to understand data shapes)
-  {
-    pattern: "docs/schema/**/*.{ts,md}",
-    collection: COLLECTIONS.SCHEMA,
-    priority: 10,
-  },
-  // Golden examples — the Ground Truth Library
-  {
-    pattern: "docs/golden-examples/**/*.{ts,md}",
-    collection: COLLECTIONS.CODE,
-    priority: 9,
-  },
-  // Architecture decisions
-  {
-    pattern: "docs/decisions/**/*.md",
-    collection: COLLECTIONS.PLANS,
-    priority: 8,
-  },
-  // Quality bar (Vibe Engineer's rubric)
-  {
-    pattern: "docs/architecture/quality-bar.md",
-    collection: COLLECTIONS.QUALITY_BAR,
-    priority: 8,
-  },
-  // General architecture docs
-  {
-    pattern: "docs/architecture/**/*.md",
-    collection: COLLECTIONS.DEFAULT,
-    priority: 6,
-  },
-  // Role full-logic docs (Harness Engineering: system-of-record for all role prompts)
-  {
-    pattern: "docs/roles/**/*.md",
-    collection: COLLECTIONS.DEFAULT,
-    priority: 7,
-  },
-  // Role stub definitions (agents can look up how other roles work)
-  {
-    pattern: ".agentic/roles/**/*.ts",
-    collection: COLLECTIONS.DEFAULT,
-    priority: 5,
-  },
-];
-
-// ── Seeder ────────────────────────────────────────────────────────────────────
-
 export interface SeedResult {
   totalFiles: number;
+  /** Chunks indexed by this run — unchanged files contribute none */
   totalDocuments: number;
   byCollection: Record<string, number>;
   durationMs: number;
+  /** Files indexed for the first time */
+  added: number;
+  /** Files re-indexed because their content or priority changed */
+  updated: number;
+  /** Files that disappeared since the last seed; all their chunks were deleted */
+  removed: number;
+  /** Files skipped because the manifest and store already hold them */
+  unchanged: number;
+  /** Stale chunks deleted — orphans of updated files plus every chunk of removed ones */
+  purgedChunks: number;
 }
 
 /**
- * Seed the ChromaDB knowledge base from workspace files.
+ * Seed the knowledge base from workspace files, incrementally.
+ *
+ * Files are compared with the seed manifest (see seed-manifest.ts): only new
+ * or changed files are re-embedded, chunks a changed file no longer produces
+ * are deleted, and so are all chunks of files that no longer exist. A file
+ * the manifest lists but whose chunks are missing from the store (e.g. a
+ * fresh MEMORY_STORE=memory process) is re-indexed. When two sources match the
+ * same file for one collection, the first wins.
  *
- * @param sources - Override default seed sources (useful for testing).
+ * @param sources - Seed sources (default: agentic.config.json or DEFAULT_SOURCES — see seed-config.ts).
  * @param root - Workspace root (defaults to process.cwd()).
+ * @param options - Manifest location, full re-index, or the paths to seed.
  */
 export async function seedContext(
-  sources: SeedSource[] = DEFAULT_SOURCES,
+  sources?: SeedSource[],
   root = process.cwd(),
+  options: SeedOptions = {},
 ): Promise<SeedResult> {
   const start = Date.now();
+  const seedSources = sources ?? loadSeedSources(root);
+  const store = getMemoryStore();
+  const manifestPath = options.manifestPath ?? seedManifestPath();
+  const previous = await loadSeedManifest(manifestPath);
+  const only = options.paths !== undefined ? new Set(options.paths) : undefined;
+  const next = only !== undefined ? structuredClone(previous) : emptySeedManifest();
+  /** `<collection>\0<path>` of every file a source matched in this run */
+  const seen = new Set<string>();
   const byCollection: Record<string, number> = {};
-  let totalFiles = 0;
-  let totalDocuments = 0;
+  const result: SeedResult = {
+    totalFiles: 0,
+    totalDocuments: 0,
+    byCollection,
+    durationMs: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    purgedChunks: 0,
+  };
 
-  for (const source of sources) {
-    const files = await glob(source.pattern, { cwd: root, absolute: true });
+  for (const source of seedSources) {
+    const files = await glob(source.pattern, {
+      cwd: root,
+      absolute: true,
+      ...(source.exclude !== undefined ? { ignore: source.exclude } : {}),
+    });
+    const settings = {
+      priority: source.priority,
+      chunking: source.chunking ?? "text",
+      metadata: source.metadata ?? {},
+    };
+    const entries = next.collections[source.collection] ?? {};
+    next.collections[source.collection] = entries;
 
     for (const file of files) {
-      const content = await readFile(file, "utf-8");
       const relativePath = relative(root, file);
-      const ext = extname(file).slice(1);
-      const name = basename(file);
+      const key = `${source.collection}\0${relativePath}`;
+      if (seen.has(key) || (only !== undefined && !only.has(relativePath))) continue;
+      seen.add(key);
+
+      const content = await readFile(file, "utf-8");
+      const hash = contentHash(content);
+      const before = previous.collections[source.collection]?.[relativePath];
+      result.totalFiles++;
+
+      if (
+        !options.full &&
+        before?.hash === hash &&
+        sameSeedSettings(before, settings) &&
+        (await store.get(source.collection, before.chunkIds)).length === before.chunkIds.length
+      ) {
+        entries[relativePath] = before;
+        result.unchanged++;
+        continue;
+      }
 
-      const result = await indexDocuments([
+      const indexed = await indexDocuments([
         {
           id: `file:${contentHash(relativePath)}`,
           content,
           collection: source.collection,
+          chunking: settings.chunking,
+          extension: extname(file).slice(1),
           metadata: {
+            ...settings.metadata,
             source: relativePath,
-            filename: name,
-            extension: ext,
+            filename: basename(file),
+            extension: extname(file).slice(1),
             priority: source.priority,
           },
         },
       ]);
+      entries[relativePath] = { hash, ...settings, chunkIds: indexed.ids };
 
-      totalFiles++;
-      totalDocuments += result.indexed;
-      byCollection[source.collection] = (byCollection[source.collection] ?? 0) + result.indexed;
+      const stale = (before?.chunkIds ?? []).filter((id) => !indexed.ids.includes(id));
+      await store.delete(source.collection, stale);
+      result.purgedChunks += stale.length;
+      if (before) result.updated++;
+      else result.added++;
+      result.totalDocuments += indexed.indexed;
+      byCollection[source.collection] = (byCollection[source.collection] ?? 0) + indexed.indexed;
 
-      console.log(`[seed] ${relativePath} → ${source.collection} (${result.indexed} chunks)`);
+      console.log(
+        `[seed] ${relativePath} → ${source.collection} (${indexed.indexed} chunks${stale.length > 0 ? `, ${stale.length} stale removed` : ""})`,
+      );
     }
   }
 
+  for (const [collection, entries] of Object.entries(previous.collections)) {
+    for (const [relativePath, entry] of Object.entries(entries)) {
+      if (seen.has(`${collection}\0${relativePath}`)) continue;
+      if (only !== undefined && !only.has(relativePath)) continue;
+      delete next.collections[collection]?.[relativePath];
+      await store.delete(collection, entry.chunkIds);
+      result.removed++;
+      result.purgedChunks += entry.chunkIds.length;
+      console.log(
+        `[seed] ${relativePath} removed from ${collection} (${entry.chunkIds.length} chunks)`,
+      );
+    }
+  }
+
+  await saveSeedManifest(manifestPath, next);
+  result.durationMs = Date.now() - start;
+  return result;
+}
+
+// ── Watch mode ────────────────────────────────────────────────────────────────
+
+export interface WatchOptions {
+  /** Quiet period after the last change before re-indexing (default: 300 ms) */
+  debounceMs?: number;
+  /** Where the seed manifest lives (default: SEED_MANIFEST or ./__seed__/manifest.json) */
+  manifestPath?: string;
+  /** Called after each re-index with the workspace-relative paths it covered */
+  onSeed?: (result: SeedResult, paths: string[]) => void;
+}
+
+export interface ContextWatcher {
+  /** Stop watching. A re-index already in progress still finishes. */
+  close(): void;
+}
+
+/**
+ * Watch every source glob and re-index touched files as they change.
+ *
+ * Changes are debounced, then the touched paths go through seedContext() with
+ * `paths` — a changed file is re-indexed into its source's collection and
+ * priority, a deleted one has its chunks removed, and the manifest is kept
+ * current. Re-indexes run one at a time; a failure is logged and the watcher
+ * keeps going. Does not seed first — run seedContext() before watching.
+ */
+export function watchContext(
+  sources?: SeedSource[],
+  root = process.cwd(),
+  options: WatchOptions = {},
+): ContextWatcher {
+  const { debounceMs = 300, manifestPath, onSeed } = options;
+  const seedSources = sources ?? loadSeedSources(root);
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let queue = Promise.resolve();
+
+  const flush = (): void => {
+    timer = undefined;
+    const paths = [...pending];
+    pending.clear();
+    queue = queue.then(async () => {
+      try {
+        const result = await seedContext(seedSources, root, {
+          paths,
+          ...(manifestPath !== undefined ? { manifestPath } : {}),
+        });
+        onSeed?.(result, paths);
+      } catch (err) {
+        console.error("[seed] Re-index failed:", err instanceof Error ? err.message : err);
+      }
+    });
+  };
+
+  const watchers = watchRoots(seedSources, root).map((dir) =>
+    watch(dir, { recursive: true }, (_event, filename) => {
+      if (filename === null) return;
+      pending.add(relative(root, join(dir, filename)));
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    }).on("error", (err) => console.error(`[seed] Watching ${dir} failed:`, err.message)),
+  );
+
   return {
-    totalFiles,
-    totalDocuments,
-    byCollection,
-    durationMs: Date.now() - start,
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers) watcher.close();
+    },
   };
 }
 
+/**
+ * The directories to watch for `sources`: each pattern's static prefix (or
+ * its nearest existing ancestor), without directories nested in another.
+ */
+function watchRoots(sources: SeedSource[], root: string): string[] {
+  const dirs = sources.map(({ pattern }) => {
+    const parts = pattern.split("/");
+    const magic = parts.findIndex((part) => /[*?[\]{}!]/.test(part));
+    let dir = resolve(root, ...(magic === -1 ? parts.slice(0, -1) : parts.slice(0, magic)));
+    while (!existsSync(dir) && dir !== resolve(root)) dir = dirname(dir);
+    return dir;
+  });
+  return [...new Set(dirs)]
+    .sort()
+    .filter((dir, i, sorted) => !sorted.slice(0, i).some((d) => dir.startsWith(`${d}${sep}`)));
+}
+
 // ── Seed script entry point ───────────────────────────────────────────────────
 // Run directly: npx tsx src/core/context/seeder.ts
 
@@ -145,6 +281,9 @@ if (isMain) {
     .then((result) => {
       console.log(`\n[seed] Done in ${result.durationMs}ms`);
       console.log(`  Files:     ${result.totalFiles}`);
+      console.log(
+        `  Changes:   ${result.added} added, ${result.updated} updated, ${result.removed} removed, ${result.unchanged} unchanged`,
+      );
       console.log(`  Chunks:    ${result.totalDocuments}`);
       console.log("  By collection:");
       for (const [col, count] of Object.entries(result.byCollection)) {
@@ -0,0 +1,146 @@
+/**
+ * src/core/context/ts-chunker.ts
+ *
+ * Language-aware chunking for TypeScript sources: one chunk per top-level
+ * declaration, so a file like docs/schema/entities.ts is never split
+ * mid-schema.
+ *
+ *   - Each declaration (schema const, function, class, interface, type, enum,
+ *     namespace) becomes a chunk with its leading JSDoc.
+ *   - An undocumented type alias that refers to the declaration before it —
+ *     e.g. `export type Spec = z.infer<typeof SpecSchema>` — joins its chunk.
+ *   - Consecutive imports/re-exports form one chunk with the file header, and
+ *     each run of other statements forms one chunk.
+ *   - Comments that are not JSDoc (section dividers) are left out.
+ *
+ * Chunks are whole declarations of any size; indexer.ts splits oversized ones.
+ *
+ * Chunk metadata: `symbol`, `kind`, `startLine` and `endLine` (1-based).
+ */
+
+import ts from "typescript";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type DeclarationKind =
+  | "schema"
+  | "function"
+  | "class"
+  | "interface"
+  | "type"
+  | "enum"
+  | "namespace"
+  | "variable"
+  | "imports"
+  | "statements";
+
+export interface CodeChunk {
+  content: string;
+  metadata: {
+    /** Declared name(s), comma-separated; empty for imports and statements */
+    symbol: string;
+    kind: DeclarationKind;
+    startLine: number;
+    endLine: number;
+  };
+}
+
+/** Extensions chunkText() routes to chunkTypeScript() */
+export const TYPESCRIPT_EXTENSIONS: ReadonlySet<string> = new Set(["ts", "tsx", "mts", "cts"]);
+
+// ── Chunker ───────────────────────────────────────────────────────────────────
+
+/**
+ * Split TypeScript source into one chunk per top-level declaration — see the
+ * file header. Never throws: the parser recovers from syntax errors.
+ *
+ * @param extension - File extension without the dot; "tsx" enables JSX.
+ */
+export function chunkTypeScript(source: string, extension = "ts"): CodeChunk[] {
+  const scriptKind = extension === "tsx" ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const file = ts.createSourceFile(
+    `chunk.${extension}`,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind,
+  );
+  const line = (pos: number) => file.getLineAndCharacterOfPosition(pos).line + 1;
+  const spans: Array<{ start: number; end: number; symbol: string; kind: DeclarationKind }> = [];
+
+  for (const statement of file.statements) {
+    const kind = declarationKind(statement);
+    const symbol = declaredNames(statement).join(", ");
+    const start = leadingJsDocStart(source, statement);
+    const previous = spans.at(-1);
+
+    const groups = kind === "imports" || kind === "statements";
+    const aliasesPrevious =
+      kind === "type" &&
+      previous !== undefined &&
+      start === statement.getStart(file) &&
+      previous.symbol
+        .split(", ")
+        .some((name) => name !== "" && new RegExp(`\\b${name}\\b`).test(statement.getText(file)));
+    if (previous && ((groups && previous.kind === kind) || aliasesPrevious)) {
+      previous.end = statement.end;
+      continue;
+    }
+    spans.push({ start, end: statement.end, symbol, kind });
+  }
+
+  // The file header belongs to the first chunk, whatever it is
+  const first = spans[0];
+  if (first) first.start = 0;
+
+  return spans.map(({ start, end, symbol, kind }) => ({
+    content: source.slice(start, end).trim(),
+    metadata: { symbol, kind, startLine: line(start), endLine: line(end) },
+  }));
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function declarationKind(node: ts.Statement): DeclarationKind {
+  if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return "imports";
+  if (ts.isExportDeclaration(node)) return "imports";
+  if (ts.isFunctionDeclaration(node)) return "function";
+  if (ts.isClassDeclaration(node)) return "class";
+  if (ts.isInterfaceDeclaration(node)) return "interface";
+  if (ts.isTypeAliasDeclaration(node)) return "type";
+  if (ts.isEnumDeclaration(node)) return "enum";
+  if (ts.isModuleDeclaration(node)) return "namespace";
+  if (ts.isVariableStatement(node)) {
+    // A Zod schema: `z.object(...)`, or derived from one (`BaseSchema.extend(...)`)
+    const declaration = node.declarationList.declarations[0];
+    const init = declaration?.initializer?.getText() ?? "";
+    const name = declaration?.name.getText() ?? "";
+    return /^z\s*\./.test(init) || /Schema$/.test(name) ? "schema" : "variable";
+  }
+  return "statements";
+}
+
+function declaredNames(node: ts.Statement): string[] {
+  if (ts.isVariableStatement(node)) {
+    return node.declarationList.declarations.map((d) => d.name.getText());
+  }
+  if (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isClassDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)) &&
+    node.name !== undefined
+  ) {
+    return [node.name.getText()];
+  }
+  return [];
+}
+
+/** Where `node`'s leading JSDoc starts, or the node itself if it has none. */
+function leadingJsDocStart(source: string, node: ts.Node): number {
+  const comments = ts.getLeadingCommentRanges(source, node.getFullStart()) ?? [];
+  const jsDoc = comments.find((c) => source.startsWith("/**", c.pos));
+  return jsDoc?.pos ?? node.getStart();
+}
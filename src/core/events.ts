@@ -0,0 +1,247 @@
+/**
+ * src/core/events.ts
+ *
+ * Typed event plumbing for flywheel runs.
+ *
+ *   - FlywheelEventEmitter — subscribe to specific event types (or all of them)
+ *   - iterateEvents        — turn a callback-driven run into an async iterator
+ *   - renderEventToConsole — the CLI's human-readable renderer
+ *
+ * Event shapes are defined by `FlywheelEventSchema` in docs/schema/entities.ts.
+ */
+
+import type { FlywheelEvent, FlywheelEventType } from "../../docs/schema/entities.js";
+import { formatUsd } from "./guardrails/budget.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FlywheelEventListener<T extends FlywheelEventType = FlywheelEventType> = (
+  event: Extract<FlywheelEvent, { type: T }>,
+) => void;
+
+// ── FlywheelEventEmitter ──────────────────────────────────────────────────────
+
+/**
+ * Minimal typed pub/sub for flywheel events.
+ *
+ * @example
+ * const events = new FlywheelEventEmitter();
+ * events.on("stage:end", (e) => metrics.timing(e.stage, e.durationMs));
+ * await runFlywheel(brief, { onEvent: events.emit });
+ */
+export class FlywheelEventEmitter {
+  private readonly listeners = new Map<FlywheelEventType | "*", Set<FlywheelEventListener>>();
+
+  /** Subscribe to one event type. Returns an unsubscribe function. */
+  on<T extends FlywheelEventType>(type: T, listener: FlywheelEventListener<T>): () => void {
+    return this.add(type, listener as unknown as FlywheelEventListener);
+  }
+
+  /** Subscribe to every event. Returns an unsubscribe function. */
+  onAny(listener: FlywheelEventListener): () => void {
+    return this.add("*", listener);
+  }
+
+  /**
+   * Publish an event to its subscribers. Bound, so it can be passed directly
+   * as `FlywheelOptions.onEvent`. A throwing listener never breaks the run.
+   */
+  readonly emit = (event: FlywheelEvent): void => {
+    for (const key of [event.type, "*"] as const) {
+      for (const listener of this.listeners.get(key) ?? []) {
+        try {
+          listener(event);
+        } catch (err) {
+          console.error(`[events] Listener for "${event.type}" threw:`, err);
+        }
+      }
+    }
+  };
+
+  private add(key: FlywheelEventType | "*", listener: FlywheelEventListener): () => void {
+    let set = this.listeners.get(key);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(key, set);
+    }
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+}
+
+// ── Async iteration ───────────────────────────────────────────────────────────
+
+/**
+ * Run `start` with an emit callback and yield every event it publishes, in
+ * order. If `start` rejects, the error is re-thrown after all events emitted
+ * before the failure have been yielded.
+ *
+ * Breaking out of the loop early stops iteration but not the underlying run.
+ */
+export async function* iterateEvents(
+  start: (emit: (event: FlywheelEvent) => void) => Promise<unknown>,
+): AsyncGenerator<FlywheelEvent, void, undefined> {
+  const queue: FlywheelEvent[] = [];
+  let wake: (() => void) | undefined;
+  let done = false;
+  let failed = false;
+  let failure: unknown;
+
+  start((event) => {
+    queue.push(event);
+    wake?.();
+  })
+    .catch((err: unknown) => {
+      failed = true;
+      failure = err;
+    })
+    .finally(() => {
+      done = true;
+      wake?.();
+    });
+
+  while (true) {
+    const next = queue.shift();
+    if (next !== undefined) {
+      yield next;
+      continue;
+    }
+    if (done) break;
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+    wake = undefined;
+  }
+
+  if (failed) throw failure;
+}
+
+// ── Console renderer ──────────────────────────────────────────────────────────
+
+/**
+ * Render a flywheel event as human-readable console output.
+ * Used by the `pnpm flywheel` CLI; pass as `onEvent` to get the same output
+ * when running the flywheel from code. Agents and guardrails never print
+ * themselves — this is the only place run progress reaches the console.
+ */
+export function renderEventToConsole(event: FlywheelEvent): void {
+  switch (event.type) {
+    case "run:start":
+      console.log("─".repeat(60));
+      console.log("🌀 Knowledge Flywheel");
+      console.log(`   Run ID : ${event.runId}`);
+      console.log(`   Brief  : ${event.brief.slice(0, 80)}`);
+      console.log(`   Time   : ${new Date().toISOString()}`);
+      console.log("─".repeat(60));
+      if (event.resumed) console.log("[flywheel] ↻ Resuming from checkpoints");
+      break;
+
+    case "stage:start":
+      console.log(`\n${event.label}`);
+      break;
+
+    case "stage:end":
+      if (event.status === "skipped") {
+        console.log(`[flywheel] ${event.stage} skipped`);
+      } else if (event.status === "checkpoint") {
+        console.log(`[flywheel] ↻ ${event.stage} restored from checkpoint`);
+      } else if (event.summary !== undefined) {
+        console.log(`[flywheel] ${event.summary}`);
+      }
+      break;
+
+    case "agent:log":
+      if (event.level === "warn") {
+        console.warn(`[${event.agent}] ⚠️  ${event.message}`);
+      } else {
+        console.log(`[${event.agent}] ${event.message}`);
+      }
+      break;
+
+    case "tool:call":
+      console.log(`[${event.agent}] ↳ tool: ${event.toolName}`);
+      break;
+
+    case "guardrail:retry":
+      console.warn(
+        `[guardrail] ${event.label}: attempt ${event.attempt}/${event.maxAttempts} failed — requesting self-correction...`,
+      );
+      break;
+
+    case "model:fallback":
+      console.warn(
+        `[${event.agent}] ⚠️  ${event.from} (${event.error}) — falling back to ${event.to}`,
+      );
+      break;
+
+    case "repair:round":
+      console.log(
+        `[flywheel] 🔧 Repair round ${event.round}/${event.maxRounds}: ${event.findings} finding(s) fed back — audit ${event.passed ? "PASSED ✓" : "still failing ✗"}`,
+      );
+      break;
+
+    case "logic:rework":
+      console.log(
+        `[flywheel] 🔁 Rework attempt ${event.attempt}/${event.maxAttempts}: ${event.issues} Logic Critic issue(s) fed back — review ${event.passed ? "PASSED ✓" : "still failing ✗"}`,
+      );
+      break;
+
+    case "verification": {
+      const ran = event.steps - event.skipped.length;
+      if (event.passed) {
+        console.log(`[flywheel] 🧪 Verification PASSED — ${ran} step(s) ran`);
+      } else {
+        console.warn(`[flywheel] 🧪 Verification FAILED — ${event.failed.join(" | ")}`);
+      }
+      if (event.skipped.length > 0) {
+        console.log(`[flywheel]    skipped (not allow-listed): ${event.skipped.join(" | ")}`);
+      }
+      break;
+    }
+
+    case "trust-gate":
+      if (event.passed) {
+        console.log(
+          "[flywheel] ✅ Trust Gate PASSED — auto-merging (Security Sentinel + Logic Critic: Perfect Pass)",
+        );
+      } else {
+        console.warn(`[flywheel] ⚠️  Trust Gate FAILED — ${event.reasons.join(" | ")}`);
+      }
+      break;
+
+    case "run:complete": {
+      const { result } = event;
+      console.log(`\n${"─".repeat(60)}`);
+      console.log(`✅ Flywheel complete in ${(event.durationMs / 1000).toFixed(1)}s`);
+      console.log(`   Spec    : ${result.spec.title}`);
+      console.log(`   Files   : ${Object.keys(result.polished.files).length}`);
+      console.log(
+        `   Audit   : ${result.audit.passed ? "PASSED ✓" : "FAILED ✗"} (${result.audit.findings.length} findings)`,
+      );
+      if (result.usage) {
+        console.log(
+          `   Usage   : ${result.usage.totalTokens.toLocaleString("en-US")} tokens · ${formatUsd(result.usage.costUsd)}`,
+        );
+      }
+      const fallbacks = (result.models ?? []).filter((m) => m.failedOver.length > 0);
+      if (fallbacks.length > 0) {
+        console.log(
+          `   Fallback: ${fallbacks.map((m) => `${m.stage}/${m.agent} → ${m.model}`).join(", ")}`,
+        );
+      }
+      console.log("─".repeat(60));
+      break;
+    }
+
+    case "run:error":
+      console.error(
+        `\n[flywheel] ✗ Run ${event.runId} failed after ${(event.durationMs / 1000).toFixed(1)}s`,
+      );
+      break;
+
+    // retrieval is summarised by each agent's own agent:log line;
+    // usage is summarised on run:complete.
+    default:
+      break;
+  }
+}
@@ -10,25 +10,43 @@
  *   4. Security Verification (Security & DX Lead)
  *   5. Human Polish    (Vibe Engineer)
  *
- * Every stage's output is type-validated before being passed to the next.
+ * Stages are defined in stages.ts and executed by the pipeline runner in
+ * pipeline.ts; pass `FlywheelOptions.pipeline` to insert or remove stages.
+ * Every stage's input and output is type-validated before being passed on.
  * Findings and golden examples accumulate in ChromaDB — the flywheel spins
  * faster with every run.
  *
+ * Each validated stage output is checkpointed under __runs__/<runId>/ so an
+ * interrupted run can be resumed without re-paying for completed stages.
+ *
+ * Progress is published as structured FlywheelEvents (see events.ts) rather
+ * than printed; the CLI renders them to the console.
+ *
  * Entry points:
  *   - CLI:    npm run flywheel "<brief>"
- *   - Import: import { runFlywheel } from "./src/core/flywheel.js"
+ *   - CLI:    npm run flywheel -- --resume <runId>
+ *   - CLI:    npm run flywheel -- --apply "<brief>"   (commit the result to a branch)
+ *   - CLI:    npm run flywheel -- --verify "<brief>"  (run the artifact's verificationSteps)
+ *   - Import: import { runFlywheel, resumeFlywheel, streamFlywheel } from "./src/core/flywheel.js"
  */
 
 import { randomUUID } from "node:crypto";
 import { stdin as input, stdout as output } from "node:process";
 import { createInterface } from "node:readline/promises";
-import type { FlywheelResult, TechSpec } from "../../docs/schema/entities.js";
-import { auditArtifact } from "./agents/auditor.js";
-import { executeSpec } from "./agents/executor.js";
-import { runLogicReview } from "./agents/logic-critic.js";
-import { planFeature } from "./agents/planner.js";
-import { polishOutput } from "./agents/polisher.js";
-import { seedContext } from "./context/seeder.js";
+import { z } from "zod";
+import {
+  type FlywheelEvent,
+  type FlywheelResult,
+  ModelServingSchema,
+  RunUsageSchema,
+  type TechSpec,
+} from "../../docs/schema/entities.js";
+import { applyArtifact } from "./apply.js";
+import { CheckpointStore, RunManifestSchema } from "./checkpoints.js";
+import { iterateEvents, renderEventToConsole } from "./events.js";
+import { type Budget, type PriceTable, UsageMeter } from "./guardrails/budget.js";
+import { type AnyFlywheelStage, type FlywheelState, runPipeline } from "./pipeline.js";
+import { DEFAULT_STAGES } from "./stages.js";
 
 // ── Flywheel ──────────────────────────────────────────────────────────────────
 
@@ -37,6 +55,37 @@ export interface FlywheelOptions {
   reseed?: boolean;
   /** Abort after the audit if it fails (default: false — polish runs regardless) */
   haltOnAuditFailure?: boolean;
+  /**
+   * Maximum executor → auditor repair rounds when the audit fails.
+   *
+   * Each round feeds the critical/high findings back into `executeSpec` as
+   * repair instructions and re-audits the result, stopping early once the
+   * audit passes. Every round is kept in `FlywheelResult.repairRounds`.
+   * `haltOnAuditFailure` then applies to the final round's audit.
+   *
+   * @default 0 — no repair; a failed audit goes straight on to polish
+   */
+  repairRounds?: number;
+  /**
+   * Run the artifact's `verificationSteps` after the audit (and any repair
+   * rounds), in a scratch workspace with the artifact materialized.
+   *
+   * Only allow-listed commands run — typecheck/lint/test scripts,
+   * `verificationScripts`, and `tsc` / `biome` / `vitest run` — the rest are
+   * recorded as skipped. Exit codes and output land in
+   * `FlywheelResult.verification`; a failed step fails the Trust Gate.
+   *
+   * @default false
+   */
+  verify?: boolean;
+  /**
+   * Extra package.json script names a verification step may run, on top of
+   * typecheck, lint, test, test:unit and check:layers.
+   *
+   * @example
+   * runFlywheel(brief, { verify: true, verificationScripts: ["test:integration"] })
+   */
+  verificationScripts?: string[];
   /**
    * Autonomous Merge (Harness Engineering — Trust Gate).
    *
@@ -47,13 +96,50 @@ export interface FlywheelOptions {
    * Trust Gate conditions:
    *   • `audit.passed === true` (zero critical/high security findings)
    *   • `logicReview.passed === true` (all acceptance criteria covered)
+   *   • no failed verification step (when `verify` is on)
    *
    * If either check fails, execution falls back to the `approveSpec` gate
-   * (or throws if `approveSpec` is also absent).
+   * (or throws if `approveSpec` is also absent) — after any automatic
+   * rework allowed by `logicReworkAttempts`.
    *
    * @default false
    */
   autoMerge?: boolean;
+  /**
+   * Maximum automatic rework attempts when the Logic Critic fails the Trust
+   * Gate (autoMerge only).
+   *
+   * Each attempt feeds `LogicReview.issues` back into `executeSpec`, then
+   * re-audits and re-reviews the new artifact, which replaces the previous one
+   * only if both pass. The human (`approveSpec`) is only interrupted once the
+   * attempts are exhausted. Every attempt is kept in
+   * `FlywheelResult.logicReworks`.
+   *
+   * @default 0 — fall back to approveSpec immediately
+   */
+  logicReworkAttempts?: number;
+  /**
+   * Token / dollar ceiling for the whole run (including usage before a resume).
+   *
+   * Every LLM call — agent generations and guardrail self-corrections — is
+   * metered. Once a ceiling is exceeded the run aborts with a `[budget]`
+   * error (and a `run:error` event); completed stages stay checkpointed, so
+   * it can be resumed with a larger budget.
+   *
+   * @example
+   * runFlywheel(brief, { budget: { maxTokens: 200_000, maxCostUsd: 1.5 } })
+   *
+   * @default {} — no ceiling; usage is still reported in `FlywheelResult.usage`
+   */
+  budget?: Budget;
+  /**
+   * USD-per-million-token prices by model ID (or ID prefix), merged over
+   * DEFAULT_PRICES. Models without a price are counted at $0.
+   *
+   * @example
+   * runFlywheel(brief, { prices: { "my-finetune": { input: 3, output: 12 } } })
+   */
+  prices?: PriceTable;
   /**
    * Human-in-the-Loop approval gate, called after Stage 2 (Planning) and
    * before Stage 3 (Execution).
@@ -72,6 +158,31 @@ export interface FlywheelOptions {
    * }})
    */
   approveSpec?: (spec: TechSpec) => Promise<TechSpec>;
+  /**
+   * Root directory for per-run checkpoint folders.
+   * @default process.env.FLYWHEEL_RUNS_DIR ?? "./__runs__"
+   */
+  runsDir?: string;
+  /**
+   * The ordered stages to run. Build one with `createDefaultPipeline()` to
+   * insert custom stages (license checks, test generation, …) or remove
+   * optional ones.
+   * @default DEFAULT_STAGES — seed → plan → approve → execute → audit → repair → verify → trust-gate → polish
+   */
+  pipeline?: readonly AnyFlywheelStage[];
+  /**
+   * Subscriber for structured run events (stage timings, retrievals, tool
+   * calls, guardrail retries, Trust Gate verdicts, completion).
+   *
+   * @example
+   * const events = new FlywheelEventEmitter();
+   * events.on("trust-gate", (e) => postToSlack(e));
+   * runFlywheel(brief, { onEvent: events.emit });
+   *
+   * // Or render exactly like the CLI:
+   * runFlywheel(brief, { onEvent: renderEventToConsole });
+   */
+  onEvent?: (event: FlywheelEvent) => void;
 }
 
 /**
@@ -86,124 +197,149 @@ export async function runFlywheel(
   options: FlywheelOptions = {},
 ): Promise<FlywheelResult> {
   const runId = randomUUID();
-  const startedAt = Date.now();
-
-  console.log("─".repeat(60));
-  console.log(`🌀 Knowledge Flywheel`);
-  console.log(`   Run ID : ${runId}`);
-  console.log(`   Brief  : ${brief.slice(0, 80)}`);
-  console.log(`   Time   : ${new Date().toISOString()}`);
-  console.log("─".repeat(60));
+  const checkpoints = new CheckpointStore(runId, options.runsDir);
+  await checkpoints.save("run", { runId, brief, startedAt: new Date().toISOString() });
 
-  // ── Stage 1: Context Seeding ───────────────────────────────────────────────
-  if (options.reseed) {
-    console.log("\n📚 Stage 1 — Context Seeding");
-    const seedResult = await seedContext();
-    console.log(
-      `[flywheel] Seeded ${seedResult.totalDocuments} chunks from ${seedResult.totalFiles} files`,
-    );
-  } else {
-    console.log("\n📚 Stage 1 — Context Seeding (skipped; run with reseed:true to refresh)");
-  }
+  return executeRun(brief, checkpoints, options, false);
+}
 
-  // ── Stage 2: Strategic Planning ────────────────────────────────────────────
-  console.log("\n📐 Stage 2 — Strategic Planning");
-  const spec = await planFeature(brief);
+/**
+ * Run the flywheel and consume its events as an async iterator.
+ *
+ * The final event is `run:complete` (carrying the FlywheelResult) or
+ * `run:error`, after which the iterator re-throws the run's error.
+ *
+ * @example
+ * for await (const event of streamFlywheel("Add /health endpoint")) {
+ *   if (event.type === "stage:end") console.log(event.stage, event.durationMs);
+ * }
+ */
+export function streamFlywheel(
+  brief: string,
+  options: FlywheelOptions = {},
+): AsyncGenerator<FlywheelEvent, void, undefined> {
+  return iterateEvents((emit) =>
+    runFlywheel(brief, {
+      ...options,
+      onEvent: (event) => {
+        options.onEvent?.(event);
+        emit(event);
+      },
+    }),
+  );
+}
 
-  // ── HITL Approval Gate (optional) ─────────────────────────────────────────
-  let approvedSpec = spec;
-  if (options.approveSpec && !options.autoMerge) {
-    // When autoMerge:true the Trust Gate (post-Stage 4) takes over from the HITL gate.
-    console.log("\n⏸  Awaiting approval — inspect the spec above, then respond.");
-    approvedSpec = await options.approveSpec(spec);
-    console.log("[flywheel] ✓ Spec approved — proceeding to execution.");
+/**
+ * Resume an interrupted flywheel run from its persisted checkpoints.
+ *
+ * Every stage whose validated output is already on disk is skipped; execution
+ * picks up at the first stage with no checkpoint. Resuming a completed run
+ * simply re-assembles its FlywheelResult.
+ *
+ * @param runId - The `runId` of the run to resume.
+ * @param options - Runtime flags for the remaining stages (`runsDir` must match the original run).
+ * @throws {Error} if no run manifest exists for `runId`.
+ */
+export async function resumeFlywheel(
+  runId: string,
+  options: FlywheelOptions = {},
+): Promise<FlywheelResult> {
+  const checkpoints = new CheckpointStore(runId, options.runsDir);
+  const manifest = await checkpoints.load("run", RunManifestSchema);
+  if (!manifest) {
+    throw new Error(`[flywheel] No checkpoints found for run ${runId} in ${checkpoints.dir}`);
   }
 
-  // ── Stage 3: Agentic Execution ─────────────────────────────────────────────
-  console.log("\n⚙️  Stage 3 — Agentic Execution");
-  const artifact = await executeSpec(approvedSpec);
+  return executeRun(manifest.brief, checkpoints, options, true);
+}
 
-  // ── Stage 4: Security Verification ────────────────────────────────────────
-  console.log("\n🔒 Stage 4 — Security Verification");
-  const audit = await auditArtifact(artifact);
+// ── Stage runner ──────────────────────────────────────────────────────────────
 
-  if (!audit.passed && options.haltOnAuditFailure) {
-    const highFindings = audit.findings
-      .filter((f) => f.severity === "critical" || f.severity === "high")
-      .map((f) => `  [${f.severity.toUpperCase()}] ${f.description}`)
-      .join("\n");
-    throw new Error(
-      `[flywheel] Audit failed — halting as requested.\n\nHigh-severity findings:\n${highFindings}`,
-    );
-  }
+async function executeRun(
+  brief: string,
+  checkpoints: CheckpointStore,
+  options: FlywheelOptions,
+  resumed: boolean,
+): Promise<FlywheelResult> {
+  const { runId } = checkpoints;
+  const startedAt = Date.now();
+  const emit = options.onEvent ?? (() => {});
 
-  // ── Trust Gate (Harness Engineering — autoMerge) ───────────────────────────
-  let autoMerged = false;
-  let logicReviewPassed: boolean | undefined;
+  emit({ type: "run:start", runId, brief, resumed });
 
-  if (options.autoMerge) {
-    console.log("\n🤖 Trust Gate — Logic Critic review");
-    const logicReview = await runLogicReview(approvedSpec, artifact);
-    logicReviewPassed = logicReview.passed;
+  // Usage spent before a resume still counts towards the budget.
+  const previousUsage = await checkpoints.load("usage", RunUsageSchema);
+  const meter = new UsageMeter({
+    ...(options.prices !== undefined ? { prices: options.prices } : {}),
+    ...(options.budget !== undefined ? { budget: options.budget } : {}),
+    ...(previousUsage !== undefined ? { initial: previousUsage } : {}),
+  });
 
-    const perfectPass = audit.passed && logicReview.passed;
+  // So does the model log — the result reports every call's model.
+  const previousModels = await checkpoints.load("models", z.array(ModelServingSchema));
 
-    if (perfectPass) {
-      console.log(
-        "[flywheel] ✅ Trust Gate PASSED — auto-merging (Security Sentinel + Logic Critic: Perfect Pass)",
+  try {
+    const state: FlywheelState = {
+      runId,
+      brief,
+      outputs: {},
+      ...(previousModels !== undefined ? { models: previousModels } : {}),
+    };
+    try {
+      await runPipeline(
+        options.pipeline ?? DEFAULT_STAGES,
+        state,
+        options,
+        checkpoints,
+        emit,
+        meter,
       );
-      autoMerged = true;
-      // Skip the approveSpec HITL gate entirely — both sentinels returned Perfect Pass.
-    } else {
-      const failReasons: string[] = [];
-      if (!audit.passed)
-        failReasons.push(
-          `Security Sentinel: ${audit.findings.filter((f) => f.severity === "critical" || f.severity === "high").length} critical/high finding(s)`,
-        );
-      if (!logicReview.passed) failReasons.push(`Logic Critic: ${logicReview.issues.join("; ")}`);
-
-      console.warn(`[flywheel] ⚠️  Trust Gate FAILED — ${failReasons.join(" | ")}`);
-
-      if (options.approveSpec) {
-        console.log("\n⏸  Trust Gate failed — falling back to manual approval gate.");
-        approvedSpec = await options.approveSpec(approvedSpec);
-        console.log("[flywheel] ✓ Manual approval received.");
-      } else {
-        throw new Error(
-          `[flywheel] Trust Gate failed and no approveSpec fallback is configured.\n\n${failReasons.join("\n")}`,
-        );
-      }
+    } finally {
+      await checkpoints.save("usage", meter.totals());
+      await checkpoints.save("models", state.models ?? []);
     }
-  }
 
-  // ── Stage 5: Human Polish ──────────────────────────────────────────────────
-  console.log("\n✨ Stage 5 — Human Polish");
-  const polished = await polishOutput(artifact, audit);
+    const { spec, artifact, audit } = state;
+    if (!spec || !artifact || !audit) {
+      throw new Error("[flywheel] Pipeline finished without producing a spec, artifact and audit.");
+    }
+    // A pipeline without a polish stage reports the executor's artifact as final.
+    const polished = state.polished ?? artifact;
 
-  // ── Result ─────────────────────────────────────────────────────────────────
-  const durationMs = Date.now() - startedAt;
-  const result: FlywheelResult = {
-    runId,
-    brief,
-    spec,
-    artifact,
-    audit,
-    polished,
-    completedAt: new Date().toISOString(),
-    durationMs,
-    ...(options.autoMerge !== undefined ? { autoMerged, logicReviewPassed } : {}),
-  };
+    // ── Result ───────────────────────────────────────────────────────────────
+    const durationMs = Date.now() - startedAt;
+    const result: FlywheelResult = {
+      runId,
+      brief,
+      spec,
+      ...(state.approvedSpec !== undefined ? { approvedSpec: state.approvedSpec } : {}),
+      artifact,
+      audit,
+      polished,
+      completedAt: new Date().toISOString(),
+      durationMs,
+      ...(options.autoMerge !== undefined
+        ? { autoMerged: state.autoMerged ?? false, logicReviewPassed: state.logicReview?.passed }
+        : {}),
+      ...(state.repairRounds !== undefined ? { repairRounds: state.repairRounds } : {}),
+      ...(state.logicReworks !== undefined ? { logicReworks: state.logicReworks } : {}),
+      ...(state.verification !== undefined ? { verification: state.verification } : {}),
+      usage: meter.totals(),
+      models: state.models ?? [],
+    };
 
-  console.log("\n" + "─".repeat(60));
-  console.log(`✅ Flywheel complete in ${(durationMs / 1000).toFixed(1)}s`);
-  console.log(`   Spec    : ${spec.title}`);
-  console.log(`   Files   : ${Object.keys(polished.files).length}`);
-  console.log(
-    `   Audit   : ${audit.passed ? "PASSED ✓" : "FAILED ✗"} (${audit.findings.length} findings)`,
-  );
-  console.log("─".repeat(60));
-
-  return result;
+    await checkpoints.save("result", result);
+    emit({ type: "run:complete", runId, durationMs, result });
+    return result;
+  } catch (err) {
+    emit({
+      type: "run:error",
+      runId,
+      durationMs: Date.now() - startedAt,
+      message: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
 }
 
 // ── HITL helpers ─────────────────────────────────────────────────────────────
@@ -260,14 +396,42 @@ const isMain =
 if (isMain) {
   const args = process.argv.slice(2);
   const approveFlag = args.includes("--approve");
+  const applyFlag = args.includes("--apply");
+  const verifyFlag = args.includes("--verify");
+  const resumeIdx = args.indexOf("--resume");
+  const resumeRunId = resumeIdx !== -1 ? args[resumeIdx + 1] : undefined;
+  if (resumeIdx !== -1 && resumeRunId === undefined) {
+    console.error("[flywheel] --resume requires a runId");
+    process.exit(1);
+  }
+  const briefArgs =
+    resumeIdx !== -1 ? [...args.slice(0, resumeIdx), ...args.slice(resumeIdx + 2)] : args;
   const brief =
-    args.filter((a) => a !== "--approve").join(" ") || "Add a hello-world REST endpoint";
+    briefArgs.filter((a) => !["--approve", "--apply", "--verify"].includes(a)).join(" ") ||
+    "Add a hello-world REST endpoint";
 
-  runFlywheel(brief, {
+  const options: FlywheelOptions = {
     reseed: false,
+    onEvent: renderEventToConsole,
     ...(approveFlag ? { approveSpec: createCliApprovalFn() } : {}),
-  }).catch((err: unknown) => {
-    console.error("[flywheel] Fatal error:", err);
-    process.exit(1);
-  });
+    ...(verifyFlag ? { verify: true } : {}),
+  };
+
+  (resumeRunId !== undefined ? resumeFlywheel(resumeRunId, options) : runFlywheel(brief, options))
+    .then(async (result) => {
+      if (applyFlag) {
+        const applied = await applyArtifact({
+          spec: result.approvedSpec ?? result.spec,
+          artifact: result.polished,
+          audit: result.audit,
+        });
+        console.log(
+          `[apply] ✓ ${applied.files.length} file(s) committed to ${applied.branch} (${applied.commit.slice(0, 8)})`,
+        );
+      }
+    })
+    .catch((err: unknown) => {
+      console.error("[flywheel] Fatal error:", err);
+      process.exit(1);
+    });
 }
@@ -0,0 +1,196 @@
+/**
+ * src/core/guardrails/budget.ts
+ *
+ * Token and cost accounting for flywheel runs.
+ *
+ * Every LLM call an agent makes — its own generation and any guardrail
+ * self-correction — is reported to a `UsageMeter`, which prices it from a
+ * per-model table, keeps per-stage subtotals, and enforces the run's
+ * `Budget`. Exceeding the token or dollar ceiling throws, which aborts the
+ * run after the current call; completed stages stay checkpointed, so the run
+ * can be resumed with a larger budget.
+ *
+ * Prices are USD per million tokens. Override or extend DEFAULT_PRICES with
+ * `FlywheelOptions.prices`; models with no entry are counted at $0 and their
+ * records flagged `unpriced`, so a dollar budget cannot see them.
+ */
+
+import type { RunUsage, UsageRecord, UsageTotals } from "../../../docs/schema/entities.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Model ID (or ID prefix, e.g. "gpt-4o") → price. The longest matching prefix wins. */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Run ceilings. Either may be omitted; an empty budget never aborts. */
+export interface Budget {
+  /** Maximum prompt + completion tokens across the run */
+  maxTokens?: number;
+  /** Maximum cost in USD across the run, priced from the run's PriceTable */
+  maxCostUsd?: number;
+}
+
+/** What an agent reports about one LLM call; the meter adds stage, totals and cost. */
+export interface AgentUsage {
+  agent: string;
+  model: string;
+  kind: UsageRecord["kind"];
+  attempt?: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// ── Prices ────────────────────────────────────────────────────────────────────
+
+/** List prices at the time of writing — check your provider's pricing page. */
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  // Offline ScriptedLanguageModel (LLM_SCRIPT) — free, but still metered.
+  scripted: { input: 0, output: 0 },
+};
+
+/**
+ * Price for a model ID: an exact entry, else the longest prefix
+ * (so "gpt-4o-2024-08-06" uses "gpt-4o", but "gpt-4o-mini" uses its own).
+ */
+export function priceFor(
+  model: string,
+  prices: PriceTable = DEFAULT_PRICES,
+): ModelPrice | undefined {
+  const exact = prices[model];
+  if (exact) return exact;
+  const prefix = Object.keys(prices)
+    .filter((p) => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? prices[prefix] : undefined;
+}
+
+/** Cost in USD of `promptTokens` in and `completionTokens` out, or 0 if the model has no price. */
+export function costOf(
+  model: string,
+  { promptTokens, completionTokens }: { promptTokens: number; completionTokens: number },
+  prices: PriceTable = DEFAULT_PRICES,
+): number {
+  const price = priceFor(model, prices);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+// ── UsageMeter ────────────────────────────────────────────────────────────────
+
+export class UsageMeter {
+  private readonly prices: PriceTable;
+  private readonly budget: Budget;
+  private readonly records: UsageRecord[];
+
+  /**
+   * @param options.prices - Merged over DEFAULT_PRICES.
+   * @param options.initial - Usage already spent (e.g. before a resume); counts towards the budget.
+   */
+  constructor(options: { prices?: PriceTable; budget?: Budget; initial?: RunUsage } = {}) {
+    this.prices = { ...DEFAULT_PRICES, ...options.prices };
+    this.budget = options.budget ?? {};
+    this.records = [...(options.initial?.records ?? [])];
+  }
+
+  /**
+   * Price and record one call. Does not check the budget — call
+   * `assertWithinBudget()` afterwards.
+   *
+   * @returns The stored record, flagged `unpriced` when the model has no price.
+   */
+  record(stage: string, usage: AgentUsage): UsageRecord {
+    const promptTokens = tokenCount(usage.promptTokens);
+    const completionTokens = tokenCount(usage.completionTokens);
+    const priced = priceFor(usage.model, this.prices) !== undefined;
+
+    const record: UsageRecord = {
+      stage,
+      agent: usage.agent,
+      model: usage.model,
+      kind: usage.kind,
+      ...(usage.attempt !== undefined ? { attempt: usage.attempt } : {}),
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: costOf(usage.model, { promptTokens, completionTokens }, this.prices),
+      ...(priced ? {} : { unpriced: true as const }),
+    };
+    this.records.push(record);
+    return record;
+  }
+
+  /**
+   * @throws {Error} if the recorded usage exceeds either budget ceiling.
+   */
+  assertWithinBudget(): void {
+    const { totalTokens, costUsd } = this.totals();
+    const { maxTokens, maxCostUsd } = this.budget;
+    const exceeded: string[] = [];
+    if (maxTokens !== undefined && totalTokens > maxTokens) {
+      exceeded.push(`${totalTokens} tokens > maxTokens ${maxTokens}`);
+    }
+    if (maxCostUsd !== undefined && costUsd > maxCostUsd) {
+      exceeded.push(`${formatUsd(costUsd)} > maxCostUsd ${formatUsd(maxCostUsd)}`);
+    }
+    if (exceeded.length > 0) {
+      throw new Error(
+        `[budget] Run budget exceeded: ${exceeded.join(", ")}. Completed stages are checkpointed — raise the budget and resume the run to continue.`,
+      );
+    }
+  }
+
+  /** Run totals, per-stage subtotals and every record so far. */
+  totals(): RunUsage {
+    const byStage: Record<string, UsageTotals> = {};
+    for (const r of this.records) {
+      byStage[r.stage] = addTotals(byStage[r.stage] ?? emptyTotals(), r);
+    }
+    return {
+      ...this.records.reduce(addTotals, emptyTotals()),
+      byStage,
+      records: [...this.records],
+    };
+  }
+}
+
+/** "$0.0123" — four decimals, since single calls are often fractions of a cent. */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(4)}`;
+}
+
+// ── Internals ─────────────────────────────────────────────────────────────────
+
+function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+function addTotals(acc: UsageTotals, r: UsageTotals): UsageTotals {
+  return {
+    promptTokens: acc.promptTokens + r.promptTokens,
+    completionTokens: acc.completionTokens + r.completionTokens,
+    totalTokens: acc.totalTokens + r.totalTokens,
+    costUsd: acc.costUsd + r.costUsd,
+  };
+}
+
+/** Providers that do not report usage yield NaN; count those calls as 0 tokens. */
+function tokenCount(n: number): number {
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+}
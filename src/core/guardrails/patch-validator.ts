@@ -0,0 +1,293 @@
+/**
+ * src/core/guardrails/patch-validator.ts
+ *
+ * Unified-diff support for `CodeArtifact.patches`.
+ *
+ * Instead of re-emitting a whole file for a one-line change, an agent may put
+ * a unified diff against the current tree under `patches[path]`. This module:
+ *
+ *   - applies such diffs (`applyUnifiedDiff`),
+ *   - checks that every patch in an artifact applies cleanly
+ *     (`findPatchConflicts`, and `withCleanPatches` for the self-correcting
+ *     guardrail — conflicts are fed back to the LLM like any schema issue),
+ *   - resolves an artifact to its final file contents (`materializeFiles`),
+ *   - renders an artifact for review with diff hunks in place of whole files
+ *     (`formatArtifactForReview`).
+ *
+ * "Applies cleanly" means every context and removed line matches the base
+ * file exactly. Like `git apply`, a hunk may sit at an offset from the line
+ * numbers in its header; unlike `patch`, no fuzz is allowed.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { type CodeArtifact, CodeArtifactSchema } from "../../../docs/schema/entities.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/** Returns the current contents of a repository-relative path, or undefined if it does not exist. */
+export type BaseReader = (path: string) => string | undefined;
+
+interface Hunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines, each prefixed with " ", "-" or "+" */
+  lines: string[];
+}
+
+interface ParsedDiff {
+  hunks: Hunk[];
+  /** `--- /dev/null` — the patch creates the file */
+  creates: boolean;
+  /** `+++ /dev/null` — the patch deletes the file */
+  deletes: boolean;
+  /** "\ No newline at end of file" after an old-side line */
+  noEolOld: boolean;
+  /** "\ No newline at end of file" after a new-side line */
+  noEolNew: boolean;
+}
+
+// ── Parsing & applying ────────────────────────────────────────────────────────
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parseUnifiedDiff(diff: string): ParsedDiff {
+  const lines = diff.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+
+  const parsed: ParsedDiff = {
+    hunks: [],
+    creates: false,
+    deletes: false,
+    noEolOld: false,
+    noEolNew: false,
+  };
+  let current: Hunk | undefined;
+  let lastMarker: string | undefined;
+
+  for (const line of lines) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        lines: [],
+      };
+      parsed.hunks.push(current);
+      continue;
+    }
+
+    if (!current) {
+      // File headers; anything else before the first hunk (diff --git, index, mode) is ignored.
+      if (line.startsWith("--- ")) parsed.creates = line.slice(4).startsWith("/dev/null");
+      if (line.startsWith("+++ ")) parsed.deletes = line.slice(4).startsWith("/dev/null");
+      continue;
+    }
+
+    if (line.startsWith("\\")) {
+      if (lastMarker !== "+") parsed.noEolOld = true;
+      if (lastMarker !== "-") parsed.noEolNew = true;
+      continue;
+    }
+
+    // A completely empty line is a blank context line whose leading space was stripped.
+    const body = line === "" ? " " : line;
+    const marker = body[0];
+    if (marker !== " " && marker !== "-" && marker !== "+") {
+      throw new Error(
+        `[patch] Unexpected line in hunk ${parsed.hunks.length}: ${JSON.stringify(line.slice(0, 80))}`,
+      );
+    }
+    current.lines.push(body);
+    lastMarker = marker;
+  }
+
+  if (parsed.hunks.length === 0) {
+    throw new Error("[patch] No hunks found — expected at least one @@ -a,b +c,d @@ header.");
+  }
+
+  parsed.hunks.forEach((hunk, i) => {
+    const oldCount = hunk.lines.filter((l) => l[0] !== "+").length;
+    const newCount = hunk.lines.filter((l) => l[0] !== "-").length;
+    if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+      throw new Error(
+        `[patch] Hunk ${i + 1} header says -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} ` +
+          `but its body has ${oldCount} old and ${newCount} new line(s).`,
+      );
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Apply a single-file unified diff to `original`.
+ *
+ * @param original - Current file contents, or undefined if the file does not exist.
+ * @returns The patched contents, or `null` if the patch deletes the file.
+ * @throws {Error} if the diff is malformed or any hunk does not apply cleanly.
+ */
+export function applyUnifiedDiff(original: string | undefined, diff: string): string | null {
+  const parsed = parseUnifiedDiff(diff);
+  if (parsed.creates && original !== undefined) {
+    throw new Error("[patch] Patch creates a file that already exists.");
+  }
+  if (!parsed.creates && original === undefined) {
+    throw new Error("[patch] Patch modifies a file that does not exist.");
+  }
+
+  const source = splitLines(original ?? "");
+  const out: string[] = [];
+  let cursor = 0;
+  let offset = 0;
+
+  parsed.hunks.forEach((hunk, i) => {
+    const expected = hunk.lines.filter((l) => l[0] !== "+").map((l) => l.slice(1));
+    const replacement = hunk.lines.filter((l) => l[0] !== "-").map((l) => l.slice(1));
+    // oldStart is 1-based; a pure insertion (oldLines 0) names the line it follows.
+    const stated = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+
+    const at = locateHunk(source.lines, expected, stated + offset, cursor);
+    if (at === -1) {
+      throw new Error(
+        `[patch] Hunk ${i + 1} (@@ -${hunk.oldStart},${hunk.oldLines} @@) does not apply — its context or removed lines do not match the file.`,
+      );
+    }
+    out.push(...source.lines.slice(cursor, at), ...replacement);
+    cursor = at + expected.length;
+    offset = at - stated;
+  });
+  out.push(...source.lines.slice(cursor));
+
+  if (parsed.deletes) {
+    if (out.length > 0) {
+      throw new Error("[patch] Deletion patch does not remove every line of the file.");
+    }
+    return null;
+  }
+
+  const eol = parsed.noEolNew ? false : parsed.noEolOld || original === undefined || source.eol;
+  return out.length > 0 ? `${out.join("\n")}${eol ? "\n" : ""}` : "";
+}
+
+// ── Artifact helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Check every patch in an artifact against the base tree.
+ *
+ * @returns One message per problem (`"<path>: <reason>"`); empty when all patches apply cleanly.
+ */
+export function findPatchConflicts(artifact: CodeArtifact, readBase: BaseReader): string[] {
+  const conflicts: string[] = [];
+  for (const [path, diff] of Object.entries(artifact.patches ?? {})) {
+    if (path in artifact.files) {
+      conflicts.push(`${path}: appears in both files and patches — use one or the other.`);
+      continue;
+    }
+    try {
+      applyUnifiedDiff(readBase(path), diff);
+    } catch (err) {
+      conflicts.push(`${path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * CodeArtifactSchema plus a check that every patch applies cleanly to `readBase`.
+ * Pass to the self-correcting guardrail so conflicts are fed back to the LLM.
+ */
+export function withCleanPatches(readBase: BaseReader) {
+  return CodeArtifactSchema.superRefine((artifact, ctx) => {
+    for (const conflict of findPatchConflicts(artifact, readBase)) {
+      ctx.addIssue({ code: "custom", path: ["patches"], message: conflict });
+    }
+  });
+}
+
+/**
+ * Resolve an artifact to final file contents: whole `files` as-is, `patches`
+ * applied to the base tree. Deleted files map to `null`.
+ *
+ * @throws {Error} if any patch does not apply cleanly.
+ */
+export function materializeFiles(
+  artifact: CodeArtifact,
+  readBase: BaseReader,
+): Record<string, string | null> {
+  const conflicts = findPatchConflicts(artifact, readBase);
+  if (conflicts.length > 0) {
+    throw new Error(
+      `[patch] Artifact ${artifact.id} has patches that do not apply:\n${conflicts.join("\n")}`,
+    );
+  }
+
+  const result: Record<string, string | null> = { ...artifact.files };
+  for (const [path, diff] of Object.entries(artifact.patches ?? {})) {
+    result[path] = applyUnifiedDiff(readBase(path), diff);
+  }
+  return result;
+}
+
+/**
+ * Render an artifact's changes for an LLM reviewer: whole files (optionally
+ * truncated to `maxFileChars` each) followed by patches as raw diff hunks.
+ */
+export function formatArtifactForReview(
+  artifact: CodeArtifact,
+  { maxFileChars }: { maxFileChars?: number } = {},
+): string {
+  const files = Object.entries(artifact.files).map(([path, content]) => {
+    const body =
+      maxFileChars !== undefined && content.length > maxFileChars
+        ? `${content.slice(0, maxFileChars)}…`
+        : content;
+    return `// ${path}\n${body}`;
+  });
+  const patches = Object.entries(artifact.patches ?? {}).map(
+    ([path, diff]) => `// ${path} (unified diff against the current tree)\n${diff}`,
+  );
+  return [...files, ...patches].join("\n\n---\n\n");
+}
+
+/** A BaseReader over the working tree rooted at `root` (default: process.cwd()). */
+export function readFromTree(root: string = process.cwd()): BaseReader {
+  return (path) => {
+    try {
+      return readFileSync(resolve(root, path), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  };
+}
+
+// ── Internals ─────────────────────────────────────────────────────────────────
+
+function splitLines(text: string): { lines: string[]; eol: boolean } {
+  if (text === "") return { lines: [], eol: true };
+  const lines = text.split("\n");
+  const eol = lines[lines.length - 1] === "";
+  if (eol) lines.pop();
+  return { lines, eol };
+}
+
+/**
+ * Find where `expected` occurs in `lines`, at or after `min`, preferring the
+ * position closest to `guess`. Returns -1 if it occurs nowhere.
+ */
+function locateHunk(lines: string[], expected: string[], guess: number, min: number): number {
+  const max = lines.length - expected.length;
+  const matchesAt = (p: number) => expected.every((line, k) => lines[p + k] === line);
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    for (const p of distance === 0 ? [guess] : [guess - distance, guess + distance]) {
+      if (p >= min && p <= max && matchesAt(p)) return p;
+    }
+  }
+  return -1;
+}
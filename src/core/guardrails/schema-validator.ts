@@ -25,6 +25,7 @@ import {
   type TechSpec,
   TechSpecSchema,
 } from "../../../docs/schema/entities.js";
+import { type BaseReader, withCleanPatches } from "./patch-validator.js";
 
 // ── Generic validator ─────────────────────────────────────────────────────────
 
@@ -74,6 +75,27 @@ export function parseAgentOutput<S extends ZodTypeAny>(
 
 // ── Self-correcting async variant ─────────────────────────────────────────────
 
+/** Details of a failed validation attempt that is about to be retried. */
+export interface RetryNotice {
+  /** Guardrail label, e.g. "TechSpec from planner" */
+  label: string;
+  /** 1-based number of the attempt that just failed */
+  attempt: number;
+  maxAttempts: number;
+  /** Bullet list of validation issues fed back to the model */
+  issues: string;
+}
+
+/** Token usage of one self-correction request. */
+export interface CorrectionUsage {
+  /** Model ID the correction was sent to */
+  model: string;
+  /** 1-based correction attempt */
+  attempt: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
 export interface SelfCorrectionOptions {
   /** The LLM used to regenerate a corrected response. */
   model: LanguageModelV1;
@@ -83,6 +105,10 @@ export interface SelfCorrectionOptions {
   originalPrompt: string;
   /** Maximum number of correction attempts (default: 1). */
   maxRetries?: number;
+  /** Called before each correction request — used to surface retries as run events. */
+  onRetry?: (retry: RetryNotice) => void;
+  /** Called after each correction request with its token usage — used for cost accounting. */
+  onUsage?: (usage: CorrectionUsage) => void;
 }
 
 /**
@@ -103,7 +129,7 @@ export async function parseAgentOutputWithRetry<S extends ZodTypeAny>(
   label: string,
   retryOpts: SelfCorrectionOptions,
 ): Promise<z.output<S>> {
-  const { model, systemPrompt, originalPrompt, maxRetries = 1 } = retryOpts;
+  const { model, systemPrompt, originalPrompt, maxRetries = 1, onRetry, onUsage } = retryOpts;
   let lastText = rawText;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
@@ -135,9 +161,12 @@ export async function parseAgentOutputWithRetry<S extends ZodTypeAny>(
       );
     }
 
-    console.warn(
-      `[guardrail] ${label}: attempt ${attempt + 1}/${maxRetries + 1} failed — requesting self-correction...`,
-    );
+    onRetry?.({
+      label,
+      attempt: attempt + 1,
+      maxAttempts: maxRetries + 1,
+      issues: issuesSummary ?? "unknown",
+    });
 
     const correctionPrompt =
       `Your previous response failed schema validation with these issues:\n\n${issuesSummary}\n\n` +
@@ -145,7 +174,18 @@ export async function parseAgentOutputWithRetry<S extends ZodTypeAny>(
       `Original task:\n${originalPrompt}\n\n` +
       `Produce corrected, valid JSON only — no markdown fences, no explanation.`;
 
-    const { text } = await generateText({ model, maxRetries: 3, system: systemPrompt, prompt: correctionPrompt });
+    const { text, usage } = await generateText({
+      model,
+      maxRetries: 3,
+      system: systemPrompt,
+      prompt: correctionPrompt,
+    });
+    onUsage?.({
+      model: model.modelId,
+      attempt: attempt + 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
     lastText = text;
   }
 
@@ -166,9 +206,11 @@ export function parseTechSpec(rawText: string): TechSpec {
 /**
  * Validate LLM output as a CodeArtifact.
  * Called immediately after the Executor Agent's generateText call.
+ * Pass `readBase` to also require every patch to apply cleanly to that tree.
  */
-export function parseCodeArtifact(rawText: string): CodeArtifact {
-  return parseAgentOutput(CodeArtifactSchema, rawText, "CodeArtifact from executor");
+export function parseCodeArtifact(rawText: string, readBase?: BaseReader): CodeArtifact {
+  const schema = readBase ? withCleanPatches(readBase) : CodeArtifactSchema;
+  return parseAgentOutput(schema, rawText, "CodeArtifact from executor");
 }
 
 /**
@@ -194,13 +236,16 @@ export async function parseTechSpecWithRetry(
 
 /**
  * `parseCodeArtifact` with LLM self-correction on validation failure.
- * Pass the model and prompts from the Executor Agent call.
+ * Pass the model and prompts from the Executor Agent call; patches that do not
+ * apply to `readBase` are fed back for correction like schema issues.
  */
 export async function parseCodeArtifactWithRetry(
   rawText: string,
   opts: SelfCorrectionOptions,
+  readBase?: BaseReader,
 ): Promise<CodeArtifact> {
-  return parseAgentOutputWithRetry(CodeArtifactSchema, rawText, "CodeArtifact from executor", opts);
+  const schema = readBase ? withCleanPatches(readBase) : CodeArtifactSchema;
+  return parseAgentOutputWithRetry(schema, rawText, "CodeArtifact from executor", opts);
 }
 
 /**
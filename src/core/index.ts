@@ -6,23 +6,96 @@
  */
 
 // ── Flywheel (main entry point) ───────────────────────────────────────────────
-export { runFlywheel, createCliApprovalFn } from "./flywheel.js";
+export { runFlywheel, resumeFlywheel, streamFlywheel, createCliApprovalFn } from "./flywheel.js";
 export type { FlywheelOptions } from "./flywheel.js";
+export { FlywheelEventEmitter, iterateEvents, renderEventToConsole } from "./events.js";
+export type { FlywheelEventListener } from "./events.js";
+export { applyArtifact, buildCommitMessage, branchNameFor } from "./apply.js";
+export type { ApplyInput, ApplyOptions, ApplyResult } from "./apply.js";
+export { CheckpointStore, RunManifestSchema } from "./checkpoints.js";
+export { PipelineBuilder, defineStage, runPipeline } from "./pipeline.js";
+export type {
+  AnyFlywheelStage,
+  FlywheelStage,
+  FlywheelState,
+  StageContext,
+} from "./pipeline.js";
+export {
+  DEFAULT_STAGES,
+  createDefaultPipeline,
+  seedStage,
+  planStage,
+  approveStage,
+  executeStage,
+  auditStage,
+  repairStage,
+  verifyStage,
+  trustGateStage,
+  polishStage,
+} from "./stages.js";
+export type { RunManifest } from "./checkpoints.js";
 
 // ── Agents ────────────────────────────────────────────────────────────────────
 export { planFeature } from "./agents/planner.js";
 export { executeSpec } from "./agents/executor.js";
+export type { RepairRequest } from "./agents/executor.js";
 export { auditArtifact } from "./agents/auditor.js";
 export { polishOutput } from "./agents/polisher.js";
 export { runLogicReview, LogicReviewSchema } from "./agents/logic-critic.js";
 export type { LogicReview } from "./agents/logic-critic.js";
+export type { AgentContext } from "./agents/agent-context.js";
+export { withModelFallback, modelsOf, isFallbackError } from "./agents/model-fallback.js";
+export type { ModelChain } from "./agents/model-fallback.js";
 
 // ── Context (RAG) ─────────────────────────────────────────────────────────────
-export { seedContext } from "./context/seeder.js";
-export { indexDocuments, chunkText, contentHash } from "./context/indexer.js";
-export { retrieve, retrieveMulti, formatAsContext } from "./context/retriever.js";
-export type { IndexInput, IndexResult } from "./context/indexer.js";
-export type { RetrieveOptions } from "./context/retriever.js";
+export { seedContext, watchContext } from "./context/seeder.js";
+export type { SeedOptions, SeedResult, WatchOptions, ContextWatcher } from "./context/seeder.js";
+export {
+  DEFAULT_SOURCES,
+  SeedSourceSchema,
+  AgenticConfigSchema,
+  loadSeedSources,
+} from "./context/seed-config.js";
+export type { SeedSource, AgenticConfig } from "./context/seed-config.js";
+export {
+  indexDocuments,
+  chunkText,
+  chunkTokens,
+  chunkWindows,
+  chunkWith,
+  contentHash,
+  ChunkingSchema,
+} from "./context/indexer.js";
+export {
+  retrieve,
+  retrieveMulti,
+  formatAsContext,
+  RETRIEVAL_MODES,
+  reciprocalRankFusion,
+  termCoverageReranker,
+} from "./context/retriever.js";
+export { Bm25Index, tokenize } from "./context/lexical.js";
+export type { Bm25Options } from "./context/lexical.js";
+export type {
+  IndexInput,
+  IndexResult,
+  Chunk,
+  Chunking,
+  ChunkingOptions,
+  ChunkingStrategy,
+} from "./context/indexer.js";
+export { chunkTypeScript, TYPESCRIPT_EXTENSIONS } from "./context/ts-chunker.js";
+export type { CodeChunk, DeclarationKind } from "./context/ts-chunker.js";
+export type { RetrieveOptions, RetrievalMode, Reranker } from "./context/retriever.js";
+export {
+  collectionStats,
+  findDocument,
+  knownCollections,
+  dumpCollection,
+  selectDocuments,
+  deleteDocuments,
+} from "./context/inspector.js";
+export type { CollectionStats, FoundDocument, DeleteSelector } from "./context/inspector.js";
 
 // ── Guardrails ────────────────────────────────────────────────────────────────
 export { sanitize, sanitizeWithReport, containsPii, PATTERNS } from "./guardrails/pii-filter.js";
@@ -36,7 +109,22 @@ export {
   parseAuditReport,
   parseAuditReportWithRetry,
 } from "./guardrails/schema-validator.js";
-export type { SelfCorrectionOptions } from "./guardrails/schema-validator.js";
+export type {
+  CorrectionUsage,
+  RetryNotice,
+  SelfCorrectionOptions,
+} from "./guardrails/schema-validator.js";
+export {
+  applyUnifiedDiff,
+  findPatchConflicts,
+  withCleanPatches,
+  materializeFiles,
+  formatArtifactForReview,
+  readFromTree,
+} from "./guardrails/patch-validator.js";
+export type { BaseReader } from "./guardrails/patch-validator.js";
+export { UsageMeter, DEFAULT_PRICES, priceFor, costOf, formatUsd } from "./guardrails/budget.js";
+export type { AgentUsage, Budget, ModelPrice, PriceTable } from "./guardrails/budget.js";
 
 // ── Entities (re-exported from docs/schema for convenience) ──────────────────
 export type {
@@ -46,8 +134,19 @@ export type {
   CodeArtifact,
   AuditReport,
   AuditFinding,
+  VerificationStep,
+  VerificationResult,
+  UsageRecord,
+  UsageTotals,
+  RunUsage,
+  ModelFailure,
+  ModelServing,
   PolishedArtifact,
+  RepairRound,
+  LogicRework,
   FlywheelResult,
+  FlywheelEvent,
+  FlywheelEventType,
   Severity,
 } from "../../docs/schema/entities.js";
 export {
@@ -57,20 +156,57 @@ export {
   CodeArtifactSchema,
   AuditFindingSchema,
   AuditReportSchema,
+  VerificationStepSchema,
+  VerificationResultSchema,
+  UsageRecordSchema,
+  UsageTotalsSchema,
+  RunUsageSchema,
+  ModelFailureSchema,
+  ModelServingSchema,
+  RepairRoundSchema,
+  LogicReworkSchema,
   FlywheelResultSchema,
+  FlywheelEventSchema,
 } from "../../docs/schema/entities.js";
 
 // ── Memory ────────────────────────────────────────────────────────────────────
 // ── Observability tools ────────────────────────────────────────────────────────
 export { queryLogs, queryMetrics, getStartupSeconds } from "./tools/observability-tools.js";
 export type { LogLine, MetricSeries } from "./tools/observability-tools.js";
+export { ScratchWorkspace, withScratchWorkspace } from "./tools/workspace.js";
+export {
+  runVerificationSteps,
+  resolveVerificationStep,
+  DEFAULT_VERIFICATION_SCRIPTS,
+} from "./tools/verification.js";
+export type { VerificationOptions, ResolvedStep } from "./tools/verification.js";
 
 // ── Memory ───────────────────────────────────────────────────────────────────
-export { getMemoryStore, ChromaMemoryStore } from "../../.agentic/memory/chroma-store.js";
+export {
+  getMemoryStore,
+  createMemoryStore,
+  memoryStoreKind,
+} from "../../.agentic/memory/store.js";
+export type { MemoryStoreKind } from "../../.agentic/memory/store.js";
+export { ChromaMemoryStore } from "../../.agentic/memory/chroma-store.js";
+export type { ChromaMemoryStoreOptions } from "../../.agentic/memory/chroma-store.js";
+export { InMemoryMemoryStore, matchesWhere } from "../../.agentic/memory/in-memory-store.js";
+export { FileMemoryStore } from "../../.agentic/memory/file-store.js";
+export { exportMemory, importMemory } from "../../.agentic/memory/transfer.js";
+export { HashedNgramEmbedding } from "../../.agentic/memory/hashed-embedding.js";
+export {
+  openaiEmbeddings,
+  localEmbeddings,
+  customEmbeddings,
+  embeddingForCollection,
+} from "../../.agentic/memory/embeddings.js";
+export type { EmbeddingProvider } from "../../.agentic/memory/embeddings.js";
 export { COLLECTIONS } from "../../.agentic/memory/types.js";
 export type {
   MemoryStore,
   MemoryDocument,
   QueryResult,
   CollectionName,
+  EmbeddingFunction,
+  ListOptions,
 } from "../../.agentic/memory/types.js";
@@ -0,0 +1,323 @@
+/**
+ * src/core/pipeline.ts
+ *
+ * Pluggable stage pipeline for the Knowledge Flywheel.
+ *
+ * A pipeline is an ordered list of `FlywheelStage`s. Each stage:
+ *   1. `select`s its input out of the shared run state,
+ *   2. has that input validated by its `input` Zod schema,
+ *   3. `run`s, and has the result validated by its `output` schema,
+ *   4. is checkpointed under its `name`, then
+ *   5. `apply`s the output back onto the run state.
+ *
+ * Every stage is bracketed by `stage:start` / `stage:end` events. LLM token
+ * usage reported through the stage context is attributed to the running
+ * stage by a UsageMeter, which aborts the run once the budget is exceeded;
+ * the model that served each agent call is logged in `state.models`.
+ *
+ * The default pipeline (see stages.ts) reproduces the classic five-stage
+ * lifecycle. Teams insert or remove stages with `PipelineBuilder`:
+ *
+ * @example
+ * const pipeline = createDefaultPipeline()
+ *   .insertAfter("execute", licenseCheckStage)
+ *   .remove("polish")
+ *   .build();
+ * await runFlywheel(brief, { pipeline });
+ */
+
+import type { ZodType, ZodTypeDef } from "zod";
+import type {
+  AuditReport,
+  CodeArtifact,
+  FlywheelEvent,
+  LogicRework,
+  ModelServing,
+  PolishedArtifact,
+  RepairRound,
+  TechSpec,
+  VerificationResult,
+} from "../../docs/schema/entities.js";
+import { traceLog } from "./agents/agent-context.js";
+import type { LogicReview } from "./agents/logic-critic.js";
+import type { CheckpointStore } from "./checkpoints.js";
+import type { FlywheelOptions } from "./flywheel.js";
+import { type AgentUsage, UsageMeter } from "./guardrails/budget.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Mutable state threaded through every stage of a run.
+ * Core stages populate the typed fields; custom stages write to `outputs`.
+ */
+export interface FlywheelState {
+  runId: string;
+  brief: string;
+  /** The TechSpec as planned (reported as `FlywheelResult.spec`) */
+  spec?: TechSpec;
+  /** The TechSpec after the approveSpec gate — what the executor implements */
+  approvedSpec?: TechSpec;
+  artifact?: CodeArtifact;
+  audit?: AuditReport;
+  /** Every execute → audit round when the repair loop ran (round 0 = original) */
+  repairRounds?: RepairRound[];
+  logicReview?: LogicReview;
+  /** Trust Gate rework attempts driven by the Logic Critic */
+  logicReworks?: LogicRework[];
+  autoMerged?: boolean;
+  /** Outcome of running the artifact's verificationSteps (verify:true only) */
+  verification?: VerificationResult;
+  polished?: PolishedArtifact;
+  /** The model that served each agent call, in call order (see withModelFallback) */
+  models?: ModelServing[];
+  /** Validated outputs of every stage, keyed by stage name */
+  outputs: Record<string, unknown>;
+}
+
+/**
+ * Read-only context handed to every stage.
+ * Structurally an `AgentContext`, so stages pass it straight to the agents.
+ */
+export interface StageContext {
+  runId: string;
+  brief: string;
+  options: FlywheelOptions;
+  state: Readonly<FlywheelState>;
+  /** Publish a structured event to the run's subscribers */
+  emit(event: FlywheelEvent): void;
+  /** Record an LLM call's token usage against the current stage; throws when over budget */
+  recordUsage(usage: AgentUsage): void;
+  /** Log which model served an agent call in the current stage */
+  recordModel(serving: Omit<ModelServing, "stage">): void;
+}
+
+/**
+ * A single step of the flywheel. `I` and `O` are the stage's input and output
+ * types; both are enforced at runtime by the `input` / `output` Zod schemas.
+ */
+export interface FlywheelStage<I = unknown, O = unknown> {
+  /** Unique stage name — also used as the checkpoint file name. */
+  readonly name: string;
+  /** Heading carried by the `stage:start` event (defaults to the name). */
+  readonly label?: string;
+  readonly input: ZodType<I, ZodTypeDef, unknown>;
+  readonly output: ZodType<O, ZodTypeDef, unknown>;
+  /** Project this stage's raw input out of the run state. */
+  select(state: Readonly<FlywheelState>): unknown;
+  run(input: I, ctx: StageContext): Promise<O>;
+  /**
+   * Fold the validated output back into the run state. Runs after the output
+   * is checkpointed, so throwing here halts the run without losing the output.
+   * Defaults to recording the output in `state.outputs[name]` only.
+   */
+  apply?(state: FlywheelState, output: O, ctx: StageContext): void;
+  /** Return false to skip the stage for this run (default: always enabled). */
+  enabled?(ctx: StageContext): boolean;
+  /** One-line summary of the output, attached to the `stage:end` event. */
+  summarize?(output: O): string;
+}
+
+/** A stage with its input/output types erased — the element type of a pipeline. */
+export type AnyFlywheelStage = FlywheelStage<unknown, unknown>;
+
+/**
+ * Identity helper that infers `I` and `O` from the schemas, so custom stages
+ * get a fully typed `run(input)` without spelling out generics.
+ */
+export function defineStage<I, O>(stage: FlywheelStage<I, O>): FlywheelStage<I, O> {
+  return stage;
+}
+
+// ── PipelineBuilder ───────────────────────────────────────────────────────────
+
+/** Stages the FlywheelResult cannot be assembled without. */
+const REQUIRED_STAGES = ["plan", "execute", "audit"] as const;
+
+/** Checkpoint names the flywheel writes itself; a stage with one would overwrite that file. */
+const RESERVED_STAGE_NAMES = ["run", "usage", "models", "result"] as const;
+
+export class PipelineBuilder {
+  private readonly stages: AnyFlywheelStage[];
+
+  constructor(stages: readonly AnyFlywheelStage[] = []) {
+    this.stages = [...stages];
+  }
+
+  /** Add a stage to the end of the pipeline. */
+  append<I, O>(stage: FlywheelStage<I, O>): this {
+    this.stages.push(stage as unknown as AnyFlywheelStage);
+    return this;
+  }
+
+  /** Insert a stage immediately before the stage named `target`. */
+  insertBefore<I, O>(target: string, stage: FlywheelStage<I, O>): this {
+    this.stages.splice(this.indexOf(target), 0, stage as unknown as AnyFlywheelStage);
+    return this;
+  }
+
+  /** Insert a stage immediately after the stage named `target`. */
+  insertAfter<I, O>(target: string, stage: FlywheelStage<I, O>): this {
+    this.stages.splice(this.indexOf(target) + 1, 0, stage as unknown as AnyFlywheelStage);
+    return this;
+  }
+
+  /** Swap the stage named `target` for a different implementation. */
+  replace<I, O>(target: string, stage: FlywheelStage<I, O>): this {
+    this.stages.splice(this.indexOf(target), 1, stage as unknown as AnyFlywheelStage);
+    return this;
+  }
+
+  /** Drop the stage named `target`. */
+  remove(target: string): this {
+    this.stages.splice(this.indexOf(target), 1);
+    return this;
+  }
+
+  /**
+   * Finalise the pipeline.
+   * @throws {Error} on duplicate or reserved stage names, or a missing required stage.
+   */
+  build(): readonly AnyFlywheelStage[] {
+    const names = this.stages.map((s) => s.name);
+    const reserved = names.find((n) => (RESERVED_STAGE_NAMES as readonly string[]).includes(n));
+    if (reserved !== undefined) {
+      throw new Error(
+        `[pipeline] Stage name "${reserved}" is reserved for run checkpoints (${RESERVED_STAGE_NAMES.join(", ")}).`,
+      );
+    }
+    const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+    if (duplicate !== undefined) {
+      throw new Error(`[pipeline] Duplicate stage name "${duplicate}"`);
+    }
+    for (const required of REQUIRED_STAGES) {
+      if (!names.includes(required)) {
+        throw new Error(
+          `[pipeline] Required stage "${required}" is missing — replace it instead of removing it.`,
+        );
+      }
+    }
+    return [...this.stages];
+  }
+
+  private indexOf(target: string): number {
+    const idx = this.stages.findIndex((s) => s.name === target);
+    if (idx === -1) {
+      throw new Error(
+        `[pipeline] No stage named "${target}". Stages: ${this.stages.map((s) => s.name).join(", ")}`,
+      );
+    }
+    return idx;
+  }
+}
+
+// ── Runner ────────────────────────────────────────────────────────────────────
+
+/**
+ * Execute a pipeline against the given state, checkpointing each stage.
+ * Stages with an existing checkpoint are skipped and their saved output applied.
+ */
+export async function runPipeline(
+  stages: readonly AnyFlywheelStage[],
+  state: FlywheelState,
+  options: FlywheelOptions,
+  checkpoints: CheckpointStore,
+  emit: (event: FlywheelEvent) => void,
+  meter: UsageMeter = new UsageMeter(),
+): Promise<FlywheelState> {
+  const { runId } = state;
+  // Warn once per unpriced model, not on every call it serves.
+  const unpriced = new Set<string>();
+
+  for (const stage of stages) {
+    const ctx: StageContext = {
+      runId,
+      brief: state.brief,
+      options,
+      state,
+      emit,
+      recordUsage: (usage) => {
+        const record = meter.record(stage.name, usage);
+        if (record.unpriced && !unpriced.has(record.model)) {
+          unpriced.add(record.model);
+          traceLog(
+            ctx,
+            "budget",
+            `No price for model "${record.model}" — its calls are counted as $0.`,
+            "warn",
+          );
+        }
+        const totals = meter.totals();
+        emit({
+          type: "usage",
+          runId,
+          record,
+          totalTokens: totals.totalTokens,
+          totalCostUsd: totals.costUsd,
+        });
+        meter.assertWithinBudget();
+      },
+      recordModel: (serving) => {
+        state.models = [...(state.models ?? []), { stage: stage.name, ...serving }];
+      },
+    };
+    const start = Date.now();
+    emit({ type: "stage:start", runId, stage: stage.name, label: stage.label ?? stage.name });
+    const end = (status: "completed" | "checkpoint" | "skipped", summary?: string) =>
+      emit({
+        type: "stage:end",
+        runId,
+        stage: stage.name,
+        status,
+        durationMs: Date.now() - start,
+        ...(summary !== undefined ? { summary } : {}),
+      });
+
+    const saved = await checkpoints.load(stage.name, stage.output);
+    if (saved !== undefined) {
+      commit(stage, state, saved, ctx);
+      end("checkpoint");
+      continue;
+    }
+
+    if (stage.enabled && !stage.enabled(ctx)) {
+      end("skipped");
+      continue;
+    }
+
+    // A resumed run may already be over budget — stop before paying for more.
+    meter.assertWithinBudget();
+    const input = parseStageIO(stage, "input", stage.input, stage.select(state));
+    const output = parseStageIO(stage, "output", stage.output, await stage.run(input, ctx));
+    await checkpoints.save(stage.name, output);
+    commit(stage, state, output, ctx);
+    end("completed", stage.summarize?.(output));
+  }
+
+  return state;
+}
+
+function commit(
+  stage: AnyFlywheelStage,
+  state: FlywheelState,
+  output: unknown,
+  ctx: StageContext,
+): void {
+  state.outputs[stage.name] = output;
+  stage.apply?.(state, output, ctx);
+}
+
+function parseStageIO<T>(
+  stage: AnyFlywheelStage,
+  direction: "input" | "output",
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  value: unknown,
+): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new Error(
+      `[pipeline] Stage "${stage.name}" ${direction} failed validation.\n` +
+        `Issues:\n${JSON.stringify(result.error.issues, null, 2)}`,
+    );
+  }
+  return result.data;
+}
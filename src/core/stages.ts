@@ -0,0 +1,439 @@
+/**
+ * src/core/stages.ts
+ *
+ * The default flywheel stages, expressed as `FlywheelStage`s:
+ *
+ *   seed → plan → approve → execute → audit → repair → verify → trust-gate → polish
+ *
+ * `createDefaultPipeline()` returns a PipelineBuilder pre-loaded with these
+ * stages, which reproduces the classic five-stage lifecycle exactly.
+ */
+
+import { z } from "zod";
+import {
+  type AuditFinding,
+  type AuditReport,
+  AuditReportSchema,
+  type CodeArtifact,
+  CodeArtifactSchema,
+  type LogicRework,
+  LogicReworkSchema,
+  type RepairRound,
+  RepairRoundSchema,
+  TechSpecSchema,
+  type VerificationResult,
+  VerificationResultSchema,
+} from "../../docs/schema/entities.js";
+import { auditArtifact } from "./agents/auditor.js";
+import { executeSpec } from "./agents/executor.js";
+import { LogicReviewSchema, runLogicReview } from "./agents/logic-critic.js";
+import { planFeature } from "./agents/planner.js";
+import { polishOutput } from "./agents/polisher.js";
+import { seedContext } from "./context/seeder.js";
+import {
+  type AnyFlywheelStage,
+  PipelineBuilder,
+  type StageContext,
+  defineStage,
+} from "./pipeline.js";
+import { runVerificationSteps } from "./tools/verification.js";
+
+// ── Stage 1: Context Seeding ──────────────────────────────────────────────────
+
+export const seedStage = defineStage({
+  name: "seed",
+  label: "📚 Stage 1 — Context Seeding",
+  input: z.object({}),
+  output: z.object({
+    totalFiles: z.number().int().nonnegative(),
+    totalDocuments: z.number().int().nonnegative(),
+    byCollection: z.record(z.string(), z.number()),
+    durationMs: z.number().nonnegative(),
+    added: z.number().int().nonnegative(),
+    updated: z.number().int().nonnegative(),
+    removed: z.number().int().nonnegative(),
+    unchanged: z.number().int().nonnegative(),
+    purgedChunks: z.number().int().nonnegative(),
+  }),
+  // Skipped by default for speed; run with reseed:true to refresh.
+  enabled: (ctx) => ctx.options.reseed === true,
+  select: () => ({}),
+  run: () => seedContext(),
+  summarize: (seed) =>
+    `Seeded ${seed.totalDocuments} chunks from ${seed.totalFiles} files ` +
+    `(${seed.added} added, ${seed.updated} updated, ${seed.removed} removed, ${seed.unchanged} unchanged)`,
+});
+
+// ── Stage 2: Strategic Planning ───────────────────────────────────────────────
+
+export const planStage = defineStage({
+  name: "plan",
+  label: "📐 Stage 2 — Strategic Planning",
+  input: z.string().min(1),
+  output: TechSpecSchema,
+  select: (state) => state.brief,
+  run: (brief, ctx) => planFeature(brief, ctx),
+  apply: (state, spec) => {
+    state.spec = spec;
+  },
+});
+
+// ── HITL Approval Gate (optional) ─────────────────────────────────────────────
+
+export const approveStage = defineStage({
+  name: "approve",
+  label: "⏸  Awaiting approval — inspect the spec above, then respond.",
+  input: TechSpecSchema,
+  output: TechSpecSchema,
+  // When autoMerge:true the Trust Gate (post-Stage 4) takes over from the HITL gate.
+  enabled: (ctx) => ctx.options.approveSpec !== undefined && !ctx.options.autoMerge,
+  select: (state) => state.spec,
+  run: async (spec, ctx) => (await ctx.options.approveSpec?.(spec)) ?? spec,
+  summarize: () => "✓ Spec approved — proceeding to execution.",
+  apply: (state, approvedSpec) => {
+    state.approvedSpec = approvedSpec;
+  },
+});
+
+// ── Stage 3: Agentic Execution ────────────────────────────────────────────────
+
+export const executeStage = defineStage({
+  name: "execute",
+  label: "⚙️  Stage 3 — Agentic Execution",
+  input: TechSpecSchema,
+  output: CodeArtifactSchema,
+  select: (state) => state.approvedSpec ?? state.spec,
+  run: (spec, ctx) => executeSpec(spec, ctx),
+  apply: (state, artifact) => {
+    state.artifact = artifact;
+  },
+});
+
+// ── Stage 4: Security Verification ────────────────────────────────────────────
+
+export const auditStage = defineStage({
+  name: "audit",
+  label: "🔒 Stage 4 — Security Verification",
+  input: CodeArtifactSchema,
+  output: AuditReportSchema,
+  select: (state) => state.artifact,
+  run: (artifact, ctx) => auditArtifact(artifact, ctx),
+  apply: (state, audit, ctx) => {
+    state.audit = audit;
+    // With the repair loop enabled, the halt decision waits for the final round.
+    if (!repairEnabled(ctx)) haltOnFailedAudit(audit, ctx);
+  },
+});
+
+// ── Audit repair loop (optional) ──────────────────────────────────────────────
+
+export const repairStage = defineStage({
+  name: "repair",
+  label: "🔧 Repair loop — re-executing against audit findings",
+  input: z.object({
+    spec: TechSpecSchema,
+    artifact: CodeArtifactSchema,
+    audit: AuditReportSchema,
+  }),
+  output: z.object({ rounds: z.array(RepairRoundSchema).min(1) }),
+  enabled: repairEnabled,
+  select: (state) => ({
+    spec: state.approvedSpec ?? state.spec,
+    artifact: state.artifact,
+    audit: state.audit,
+  }),
+  run: async ({ spec, artifact, audit }, ctx) => {
+    const maxRounds = ctx.options.repairRounds ?? 0;
+    let current: RepairRound = { round: 0, instructions: [], artifact, audit };
+    const rounds = [current];
+
+    for (let round = 1; round <= maxRounds && !current.audit.passed; round++) {
+      const instructions = current.audit.findings.filter(isBlocking);
+      if (instructions.length === 0) break; // nothing actionable to feed back
+
+      const repaired = await executeSpec(spec, ctx, {
+        artifact: current.artifact,
+        instructions: instructions.map(formatFinding),
+      });
+      const reAudit = await auditArtifact(repaired, ctx);
+      current = { round, instructions, artifact: repaired, audit: reAudit };
+      rounds.push(current);
+
+      ctx.emit({
+        type: "repair:round",
+        runId: ctx.runId,
+        round,
+        maxRounds,
+        findings: instructions.length,
+        passed: reAudit.passed,
+      });
+    }
+
+    return { rounds };
+  },
+  summarize: ({ rounds }) => {
+    const repairs = rounds.length - 1;
+    const passed = rounds[rounds.length - 1]?.audit.passed ?? false;
+    if (repairs === 0)
+      return passed ? "Audit passed — no repair needed" : "No actionable findings to repair";
+    return `${passed ? "✓ Audit passed" : "✗ Audit still failing"} after ${repairs} repair round(s)`;
+  },
+  apply: (state, { rounds }, ctx) => {
+    const final = rounds[rounds.length - 1];
+    if (!final) return;
+    state.artifact = final.artifact;
+    state.audit = final.audit;
+    state.repairRounds = rounds;
+    haltOnFailedAudit(final.audit, ctx);
+  },
+});
+
+// ── Verification (optional) ───────────────────────────────────────────────────
+
+export const verifyStage = defineStage({
+  name: "verify",
+  label: "🧪 Verification — running verificationSteps in a scratch workspace",
+  input: CodeArtifactSchema,
+  output: VerificationResultSchema,
+  enabled: (ctx) => ctx.options.verify === true,
+  select: (state) => state.artifact,
+  run: (artifact, ctx) => verifyArtifact(artifact, ctx),
+  summarize: (verification) => {
+    const failed = verification.steps.filter((s) => s.status === "failed").length;
+    const ran = verification.steps.filter((s) => s.status !== "skipped").length;
+    return verification.passed
+      ? `✓ ${ran} verification step(s) passed`
+      : `✗ ${failed} of ${ran} verification step(s) failed`;
+  },
+  apply: (state, verification) => {
+    state.verification = verification;
+  },
+});
+
+// ── Trust Gate (Harness Engineering — autoMerge) ──────────────────────────────
+
+export const trustGateStage = defineStage({
+  name: "trust-gate",
+  label: "🤖 Trust Gate — Logic Critic review",
+  input: z.object({
+    spec: TechSpecSchema,
+    artifact: CodeArtifactSchema,
+    audit: AuditReportSchema,
+    verification: VerificationResultSchema.optional(),
+  }),
+  output: z.object({
+    logicReview: LogicReviewSchema,
+    autoMerged: z.boolean(),
+    reworks: z.array(LogicReworkSchema).default([]),
+    verification: VerificationResultSchema.optional(),
+  }),
+  enabled: (ctx) => ctx.options.autoMerge === true,
+  select: (state) => ({
+    spec: state.approvedSpec ?? state.spec,
+    artifact: state.artifact,
+    audit: state.audit,
+    verification: state.verification,
+  }),
+  run: async (
+    { spec, artifact: original, audit: originalAudit, verification: originalVerification },
+    ctx,
+  ) => {
+    let artifact = original;
+    let audit = originalAudit;
+    let verification = originalVerification;
+    let logicReview = await runLogicReview(spec, artifact, ctx);
+    // The verdict is on the incoming artifact unless a rework passes both the
+    // audit and the Logic Critic — a failed rework never replaces it.
+    let kept = { audit, logicReview, verification };
+
+    // Automatic rework: feed the Logic Critic's issues (and any failed
+    // verification steps) back to the executor before interrupting a human.
+    const maxAttempts = ctx.options.logicReworkAttempts ?? 0;
+    const reworks: LogicRework[] = [];
+    for (
+      let attempt = 1;
+      attempt <= maxAttempts && !(logicReview.passed && verificationPassed(verification));
+      attempt++
+    ) {
+      const issues = [...logicReview.issues, ...failedStepIssues(verification)];
+      if (issues.length === 0) break; // nothing actionable to feed back
+
+      artifact = await executeSpec(spec, ctx, { artifact, instructions: issues });
+      audit = await auditArtifact(artifact, ctx);
+      haltOnFailedAudit(audit, ctx);
+      logicReview = await runLogicReview(spec, artifact, ctx);
+      if (verification) verification = await verifyArtifact(artifact, ctx);
+      if (reworkAccepted({ audit, logicReviewPassed: logicReview.passed })) {
+        kept = { audit, logicReview, verification };
+      }
+      reworks.push({
+        attempt,
+        issues,
+        artifact,
+        audit,
+        logicReviewPassed: logicReview.passed,
+        ...(verification ? { verification } : {}),
+      });
+
+      ctx.emit({
+        type: "logic:rework",
+        runId: ctx.runId,
+        attempt,
+        maxAttempts,
+        issues: issues.length,
+        passed: logicReview.passed,
+      });
+    }
+
+    ({ audit, logicReview, verification } = kept);
+    const perfectPass = audit.passed && logicReview.passed && verificationPassed(verification);
+    const withVerification = verification ? { verification } : {};
+
+    if (perfectPass) {
+      ctx.emit({ type: "trust-gate", runId: ctx.runId, passed: true, reasons: [] });
+      // Skip the approveSpec HITL gate entirely — both sentinels returned Perfect Pass.
+      return { logicReview, autoMerged: true, reworks, ...withVerification };
+    }
+
+    const failReasons: string[] = [];
+    if (!audit.passed)
+      failReasons.push(
+        `Security Sentinel: ${audit.findings.filter(isBlocking).length} critical/high finding(s)`,
+      );
+    if (!logicReview.passed) failReasons.push(`Logic Critic: ${logicReview.issues.join("; ")}`);
+    const failedCommands = failedSteps(verification).map((s) => s.command);
+    if (failedCommands.length > 0) failReasons.push(`Verification: ${failedCommands.join("; ")}`);
+
+    ctx.emit({ type: "trust-gate", runId: ctx.runId, passed: false, reasons: failReasons });
+
+    if (!ctx.options.approveSpec) {
+      throw new Error(
+        `[flywheel] Trust Gate failed and no approveSpec fallback is configured.\n\n${failReasons.join("\n")}`,
+      );
+    }
+
+    // Fall back to the manual approval gate.
+    await ctx.options.approveSpec(spec);
+    return { logicReview, autoMerged: false, reworks, ...withVerification };
+  },
+  apply: (state, { logicReview, autoMerged, reworks, verification }, ctx) => {
+    state.logicReview = logicReview;
+    state.autoMerged = autoMerged;
+    if (verification) state.verification = verification;
+    const accepted = reworks.filter(reworkAccepted).at(-1);
+    if (accepted) {
+      state.artifact = accepted.artifact;
+      state.audit = accepted.audit;
+    }
+    if ((ctx.options.logicReworkAttempts ?? 0) > 0) state.logicReworks = reworks;
+  },
+});
+
+// ── Stage 5: Human Polish ─────────────────────────────────────────────────────
+
+export const polishStage = defineStage({
+  name: "polish",
+  label: "✨ Stage 5 — Human Polish",
+  input: z.object({ artifact: CodeArtifactSchema, audit: AuditReportSchema }),
+  output: CodeArtifactSchema,
+  select: (state) => ({ artifact: state.artifact, audit: state.audit }),
+  run: ({ artifact, audit }, ctx) => polishOutput(artifact, audit, ctx),
+  apply: (state, polished) => {
+    state.polished = polished;
+  },
+});
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Critical and high findings are the ones that fail an audit. */
+function isBlocking(finding: AuditFinding): boolean {
+  return finding.severity === "critical" || finding.severity === "high";
+}
+
+function repairEnabled(ctx: StageContext): boolean {
+  return (ctx.options.repairRounds ?? 0) > 0;
+}
+
+/** One repair instruction per finding, in the shape the executor prompt expects. */
+function formatFinding(finding: AuditFinding): string {
+  const location = finding.location ? ` in ${finding.location}` : "";
+  const suggestion = finding.suggestion ? ` Suggested fix: ${finding.suggestion}` : "";
+  return `[${finding.severity.toUpperCase()}] ${finding.category}${location} — ${finding.description}.${suggestion}`;
+}
+
+/** Run the artifact's verificationSteps and report the outcome as a `verification` event. */
+async function verifyArtifact(
+  artifact: CodeArtifact,
+  ctx: StageContext,
+): Promise<VerificationResult> {
+  const verification = await runVerificationSteps(artifact, {
+    ...(ctx.options.verificationScripts ? { scripts: ctx.options.verificationScripts } : {}),
+  });
+  const commands = (status: string) =>
+    verification.steps.filter((s) => s.status === status).map((s) => s.command);
+  ctx.emit({
+    type: "verification",
+    runId: ctx.runId,
+    passed: verification.passed,
+    steps: verification.steps.length,
+    failed: commands("failed"),
+    skipped: commands("skipped"),
+  });
+  return verification;
+}
+
+/** A rework replaces the artifact under review only if both its audit and Logic Critic review pass. */
+function reworkAccepted(rework: Pick<LogicRework, "audit" | "logicReviewPassed">): boolean {
+  return rework.audit.passed && rework.logicReviewPassed;
+}
+
+/** No verification (verify disabled) counts as passing. */
+function verificationPassed(verification: VerificationResult | undefined): boolean {
+  return verification?.passed ?? true;
+}
+
+function failedSteps(verification: VerificationResult | undefined) {
+  return verification?.steps.filter((s) => s.status === "failed") ?? [];
+}
+
+/** One rework instruction per failed step, with the tail of its output. */
+function failedStepIssues(verification: VerificationResult | undefined): string[] {
+  return failedSteps(verification).map(
+    (s) =>
+      `Verification step \`${s.command}\` failed (${s.reason ?? `exit code ${s.exitCode ?? "?"}`}):\n${s.output.slice(-1_000)}`,
+  );
+}
+
+function haltOnFailedAudit(audit: AuditReport, ctx: StageContext): void {
+  if (audit.passed || !ctx.options.haltOnAuditFailure) return;
+  const highFindings = audit.findings
+    .filter(isBlocking)
+    .map((f) => `  [${f.severity.toUpperCase()}] ${f.description}`)
+    .join("\n");
+  throw new Error(
+    `[flywheel] Audit failed — halting as requested.\n\nHigh-severity findings:\n${highFindings}`,
+  );
+}
+
+// ── Default pipeline ──────────────────────────────────────────────────────────
+
+/** The built-in stages, in execution order. */
+export const DEFAULT_STAGES: readonly AnyFlywheelStage[] = [
+  seedStage,
+  planStage,
+  approveStage,
+  executeStage,
+  auditStage,
+  repairStage,
+  verifyStage,
+  trustGateStage,
+  polishStage,
+] as unknown as readonly AnyFlywheelStage[];
+
+/**
+ * A PipelineBuilder pre-loaded with the default stages.
+ * Call `.build()` unchanged to get today's behaviour, or customise first.
+ */
+export function createDefaultPipeline(): PipelineBuilder {
+  return new PipelineBuilder(DEFAULT_STAGES);
+}
@@ -0,0 +1,254 @@
+/**
+ * src/core/tools/verification.ts
+ *
+ * Deterministic execution of `CodeArtifact.verificationSteps`.
+ *
+ * The executor lists the commands that prove its artifact works, but until
+ * now only the Logic Critic read them. `runVerificationSteps()` materializes
+ * the artifact into a ScratchWorkspace and runs each step there, capturing
+ * exit codes and (truncated) output into a VerificationResult.
+ *
+ * Steps are free text written by an LLM, so only an allow-list runs:
+ *
+ *   - package.json scripts via `pnpm <script>`, `pnpm run <script>` or
+ *     `npm run <script>` / `npm test` — limited to DEFAULT_VERIFICATION_SCRIPTS
+ *     plus any names passed in `scripts`, and only if the source repository
+ *     defines the script and the artifact leaves it (and its pre/post hooks)
+ *     unchanged — otherwise an artifact could rewrite `test` to run anything;
+ *   - `tsc`, `biome` (check/lint/ci/format) and `vitest run`, bare or via
+ *     `npx` / `pnpm exec`.
+ *
+ * Commands are executed without a shell; anything containing shell operators
+ * or quotes, or not on the allow-list, is recorded as "skipped" rather than run.
+ */
+
+import { execFile } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import type {
+  CodeArtifact,
+  VerificationResult,
+  VerificationStep,
+} from "../../../docs/schema/entities.js";
+import { type ScratchWorkspace, withScratchWorkspace } from "./workspace.js";
+
+/** package.json scripts a verification step may run without extra configuration. */
+export const DEFAULT_VERIFICATION_SCRIPTS: readonly string[] = [
+  "typecheck",
+  "lint",
+  "test",
+  "test:unit",
+  "check:layers",
+];
+
+/** Binaries that may be invoked directly, with the subcommands allowed for each (empty = any). */
+const ALLOWED_BINARIES: Record<string, readonly string[]> = {
+  tsc: [],
+  biome: ["check", "lint", "ci", "format"],
+  vitest: ["run"],
+};
+
+const SHELL_SYNTAX = /[;&|`$<>(){}\\'"\n]/;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface VerificationOptions {
+  /** Repository to copy into the scratch workspace (default: process.cwd()) */
+  source?: string;
+  /** Extra package.json script names allowed on top of DEFAULT_VERIFICATION_SCRIPTS */
+  scripts?: readonly string[];
+  /** Per-step timeout (default: 120s) */
+  timeoutMs?: number;
+  /** Characters of output kept per step — the tail, where errors are (default: 4000) */
+  maxOutputChars?: number;
+}
+
+/** A step resolved against the allow-list: either a process to spawn, or why it will not run. */
+export type ResolvedStep = { file: string; args: string[] } | { skip: string };
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Run an artifact's verificationSteps in a scratch workspace.
+ *
+ * Steps run sequentially, each to completion — one failure does not stop the
+ * rest, so the result shows every broken check at once.
+ *
+ * @returns A VerificationResult; `passed` is false if any step failed.
+ * @throws {Error} if the artifact's patches do not apply to the source tree.
+ */
+export async function runVerificationSteps(
+  artifact: CodeArtifact,
+  options: VerificationOptions = {},
+): Promise<VerificationResult> {
+  const steps = await withScratchWorkspace(async (workspace) => {
+    // Script definitions come from the source tree, read before the artifact lands.
+    const sourceScripts = readPackageScripts(workspace);
+    await workspace.materialize(artifact);
+    const scripts = new Set([...DEFAULT_VERIFICATION_SCRIPTS, ...(options.scripts ?? [])]);
+    const changedScripts = diffScripts(sourceScripts, readPackageScripts(workspace));
+
+    const results: VerificationStep[] = [];
+    for (const command of artifact.verificationSteps) {
+      const resolved = resolveVerificationStep(
+        command,
+        scripts,
+        new Set(sourceScripts.keys()),
+        changedScripts,
+      );
+      results.push(
+        "skip" in resolved
+          ? { command, status: "skipped", output: "", reason: resolved.skip, durationMs: 0 }
+          : await runStep(command, resolved, workspace.root, options),
+      );
+    }
+    return results;
+  }, options.source);
+
+  return {
+    id: `verification-${randomUUID()}`,
+    artifactId: artifact.id,
+    passed: steps.every((s) => s.status !== "failed"),
+    steps,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Map a verification step onto the allow-list.
+ *
+ * @param scripts - package.json script names that may be run.
+ * @param packageScripts - Scripts defined in the source repository's package.json.
+ * @param changedScripts - Scripts the artifact adds, removes or rewrites.
+ */
+export function resolveVerificationStep(
+  command: string,
+  scripts: ReadonlySet<string>,
+  packageScripts: ReadonlySet<string>,
+  changedScripts: ReadonlySet<string> = new Set(),
+): ResolvedStep {
+  if (SHELL_SYNTAX.test(command)) {
+    return { skip: "shell operators, quotes and variables are not supported" };
+  }
+  const [head, ...rest] = command.trim().split(/\s+/);
+  if (head === undefined || head === "") return { skip: "empty command" };
+
+  // ── package.json scripts ─────────────────────────────────────────────────
+  const script = scriptInvocation(head, rest);
+  if (script) {
+    if (!scripts.has(script.name)) {
+      return { skip: `script "${script.name}" is not on the verification allow-list` };
+    }
+    if (!packageScripts.has(script.name)) {
+      return { skip: `package.json has no "${script.name}" script` };
+    }
+    // npm runs pre<name> and post<name> around the script itself
+    const changed = [script.name, `pre${script.name}`, `post${script.name}`].find((name) =>
+      changedScripts.has(name),
+    );
+    if (changed !== undefined) {
+      return { skip: `the artifact changes the "${changed}" script in package.json` };
+    }
+    return { file: head, args: script.args };
+  }
+
+  // ── Direct binaries ──────────────────────────────────────────────────────
+  let binary = head;
+  let args = rest;
+  if (head === "npx" || (head === "pnpm" && rest[0] === "exec")) {
+    [binary = "", ...args] = head === "npx" ? rest : rest.slice(1);
+  }
+  const subcommands = ALLOWED_BINARIES[binary];
+  if (subcommands === undefined) {
+    return { skip: `"${binary}" is not on the verification allow-list` };
+  }
+  if (subcommands.length > 0 && !subcommands.includes(args[0] ?? "")) {
+    return { skip: `only "${binary} ${subcommands.join("|")}" may run` };
+  }
+  return { file: "npx", args: ["--no-install", binary, ...args] };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Recognise `pnpm [run] <script>`, `npm run <script>` and `npm test`. */
+function scriptInvocation(head: string, rest: string[]): { name: string; args: string[] } | null {
+  const [first, second] = rest;
+  if (head === "pnpm" && first !== undefined && first !== "exec") {
+    const name = first === "run" ? second : first;
+    return name === undefined ? null : { name, args: rest };
+  }
+  if (head === "npm" && first === "run" && second !== undefined) {
+    return { name: second, args: rest };
+  }
+  if (head === "npm" && first === "test") return { name: "test", args: rest };
+  return null;
+}
+
+/** Script name → command in the workspace's package.json, as it is now. */
+function readPackageScripts(workspace: ScratchWorkspace): Map<string, string> {
+  const raw = workspace.read("package.json");
+  if (raw === undefined) return new Map();
+  try {
+    const pkg = JSON.parse(raw) as { scripts?: Record<string, string> };
+    return new Map(Object.entries(pkg.scripts ?? {}));
+  } catch {
+    return new Map();
+  }
+}
+
+/** Names of the scripts added, removed or rewritten between `before` and `after`. */
+function diffScripts(before: Map<string, string>, after: Map<string, string>): Set<string> {
+  const names = new Set([...before.keys(), ...after.keys()]);
+  return new Set([...names].filter((name) => before.get(name) !== after.get(name)));
+}
+
+function runStep(
+  command: string,
+  { file, args }: { file: string; args: string[] },
+  cwd: string,
+  { timeoutMs = 120_000, maxOutputChars = 4_000 }: VerificationOptions,
+): Promise<VerificationStep> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    execFile(
+      file,
+      args,
+      {
+        cwd,
+        timeout: timeoutMs,
+        maxBuffer: 16 * 1024 * 1024,
+        encoding: "utf-8",
+        env: { ...process.env, CI: "1", FORCE_COLOR: "0" },
+      },
+      (err, stdout, stderr) => {
+        const combined = `${stdout}${stderr}`.trim();
+        const output =
+          combined.length > maxOutputChars ? `…${combined.slice(-maxOutputChars)}` : combined;
+        const durationMs = Date.now() - startedAt;
+        if (!err) {
+          resolve({ command, status: "passed", exitCode: 0, output, durationMs });
+          return;
+        }
+
+        const { code, killed, signal } = err as NodeJS.ErrnoException & {
+          killed?: boolean;
+          signal?: string | null;
+        };
+        const reason = killed
+          ? `timed out after ${Math.round(timeoutMs / 1000)}s`
+          : typeof code === "string"
+            ? `could not start ${file}: ${code}`
+            : signal
+              ? `killed by ${signal}`
+              : undefined;
+        resolve({
+          command,
+          status: "failed",
+          ...(typeof code === "number" ? { exitCode: code } : {}),
+          output,
+          ...(reason !== undefined ? { reason } : {}),
+          durationMs,
+        });
+      },
+    );
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * src/core/tools/workspace.ts
+ *
+ * Scratch workspaces — isolated, throwaway copies of the repository.
+ *
+ * Generated code only exists in the model's response until it is written
+ * somewhere, so running `tsc`/`biome`/`vitest` against process.cwd() never
+ * checks it. A ScratchWorkspace copies the repository into a temp directory
+ * (source files only; `node_modules` is symlinked back, so the toolchain
+ * still resolves) where artifact files can be materialized and verified
+ * without touching the real working tree.
+ *
+ * The executor runs its code tools inside one (see createExecutorTools in
+ * .agentic/tools/index.ts) and disposes it when done.
+ */
+
+import { cp, mkdir, mkdtemp, realpath, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, dirname, join, relative, resolve } from "node:path";
+import type { CodeArtifact } from "../../../docs/schema/entities.js";
+import { type BaseReader, materializeFiles, readFromTree } from "../guardrails/patch-validator.js";
+
+/** Top-level entries never copied into a workspace. */
+const EXCLUDED = new Set([
+  ".git",
+  "node_modules",
+  "__runs__",
+  "__chroma__",
+  "__memory__",
+  "__seed__",
+  "chroma_data",
+  "coverage",
+  "dist",
+]);
+
+/** `.env*` files hold secrets, so none is copied at any depth — bar the committed template. */
+const ENV_TEMPLATE = ".env.example";
+
+// ── ScratchWorkspace ──────────────────────────────────────────────────────────
+
+export class ScratchWorkspace {
+  /** Absolute path of the workspace copy. */
+  readonly root: string;
+  /** Absolute path of the repository it was copied from. */
+  readonly source: string;
+  /** Reads a file as it currently exists in the workspace. */
+  readonly read: BaseReader;
+
+  private constructor(root: string, source: string) {
+    this.root = root;
+    this.source = source;
+    this.read = readFromTree(root);
+  }
+
+  /**
+   * Copy `source` (default: process.cwd()) into a fresh temp directory.
+   * `node_modules` is symlinked rather than copied.
+   */
+  static async create(source: string = process.cwd()): Promise<ScratchWorkspace> {
+    const from = await realpath(resolve(source));
+    // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+    const parent = process.env["FLYWHEEL_WORKSPACE_DIR"] ?? tmpdir();
+    await mkdir(parent, { recursive: true });
+    const root = await mkdtemp(join(parent, "flywheel-ws-"));
+
+    await cp(from, root, {
+      recursive: true,
+      filter: (path) => !isExcluded(from, path),
+    });
+    await symlink(join(from, "node_modules"), join(root, "node_modules"), "dir").catch(() => {
+      // No node_modules to link (e.g. a bare fixture repo) — code tools will report the failure.
+    });
+
+    return new ScratchWorkspace(root, from);
+  }
+
+  /**
+   * Write a single file into the workspace.
+   * @throws {Error} if the path escapes the workspace or targets an excluded directory.
+   */
+  async writeFile(path: string, content: string): Promise<void> {
+    const target = this.resolve(path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content, "utf-8");
+  }
+
+  /**
+   * Write an artifact into the workspace: whole files as-is, patches applied
+   * to the workspace's current contents, deleted files removed.
+   *
+   * @returns The paths written or removed, sorted.
+   * @throws {Error} if a patch does not apply cleanly.
+   */
+  async materialize(artifact: CodeArtifact): Promise<string[]> {
+    const contents = materializeFiles(artifact, this.read);
+    const paths = Object.keys(contents).sort();
+    for (const path of paths) {
+      const content = contents[path];
+      if (content === null || content === undefined) {
+        await rm(this.resolve(path), { force: true });
+      } else {
+        await this.writeFile(path, content);
+      }
+    }
+    return paths;
+  }
+
+  /** Delete the workspace. Safe to call more than once. */
+  async dispose(): Promise<void> {
+    await rm(this.root, { recursive: true, force: true });
+  }
+
+  /** Resolve a workspace-relative path, refusing escapes and excluded directories. */
+  resolve(path: string): string {
+    const target = resolve(this.root, path);
+    const rel = relative(this.root, target);
+    if (rel === "" || rel.startsWith("..")) {
+      throw new Error(`[workspace] Path "${path}" resolves outside the workspace.`);
+    }
+    if (isExcluded(this.root, target)) {
+      throw new Error(
+        isEnvFile(target)
+          ? `[workspace] Path "${path}" is an environment file; only ${ENV_TEMPLATE} is allowed.`
+          : `[workspace] Path "${path}" is in an excluded directory (${[...EXCLUDED].join(", ")}).`,
+      );
+    }
+    return target;
+  }
+}
+
+/**
+ * Run `fn` with a fresh workspace and always dispose it afterwards.
+ *
+ * @example
+ * const ok = await withScratchWorkspace(async (ws) => {
+ *   await ws.materialize(artifact);
+ *   return runChecks(ws.root);
+ * });
+ */
+export async function withScratchWorkspace<T>(
+  fn: (workspace: ScratchWorkspace) => Promise<T>,
+  source?: string,
+): Promise<T> {
+  const workspace = await ScratchWorkspace.create(source);
+  try {
+    return await fn(workspace);
+  } finally {
+    await workspace.dispose();
+  }
+}
+
+function isExcluded(root: string, path: string): boolean {
+  const top = relative(root, path).split(/[\\/]/)[0] ?? "";
+  return EXCLUDED.has(top) || isEnvFile(path);
+}
+
+function isEnvFile(path: string): boolean {
+  const name = basename(path);
+  return name.startsWith(".env") && name !== ENV_TEMPLATE;
+}
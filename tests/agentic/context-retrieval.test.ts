@@ -22,7 +22,7 @@ const mockStore = {
   clear: vi.fn().mockResolvedValue(undefined),
 };
 
-vi.mock("../../.agentic/memory/chroma-store.js", () => ({
+vi.mock("../../.agentic/memory/store.js", () => ({
   getMemoryStore: () => mockStore,
 }));
 
@@ -14,7 +14,21 @@
  */
 
 import { randomUUID } from "node:crypto";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { FlywheelEvent, VerificationResult } from "../../docs/schema/entities.js";
+
+// Keep run checkpoints out of the working tree.
+const RUNS_DIR = mkdtempSync(join(tmpdir(), "flywheel-runs-"));
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["FLYWHEEL_RUNS_DIR"] = RUNS_DIR;
+
+afterAll(() => {
+  rmSync(RUNS_DIR, { recursive: true, force: true });
+});
 
 // ── Fixtures ──────────────────────────────────────────────────────────────────
 
@@ -74,12 +88,44 @@ vi.mock("../../src/core/agents/polisher.js", () => ({
   polishOutput: vi.fn().mockResolvedValue(MOCK_POLISHED),
 }));
 
+vi.mock("../../src/core/agents/logic-critic.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/core/agents/logic-critic.js")>()),
+  runLogicReview: vi.fn().mockResolvedValue({ passed: true, issues: [] }),
+}));
+
+const verificationOf = (passed: boolean): VerificationResult => ({
+  id: randomUUID(),
+  artifactId: MOCK_ARTIFACT.id,
+  passed,
+  steps: [
+    passed
+      ? { command: "npm run typecheck", status: "passed", exitCode: 0, output: "", durationMs: 1 }
+      : {
+          command: "npm run typecheck",
+          status: "failed",
+          exitCode: 2,
+          output: "src/api/hello.ts(1,1): error TS2304",
+          durationMs: 1,
+        },
+  ],
+  createdAt: new Date().toISOString(),
+});
+
+vi.mock("../../src/core/tools/verification.js", () => ({
+  runVerificationSteps: vi.fn().mockResolvedValue(verificationOf(true)),
+}));
+
 vi.mock("../../src/core/context/seeder.js", () => ({
   seedContext: vi.fn().mockResolvedValue({
     totalFiles: 0,
     totalDocuments: 0,
     byCollection: {},
     durationMs: 0,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    purgedChunks: 0,
   }),
 }));
 
@@ -142,6 +188,456 @@ describe("runFlywheel()", () => {
   });
 });
 
+// ── Audit repair loop ─────────────────────────────────────────────────────────
+
+const FAILED_AUDIT = {
+  ...MOCK_AUDIT,
+  passed: false,
+  findings: [
+    {
+      severity: "high" as const,
+      category: "SQL Injection",
+      description: "Unsanitised input",
+      location: "src/api/hello.ts:1",
+    },
+    { severity: "low" as const, category: "Style", description: "Missing JSDoc" },
+  ],
+};
+
+describe("runFlywheel() — repair loop", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("does not run when repairRounds is unset", async () => {
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    vi.mocked(auditArtifact).mockResolvedValueOnce(FAILED_AUDIT);
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const result = await runFlywheel("Test brief");
+
+    expect(executeSpec).toHaveBeenCalledOnce();
+    expect(result.audit.passed).toBe(false);
+    expect(result.repairRounds).toBeUndefined();
+  });
+
+  it("feeds critical/high findings back to the executor until the audit passes", async () => {
+    const repairedArtifact = { ...MOCK_ARTIFACT, id: randomUUID(), summary: "Parameterised query" };
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    vi.mocked(executeSpec)
+      .mockResolvedValueOnce(MOCK_ARTIFACT)
+      .mockResolvedValueOnce(repairedArtifact);
+    vi.mocked(auditArtifact).mockResolvedValueOnce(FAILED_AUDIT).mockResolvedValueOnce(MOCK_AUDIT);
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    const result = await runFlywheel("Test brief", { repairRounds: 3, onEvent });
+
+    expect(executeSpec).toHaveBeenCalledTimes(2);
+    const repair = vi.mocked(executeSpec).mock.calls[1]?.[2];
+    expect(repair?.artifact).toEqual(MOCK_ARTIFACT);
+    expect(repair?.instructions).toEqual([
+      "[HIGH] SQL Injection in src/api/hello.ts:1 — Unsanitised input.",
+    ]);
+
+    expect(result.artifact.id).toBe(repairedArtifact.id);
+    expect(result.audit.passed).toBe(true);
+    expect(result.repairRounds?.map((r) => r.round)).toEqual([0, 1]);
+    expect(result.repairRounds?.[0]?.audit.passed).toBe(false);
+    expect(result.repairRounds?.[1]?.instructions).toHaveLength(1);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "repair:round", round: 1, maxRounds: 3, passed: true }),
+    );
+  });
+
+  it("stops after repairRounds and halts on the final audit when requested", async () => {
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    vi.mocked(auditArtifact)
+      .mockResolvedValueOnce(FAILED_AUDIT)
+      .mockResolvedValueOnce(FAILED_AUDIT)
+      .mockResolvedValueOnce(FAILED_AUDIT);
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    await expect(
+      runFlywheel("Test brief", { repairRounds: 2, haltOnAuditFailure: true }),
+    ).rejects.toThrow("[flywheel] Audit failed");
+
+    expect(executeSpec).toHaveBeenCalledTimes(3);
+    expect(auditArtifact).toHaveBeenCalledTimes(3);
+  });
+});
+
+// ── Trust Gate rework ─────────────────────────────────────────────────────────
+
+const FAILED_REVIEW = { passed: false, issues: ["Criterion 1 not covered: no 200 response"] };
+
+describe("runFlywheel() — Trust Gate rework", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reworks the artifact from Logic Critic issues and auto-merges on a pass", async () => {
+    const reworked = { ...MOCK_ARTIFACT, id: randomUUID(), summary: "Returns 200" };
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { runLogicReview } = await import("../../src/core/agents/logic-critic.js");
+    vi.mocked(executeSpec).mockResolvedValueOnce(MOCK_ARTIFACT).mockResolvedValueOnce(reworked);
+    vi.mocked(runLogicReview)
+      .mockResolvedValueOnce(FAILED_REVIEW)
+      .mockResolvedValueOnce({ passed: true, issues: [] });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const approveSpec = vi.fn();
+    const result = await runFlywheel("Test brief", {
+      autoMerge: true,
+      logicReworkAttempts: 2,
+      approveSpec,
+    });
+
+    expect(vi.mocked(executeSpec).mock.calls[1]?.[2]).toEqual({
+      artifact: MOCK_ARTIFACT,
+      instructions: FAILED_REVIEW.issues,
+    });
+    expect(approveSpec).not.toHaveBeenCalled();
+    expect(result.autoMerged).toBe(true);
+    expect(result.artifact.id).toBe(reworked.id);
+    expect(result.logicReworks).toHaveLength(1);
+    expect(result.logicReworks?.[0]?.logicReviewPassed).toBe(true);
+  });
+
+  it("falls back to approveSpec only after the attempts are exhausted", async () => {
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { runLogicReview } = await import("../../src/core/agents/logic-critic.js");
+    vi.mocked(runLogicReview)
+      .mockResolvedValueOnce(FAILED_REVIEW)
+      .mockResolvedValueOnce(FAILED_REVIEW)
+      .mockResolvedValueOnce(FAILED_REVIEW);
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const approveSpec = vi.fn().mockImplementation(async (spec) => spec);
+    const onEvent = vi.fn();
+    const result = await runFlywheel("Test brief", {
+      autoMerge: true,
+      logicReworkAttempts: 2,
+      approveSpec,
+      onEvent,
+    });
+
+    expect(executeSpec).toHaveBeenCalledTimes(3);
+    expect(runLogicReview).toHaveBeenCalledTimes(3);
+    expect(approveSpec).toHaveBeenCalledOnce();
+    expect(result.autoMerged).toBe(false);
+    expect(result.logicReworks?.map((r) => r.attempt)).toEqual([1, 2]);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "logic:rework", attempt: 2, maxAttempts: 2, passed: false }),
+    );
+  });
+
+  it("keeps the previous artifact when a rework fails its audit", async () => {
+    const reworked = { ...MOCK_ARTIFACT, id: randomUUID() };
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    const { runLogicReview } = await import("../../src/core/agents/logic-critic.js");
+    vi.mocked(executeSpec).mockResolvedValueOnce(MOCK_ARTIFACT).mockResolvedValueOnce(reworked);
+    vi.mocked(auditArtifact).mockResolvedValueOnce(MOCK_AUDIT).mockResolvedValueOnce(FAILED_AUDIT);
+    vi.mocked(runLogicReview)
+      .mockResolvedValueOnce(FAILED_REVIEW)
+      .mockResolvedValueOnce({ passed: true, issues: [] });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const approveSpec = vi.fn().mockImplementation(async (spec) => spec);
+    const result = await runFlywheel("Test brief", {
+      autoMerge: true,
+      logicReworkAttempts: 1,
+      approveSpec,
+    });
+
+    expect(approveSpec).toHaveBeenCalledOnce();
+    expect(result.autoMerged).toBe(false);
+    expect(result.logicReviewPassed).toBe(false);
+    expect(result.artifact.id).toBe(MOCK_ARTIFACT.id);
+    expect(result.audit.passed).toBe(true);
+    expect(result.logicReworks?.[0]?.artifact.id).toBe(reworked.id);
+  });
+
+  it("halts on a failed rework audit when haltOnAuditFailure is set", async () => {
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    const { runLogicReview } = await import("../../src/core/agents/logic-critic.js");
+    vi.mocked(auditArtifact).mockResolvedValueOnce(MOCK_AUDIT).mockResolvedValueOnce(FAILED_AUDIT);
+    vi.mocked(runLogicReview).mockResolvedValueOnce(FAILED_REVIEW);
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    await expect(
+      runFlywheel("Test brief", {
+        autoMerge: true,
+        logicReworkAttempts: 1,
+        haltOnAuditFailure: true,
+        approveSpec: async (spec) => spec,
+      }),
+    ).rejects.toThrow("[flywheel] Audit failed");
+    expect(runLogicReview).toHaveBeenCalledOnce();
+  });
+
+  it("goes straight to approveSpec when logicReworkAttempts is unset", async () => {
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { runLogicReview } = await import("../../src/core/agents/logic-critic.js");
+    vi.mocked(runLogicReview).mockResolvedValueOnce(FAILED_REVIEW);
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const approveSpec = vi.fn().mockImplementation(async (spec) => spec);
+    const result = await runFlywheel("Test brief", { autoMerge: true, approveSpec });
+
+    expect(executeSpec).toHaveBeenCalledOnce();
+    expect(approveSpec).toHaveBeenCalledOnce();
+    expect(result.logicReworks).toBeUndefined();
+  });
+});
+
+// ── Verification ──────────────────────────────────────────────────────────────
+
+describe("runFlywheel() — verification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("does not run verificationSteps unless verify is set", async () => {
+    const { runVerificationSteps } = await import("../../src/core/tools/verification.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const result = await runFlywheel("Test brief");
+
+    expect(runVerificationSteps).not.toHaveBeenCalled();
+    expect(result.verification).toBeUndefined();
+  });
+
+  it("records the VerificationResult and emits a verification event", async () => {
+    const { runVerificationSteps } = await import("../../src/core/tools/verification.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+
+    const result = await runFlywheel("Test brief", {
+      verify: true,
+      verificationScripts: ["test:integration"],
+      onEvent,
+    });
+
+    expect(runVerificationSteps).toHaveBeenCalledWith(MOCK_ARTIFACT, {
+      scripts: ["test:integration"],
+    });
+    expect(result.verification?.passed).toBe(true);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "verification", passed: true, steps: 1, failed: [] }),
+    );
+  });
+
+  it("fails the Trust Gate on a failed step and feeds it back to the rework", async () => {
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { runVerificationSteps } = await import("../../src/core/tools/verification.js");
+    vi.mocked(runVerificationSteps)
+      .mockResolvedValueOnce(verificationOf(false))
+      .mockResolvedValueOnce(verificationOf(false));
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const approveSpec = vi.fn().mockImplementation(async (spec) => spec);
+    const onEvent = vi.fn();
+    const result = await runFlywheel("Test brief", {
+      verify: true,
+      autoMerge: true,
+      logicReworkAttempts: 1,
+      approveSpec,
+      onEvent,
+    });
+
+    const instructions = vi.mocked(executeSpec).mock.calls[1]?.[2]?.instructions ?? [];
+    expect(instructions[0]).toContain("Verification step `npm run typecheck` failed (exit code 2)");
+    expect(instructions[0]).toContain("error TS2304");
+    expect(runVerificationSteps).toHaveBeenCalledTimes(2);
+    expect(result.logicReworks?.[0]?.verification?.passed).toBe(false);
+    expect(result.autoMerged).toBe(false);
+    expect(approveSpec).toHaveBeenCalledOnce();
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "trust-gate", reasons: ["Verification: npm run typecheck"] }),
+    );
+  });
+});
+
+// ── Usage & budget ────────────────────────────────────────────────────────────
+
+describe("runFlywheel() — usage & budget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const spend = (promptTokens: number) => ({
+    agent: "test",
+    model: "gpt-4o",
+    kind: "generation" as const,
+    promptTokens,
+    completionTokens: 0,
+  });
+
+  it("attributes reported usage to the running stage and totals it on the result", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordUsage?.(spend(400_000));
+      return MOCK_SPEC;
+    });
+    vi.mocked(executeSpec).mockImplementationOnce(async (_spec, ctx) => {
+      ctx?.recordUsage?.(spend(600_000));
+      return MOCK_ARTIFACT;
+    });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    const result = await runFlywheel("Test brief", { onEvent });
+
+    expect(result.usage?.totalTokens).toBe(1_000_000);
+    expect(result.usage?.costUsd).toBeCloseTo(2.5);
+    expect(result.usage?.byStage).toMatchObject({
+      plan: { totalTokens: 400_000 },
+      execute: { totalTokens: 600_000 },
+    });
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "usage", totalTokens: 1_000_000 }),
+    );
+  });
+
+  it("warns once per unpriced model through an agent:log event", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordUsage?.({ ...spend(1), model: "unknown-model" });
+      ctx?.recordUsage?.({ ...spend(1), model: "unknown-model" });
+      return MOCK_SPEC;
+    });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    const result = await runFlywheel("Test brief", { onEvent });
+
+    const warnings = onEvent.mock.calls
+      .map(([event]) => event as FlywheelEvent)
+      .filter((event) => event.type === "agent:log" && event.agent === "budget");
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        message: 'No price for model "unknown-model" — its calls are counted as $0.',
+      }),
+    ]);
+    expect(result.usage?.records[0]?.unpriced).toBe(true);
+  });
+
+  it("aborts with a budget error once the ceiling is exceeded", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordUsage?.(spend(400_000)); // $1.00
+      return MOCK_SPEC;
+    });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    await expect(
+      runFlywheel("Test brief", { budget: { maxCostUsd: 0.5 }, onEvent }),
+    ).rejects.toThrow("[budget] Run budget exceeded: $1.0000 > maxCostUsd $0.5000");
+
+    expect(executeSpec).not.toHaveBeenCalled();
+    expect(onEvent).toHaveBeenLastCalledWith(expect.objectContaining({ type: "run:error" }));
+  });
+
+  it("counts usage from before a resume towards the budget", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordUsage?.(spend(400_000));
+      return MOCK_SPEC;
+    });
+    vi.mocked(executeSpec).mockImplementationOnce(async (_spec, ctx) => {
+      ctx?.recordUsage?.(spend(400_000));
+      return MOCK_ARTIFACT;
+    });
+
+    const { resumeFlywheel, runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    await expect(
+      runFlywheel("Test brief", { budget: { maxTokens: 500_000 }, onEvent }),
+    ).rejects.toThrow("[budget]");
+    const runId = (onEvent.mock.calls[0]?.[0] as FlywheelEvent).runId;
+
+    const result = await resumeFlywheel(runId, { budget: { maxTokens: 1_000_000 } });
+    expect(result.usage?.totalTokens).toBe(800_000);
+  });
+});
+
+// ── Model fallback ────────────────────────────────────────────────────────────
+
+describe("runFlywheel() — serving models", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("records which model served each stage on the result", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordModel?.({
+        agent: "planner",
+        provider: "openai.chat",
+        model: "gpt-4o",
+        failedOver: [],
+      });
+      return MOCK_SPEC;
+    });
+    vi.mocked(auditArtifact).mockImplementationOnce(async (_artifact, ctx) => {
+      ctx?.recordModel?.({
+        agent: "auditor",
+        provider: "anthropic.messages",
+        model: "claude-sonnet-4-0",
+        failedOver: [{ provider: "openai.chat", model: "gpt-4o", error: "Too Many Requests" }],
+      });
+      return MOCK_AUDIT;
+    });
+
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const result = await runFlywheel("Test brief");
+
+    expect(result.models).toEqual([
+      { stage: "plan", agent: "planner", provider: "openai.chat", model: "gpt-4o", failedOver: [] },
+      expect.objectContaining({
+        stage: "audit",
+        agent: "auditor",
+        model: "claude-sonnet-4-0",
+        failedOver: [expect.objectContaining({ model: "gpt-4o" })],
+      }),
+    ]);
+  });
+
+  it("keeps the model log from before a resume", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.recordModel?.({
+        agent: "planner",
+        provider: "openai.chat",
+        model: "gpt-4o",
+        failedOver: [],
+      });
+      return MOCK_SPEC;
+    });
+    vi.mocked(executeSpec).mockRejectedValueOnce(new Error("[executor] Every model failed"));
+
+    const { resumeFlywheel, runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+    await expect(runFlywheel("Test brief", { onEvent })).rejects.toThrow("Every model failed");
+    const runId = (onEvent.mock.calls[0]?.[0] as FlywheelEvent).runId;
+
+    const result = await resumeFlywheel(runId);
+    expect(result.models).toEqual([expect.objectContaining({ stage: "plan", model: "gpt-4o" })]);
+  });
+});
+
 // ── HITL Approval Gate ────────────────────────────────────────────────────────
 
 describe("runFlywheel() — approveSpec gate", () => {
@@ -156,7 +652,7 @@ describe("runFlywheel() — approveSpec gate", () => {
     await runFlywheel("Test brief");
 
     // executor should have been called with the original spec
-    expect(executeSpec).toHaveBeenCalledWith(MOCK_SPEC);
+    expect(executeSpec).toHaveBeenCalledWith(MOCK_SPEC, expect.anything());
   });
 
   it("calls approveSpec with the spec and passes the return value to executor", async () => {
@@ -170,8 +666,9 @@ describe("runFlywheel() — approveSpec gate", () => {
 
     expect(approveSpec).toHaveBeenCalledOnce();
     expect(approveSpec).toHaveBeenCalledWith(MOCK_SPEC);
-    expect(executeSpec).toHaveBeenCalledWith(amendedSpec);
+    expect(executeSpec).toHaveBeenCalledWith(amendedSpec, expect.anything());
     expect(result.spec).toEqual(MOCK_SPEC); // result.spec holds the original planned spec
+    expect(result.approvedSpec).toEqual(amendedSpec);
   });
 
   it("aborts the run when approveSpec throws", async () => {
@@ -190,3 +687,236 @@ describe("runFlywheel() — approveSpec gate", () => {
     expect(executeSpec).not.toHaveBeenCalled();
   });
 });
+
+// ── Checkpoints & resume ──────────────────────────────────────────────────────
+
+describe("resumeFlywheel()", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("checkpoints every stage output under the run directory", async () => {
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const result = await runFlywheel("Test brief");
+
+    const read = (name: string) =>
+      JSON.parse(readFileSync(join(RUNS_DIR, result.runId, `${name}.json`), "utf-8"));
+    expect(read("run").brief).toBe("Test brief");
+    expect(read("plan").id).toBe(MOCK_SPEC.id);
+    expect(read("execute").id).toBe(MOCK_ARTIFACT.id);
+    expect(read("audit").id).toBe(MOCK_AUDIT.id);
+    expect(read("polish").id).toBe(MOCK_POLISHED.id);
+    expect(read("result").runId).toBe(result.runId);
+  });
+
+  it("picks up at the first stage without a checkpoint", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    const { auditArtifact } = await import("../../src/core/agents/auditor.js");
+    const { polishOutput } = await import("../../src/core/agents/polisher.js");
+    vi.mocked(polishOutput).mockRejectedValueOnce(new Error("polisher crashed"));
+
+    const { resumeFlywheel, runFlywheel } = await import("../../src/core/flywheel.js");
+    const runsDir = mkdtempSync(join(RUNS_DIR, "resume-"));
+    await expect(runFlywheel("Test brief", { runsDir })).rejects.toThrow("polisher crashed");
+
+    const [runId = ""] = readdirSync(runsDir);
+    vi.clearAllMocks();
+
+    const result = await resumeFlywheel(runId, { runsDir });
+
+    expect(planFeature).not.toHaveBeenCalled();
+    expect(executeSpec).not.toHaveBeenCalled();
+    expect(auditArtifact).not.toHaveBeenCalled();
+    expect(polishOutput).toHaveBeenCalledOnce();
+    expect(result.runId).toBe(runId);
+    expect(result.brief).toBe("Test brief");
+    expect(result.polished.summary).toBe("Polished hello endpoint");
+  });
+
+  it("throws for an unknown runId", async () => {
+    const { resumeFlywheel } = await import("../../src/core/flywheel.js");
+    await expect(resumeFlywheel("does-not-exist")).rejects.toThrow("No checkpoints found");
+  });
+});
+
+// ── Pluggable pipeline ────────────────────────────────────────────────────────
+
+describe("runFlywheel() — custom pipeline", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("runs an inserted stage with its validated input and records its output", async () => {
+    const { defineStage } = await import("../../src/core/pipeline.js");
+    const { createDefaultPipeline } = await import("../../src/core/stages.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const run = vi.fn(async (files: Record<string, string>) => ({
+      fileCount: Object.keys(files).length,
+    }));
+    const countFiles = defineStage({
+      name: "count-files",
+      input: z.record(z.string(), z.string()),
+      output: z.object({ fileCount: z.number() }),
+      select: (state) => state.artifact?.files,
+      run,
+    });
+
+    const pipeline = createDefaultPipeline().insertAfter("execute", countFiles).build();
+    await runFlywheel("Test brief", { pipeline });
+
+    expect(run).toHaveBeenCalledWith(MOCK_ARTIFACT.files, expect.anything());
+  });
+
+  it("reports the executor artifact as polished when the polish stage is removed", async () => {
+    const { polishOutput } = await import("../../src/core/agents/polisher.js");
+    const { createDefaultPipeline } = await import("../../src/core/stages.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const result = await runFlywheel("Test brief", {
+      pipeline: createDefaultPipeline().remove("polish").build(),
+    });
+
+    expect(polishOutput).not.toHaveBeenCalled();
+    expect(result.polished).toEqual(result.artifact);
+  });
+
+  it("rejects a stage output that fails its schema", async () => {
+    const { defineStage } = await import("../../src/core/pipeline.js");
+    const { createDefaultPipeline } = await import("../../src/core/stages.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+
+    const broken = defineStage({
+      name: "broken",
+      input: z.unknown(),
+      output: z.object({ ok: z.literal(true) }),
+      select: () => undefined,
+      run: async () => ({ ok: false }) as unknown as { ok: true },
+    });
+
+    await expect(
+      runFlywheel("Test brief", { pipeline: createDefaultPipeline().append(broken).build() }),
+    ).rejects.toThrow('Stage "broken" output failed validation');
+  });
+
+  it("refuses to build a pipeline without a required stage", async () => {
+    const { createDefaultPipeline } = await import("../../src/core/stages.js");
+    expect(() => createDefaultPipeline().remove("audit").build()).toThrow(
+      'Required stage "audit" is missing',
+    );
+  });
+
+  it("refuses to build a pipeline with a stage named after a run checkpoint", async () => {
+    const { createDefaultPipeline } = await import("../../src/core/stages.js");
+    const { defineStage } = await import("../../src/core/pipeline.js");
+    const usage = defineStage({
+      name: "usage",
+      input: z.unknown(),
+      output: z.unknown(),
+      select: () => undefined,
+      run: async () => undefined,
+    });
+    expect(() => createDefaultPipeline().insertAfter("audit", usage).build()).toThrow(
+      'Stage name "usage" is reserved',
+    );
+  });
+});
+
+// ── Event stream ──────────────────────────────────────────────────────────────
+
+describe("runFlywheel() — events", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("emits stage and run events carrying the runId", async () => {
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+
+    const result = await runFlywheel("Test brief", { onEvent });
+
+    const events = onEvent.mock.calls.map(([e]) => e as FlywheelEvent);
+    expect(events[0]?.type).toBe("run:start");
+    expect(events.at(-1)?.type).toBe("run:complete");
+    expect(events.every((e) => e.runId === result.runId)).toBe(true);
+
+    const stageEnds = events.filter(
+      (e): e is Extract<FlywheelEvent, { type: "stage:end" }> => e.type === "stage:end",
+    );
+    expect(stageEnds.map((e) => e.stage)).toEqual([
+      "seed",
+      "plan",
+      "approve",
+      "execute",
+      "audit",
+      "repair",
+      "verify",
+      "trust-gate",
+      "polish",
+    ]);
+    expect(stageEnds.find((e) => e.stage === "seed")?.status).toBe("skipped");
+    expect(stageEnds.find((e) => e.stage === "execute")?.status).toBe("completed");
+    for (const e of stageEnds) expect(e.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("hands agents a context whose emit reaches subscribers", async () => {
+    const { planFeature } = await import("../../src/core/agents/planner.js");
+    vi.mocked(planFeature).mockImplementationOnce(async (_brief, ctx) => {
+      ctx?.emit({
+        type: "tool:call",
+        runId: ctx.runId,
+        agent: "planner",
+        toolName: "readFile",
+        args: {},
+      });
+      return MOCK_SPEC;
+    });
+
+    const { FlywheelEventEmitter } = await import("../../src/core/events.js");
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const events = new FlywheelEventEmitter();
+    const toolCalls: string[] = [];
+    events.on("tool:call", (e) => toolCalls.push(e.toolName));
+
+    await runFlywheel("Test brief", { onEvent: events.emit });
+
+    expect(toolCalls).toEqual(["readFile"]);
+  });
+
+  it("emits a trust-gate verdict when autoMerge is set", async () => {
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const onEvent = vi.fn();
+
+    const result = await runFlywheel("Test brief", { autoMerge: true, onEvent });
+
+    expect(result.autoMerged).toBe(true);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "trust-gate", passed: true, reasons: [] }),
+    );
+  });
+
+  it("streamFlywheel() yields events ending in run:complete", async () => {
+    const { streamFlywheel } = await import("../../src/core/flywheel.js");
+
+    const types: string[] = [];
+    for await (const event of streamFlywheel("Test brief")) types.push(event.type);
+
+    expect(types[0]).toBe("run:start");
+    expect(types.at(-1)).toBe("run:complete");
+    expect(types).toContain("stage:start");
+  });
+
+  it("streamFlywheel() yields run:error and then rethrows", async () => {
+    const { executeSpec } = await import("../../src/core/agents/executor.js");
+    vi.mocked(executeSpec).mockRejectedValueOnce(new Error("executor exploded"));
+    const { streamFlywheel } = await import("../../src/core/flywheel.js");
+
+    const types: string[] = [];
+    await expect(async () => {
+      for await (const event of streamFlywheel("Test brief")) types.push(event.type);
+    }).rejects.toThrow("executor exploded");
+    expect(types.at(-1)).toBe("run:error");
+  });
+});
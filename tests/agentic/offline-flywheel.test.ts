@@ -0,0 +1,183 @@
+/**
+ * tests/agentic/offline-flywheel.test.ts
+ *
+ * End-to-end test of `runFlywheel` on the offline scripted LLM provider.
+ *
+ * Unlike flywheel.test.ts, no agent is mocked: LLM_SCRIPT switches every role
+ * to a ScriptedLanguageModel, so prompts, tool loops, guardrail parsing and
+ * usage metering all run for real. MEMORY_STORE=memory swaps ChromaDB and
+ * its embedding API for the in-process store with local embeddings.
+ *
+ * The cassette test records a scripted run with LLM_CASSETTE and replays it
+ * with no script at all, as a production run's cassette would be.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import type { LlmScript } from "../../.agentic/roles/scripted-model.js";
+import type { FlywheelEvent } from "../../docs/schema/entities.js";
+
+const TMP = mkdtempSync(join(tmpdir(), "offline-flywheel-"));
+const SCRIPT_PATH = join(TMP, "llm-script.json");
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["FLYWHEEL_RUNS_DIR"] = join(TMP, "runs");
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["LLM_SCRIPT"] = SCRIPT_PATH;
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["MEMORY_STORE"] = "memory";
+
+afterAll(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const CREATED_AT = "2026-01-01T00:00:00.000Z";
+
+const ARTIFACT = {
+  id: "artifact-1",
+  specId: "spec-1",
+  files: { "src/api/hello.ts": 'export function hello() { return { message: "Hello" }; }\n' },
+  summary: "Implemented hello endpoint",
+  verificationSteps: ["npm run typecheck"],
+  createdAt: CREATED_AT,
+};
+
+const SCRIPT: LlmScript = {
+  responses: [
+    {
+      role: "product-architect",
+      steps: [
+        { toolCalls: [{ toolName: "listDirectory", args: { path: "src/core" } }] },
+        {
+          json: {
+            id: "spec-1",
+            title: "Hello World Endpoint",
+            brief: "Add a GET /hello endpoint",
+            acceptanceCriteria: ["Returns 200 with {message: 'Hello'}"],
+            affectedPaths: ["src/api/hello.ts"],
+            referencedADRs: [],
+            createdAt: CREATED_AT,
+          },
+          toolCalls: [],
+        },
+      ],
+    },
+    { role: "agentic-engineer", steps: [{ json: ARTIFACT, toolCalls: [] }] },
+    {
+      role: "security-lead",
+      steps: [
+        {
+          json: {
+            id: "audit-1",
+            artifactId: ARTIFACT.id,
+            passed: true,
+            findings: [],
+            summary: "No issues found.",
+            createdAt: CREATED_AT,
+          },
+          toolCalls: [],
+        },
+      ],
+    },
+    {
+      role: "vibe-engineer",
+      steps: [
+        {
+          json: { ...ARTIFACT, id: "artifact-2", summary: "Polished hello endpoint" },
+          toolCalls: [],
+        },
+      ],
+    },
+  ],
+};
+writeFileSync(SCRIPT_PATH, JSON.stringify(SCRIPT));
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("runFlywheel() — offline scripted LLM", () => {
+  it("runs every stage through the scripted models, tool calls included", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const events: string[] = [];
+
+    const result = await runFlywheel("Add a hello world endpoint", {
+      onEvent: (event) => {
+        if (event.type === "tool:call") events.push(`${event.agent}:${event.toolName}`);
+      },
+    });
+
+    expect(result.spec.title).toBe("Hello World Endpoint");
+    expect(result.artifact.files["src/api/hello.ts"]).toContain("Hello");
+    expect(result.audit.passed).toBe(true);
+    expect(result.polished.summary).toBe("Polished hello endpoint");
+    expect(events).toContain("planner:listDirectory");
+    expect(result.models?.map((m) => `${m.provider}/${m.model}`)).toEqual([
+      "scripted/scripted-product-architect",
+      "scripted/scripted-agentic-engineer",
+      "scripted/scripted-security-lead",
+      "scripted/scripted-vibe-engineer",
+    ]);
+    expect(result.usage?.totalTokens).toBeGreaterThan(0);
+    expect(result.usage?.costUsd).toBe(0);
+  });
+
+  it("reports agent progress as events and leaves printing to the renderer", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { runFlywheel } = await import("../../src/core/flywheel.js");
+    const { renderEventToConsole } = await import("../../src/core/events.js");
+    const events: FlywheelEvent[] = [];
+
+    await runFlywheel("Add a hello world endpoint", { onEvent: (event) => events.push(event) });
+
+    const printed = () => [...log.mock.calls, ...warn.mock.calls].map((args) => String(args[0]));
+    expect(
+      printed().filter((line) => /^\[(planner|executor|auditor|polisher)\]/.test(line)),
+    ).toEqual([]);
+    const progress = events.flatMap((e) =>
+      e.type === "agent:log" ? [`${e.agent}: ${e.message}`] : [],
+    );
+    expect(progress).toContain('planner: ✓ Spec: "Hello World Endpoint" (1 criteria)');
+    expect(progress).toContain("polisher: ✓ Polish complete");
+
+    for (const event of events) renderEventToConsole(event);
+    expect(printed()).toContain("[polisher] ✓ Polish complete");
+  });
+});
+
+describe("runFlywheel() — LLM cassettes", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("replays a recorded run with no model behind it", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const cassettes = join(TMP, "cassettes");
+
+    vi.stubEnv("LLM_CASSETTE", cassettes);
+    vi.stubEnv("LLM_CASSETTE_MODE", "record");
+    vi.resetModules();
+    const recording = await (await import("../../src/core/flywheel.js")).runFlywheel(
+      "Add a hello world endpoint",
+    );
+
+    vi.stubEnv("LLM_SCRIPT", "");
+    vi.stubEnv("LLM_CASSETTE_MODE", "replay");
+    vi.resetModules();
+    const replay = await (await import("../../src/core/flywheel.js")).runFlywheel(
+      "Add a hello world endpoint",
+    );
+
+    expect(replay.polished).toEqual(recording.polished);
+    expect(replay.usage?.totalTokens).toBe(recording.usage?.totalTokens);
+    expect(replay.models?.map((m) => `${m.provider}/${m.model}`)).toEqual([
+      "replay/scripted-product-architect",
+      "replay/scripted-agentic-engineer",
+      "replay/scripted-security-lead",
+      "replay/scripted-vibe-engineer",
+    ]);
+  });
+});
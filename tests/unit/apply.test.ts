@@ -0,0 +1,219 @@
+/**
+ * tests/unit/apply.test.ts
+ *
+ * Unit tests for applyArtifact() — writing a CodeArtifact to a git branch.
+ * Each test runs against a throwaway git repository in the OS temp dir.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AuditReport, CodeArtifact, TechSpec } from "../../docs/schema/entities.js";
+import { applyArtifact, branchNameFor, buildCommitMessage } from "../../src/core/apply.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SPEC: TechSpec = {
+  id: "spec-123",
+  title: "Add GET /hello endpoint",
+  brief: "Add a GET /hello endpoint",
+  acceptanceCriteria: ["Returns 200 with {message: 'Hello'}"],
+  affectedPaths: ["src/api/hello.ts", "tests/api/"],
+  referencedADRs: [],
+  createdAt: new Date().toISOString(),
+};
+
+const ARTIFACT: CodeArtifact = {
+  id: "artifact-1",
+  specId: SPEC.id,
+  files: {
+    "src/api/hello.ts": "export const hello = () => ({ message: 'Hello' });\n",
+    "tests/api/hello.test.ts": "// test\n",
+  },
+  summary: "Implemented hello endpoint",
+  verificationSteps: [],
+  createdAt: new Date().toISOString(),
+};
+
+const AUDIT: AuditReport = {
+  id: "audit-1",
+  artifactId: ARTIFACT.id,
+  passed: true,
+  findings: [],
+  summary: "No issues found.",
+  createdAt: new Date().toISOString(),
+};
+
+let repo: string;
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: repo, encoding: "utf-8" }).trim();
+
+beforeEach(() => {
+  repo = mkdtempSync(join(tmpdir(), "apply-"));
+  git("init", "--quiet", "--initial-branch", "main");
+  git("config", "user.email", "test@example.com");
+  git("config", "user.name", "Test");
+  writeFileSync(join(repo, "README.md"), "# repo\n");
+  git("add", ".");
+  git("commit", "--quiet", "--message", "initial");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  rmSync(repo, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("applyArtifact()", () => {
+  it("commits the files to flywheel/<spec.id> and leaves it checked out", async () => {
+    const log = vi.spyOn(console, "log");
+    const result = await applyArtifact(
+      { spec: SPEC, artifact: ARTIFACT, audit: AUDIT },
+      { repoDir: repo },
+    );
+
+    expect(result.branch).toBe("flywheel/spec-123");
+    expect(result.files).toEqual(["src/api/hello.ts", "tests/api/hello.test.ts"]);
+    expect(git("branch", "--show-current")).toBe("flywheel/spec-123");
+    expect(git("rev-parse", "HEAD")).toBe(result.commit);
+    expect(git("status", "--porcelain")).toBe("");
+    expect(readFileSync(join(repo, "src/api/hello.ts"), "utf-8")).toBe(
+      ARTIFACT.files["src/api/hello.ts"],
+    );
+    expect(git("log", "-1", "--format=%s")).toBe(SPEC.title);
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it("applies patches against the current tree", async () => {
+    const artifact = {
+      ...ARTIFACT,
+      files: {},
+      patches: {
+        "README.md": "--- a/README.md\n+++ b/README.md\n@@ -1 +1,2 @@\n # repo\n+Hello\n",
+      },
+    };
+
+    const result = await applyArtifact(
+      { spec: { ...SPEC, affectedPaths: ["README.md"] }, artifact, audit: AUDIT },
+      { repoDir: repo },
+    );
+
+    expect(result.files).toEqual(["README.md"]);
+    expect(readFileSync(join(repo, "README.md"), "utf-8")).toBe("# repo\nHello\n");
+  });
+
+  it("refuses a patch that does not apply before touching the repository", async () => {
+    const artifact = {
+      ...ARTIFACT,
+      files: {},
+      patches: { "README.md": "--- a/README.md\n+++ b/README.md\n@@ -1 +1 @@\n-# other\n+# x\n" },
+    };
+
+    await expect(
+      applyArtifact(
+        { spec: { ...SPEC, affectedPaths: ["README.md"] }, artifact, audit: AUDIT },
+        { repoDir: repo },
+      ),
+    ).rejects.toThrow("do not apply");
+    expect(git("branch", "--show-current")).toBe("main");
+  });
+
+  it("rolls back the files and branch when a pre-commit hook rejects the commit", async () => {
+    writeFileSync(
+      join(repo, ".git/hooks/pre-commit"),
+      "#!/bin/sh\necho 'lint failed' >&2\nexit 1\n",
+      {
+        mode: 0o755,
+      },
+    );
+    // Neither a global hooksPath nor one set through GIT_CONFIG_* may bypass the hook
+    git("config", "core.hooksPath", ".git/hooks");
+    vi.stubEnv("GIT_CONFIG_COUNT", "0");
+    const artifact = {
+      ...ARTIFACT,
+      patches: {
+        "README.md": "--- a/README.md\n+++ b/README.md\n@@ -1 +1,2 @@\n # repo\n+Hello\n",
+      },
+    };
+
+    await expect(
+      applyArtifact(
+        {
+          spec: { ...SPEC, affectedPaths: [...SPEC.affectedPaths, "README.md"] },
+          artifact,
+          audit: AUDIT,
+        },
+        { repoDir: repo },
+      ),
+    ).rejects.toThrow("lint failed");
+    expect(git("branch", "--show-current")).toBe("main");
+    expect(git("branch", "--list", "flywheel/*")).toBe("");
+    expect(git("status", "--porcelain", "--untracked-files=all")).toBe("");
+    expect(readFileSync(join(repo, "README.md"), "utf-8")).toBe("# repo\n");
+  });
+
+  it("refuses paths outside spec.affectedPaths unless forced", async () => {
+    const artifact = { ...ARTIFACT, files: { ...ARTIFACT.files, "package.json": "{}" } };
+
+    await expect(
+      applyArtifact({ spec: SPEC, artifact, audit: AUDIT }, { repoDir: repo }),
+    ).rejects.toThrow("outside spec.affectedPaths");
+    expect(git("branch", "--show-current")).toBe("main");
+
+    const result = await applyArtifact(
+      { spec: SPEC, artifact, audit: AUDIT },
+      { repoDir: repo, force: true },
+    );
+    expect(result.files).toContain("package.json");
+  });
+
+  it("always refuses paths that escape the repository", async () => {
+    const artifact = { ...ARTIFACT, files: { "../outside.ts": "x", ".git/hooks/pre-commit": "x" } };
+
+    await expect(
+      applyArtifact({ spec: SPEC, artifact, audit: AUDIT }, { repoDir: repo, force: true }),
+    ).rejects.toThrow("outside the repository");
+  });
+
+  it("refuses a dirty working tree", async () => {
+    writeFileSync(join(repo, "README.md"), "# changed\n");
+
+    await expect(
+      applyArtifact({ spec: SPEC, artifact: ARTIFACT, audit: AUDIT }, { repoDir: repo }),
+    ).rejects.toThrow("uncommitted changes");
+  });
+
+  it("refuses to reuse an existing branch", async () => {
+    git("branch", "flywheel/spec-123");
+
+    await expect(
+      applyArtifact({ spec: SPEC, artifact: ARTIFACT, audit: AUDIT }, { repoDir: repo }),
+    ).rejects.toThrow('Branch "flywheel/spec-123" already exists');
+  });
+});
+
+describe("buildCommitMessage()", () => {
+  it("includes the criteria, audit verdict and provenance trailers", () => {
+    const message = buildCommitMessage({
+      spec: SPEC,
+      artifact: ARTIFACT,
+      audit: { ...AUDIT, passed: false, summary: "One high finding." },
+    });
+
+    expect(message.split("\n")[0]).toBe(SPEC.title);
+    expect(message).toContain("- Returns 200 with {message: 'Hello'}");
+    expect(message).toContain("Security audit: FAILED (0 finding(s))\nOne high finding.");
+    expect(message).toContain("Spec-Id: spec-123\nArtifact-Id: artifact-1");
+  });
+});
+
+describe("branchNameFor()", () => {
+  it("replaces characters git does not allow in ref names", () => {
+    expect(branchNameFor({ ...SPEC, id: "feat: add ~login^" })).toBe("flywheel/feat-add-login");
+  });
+});
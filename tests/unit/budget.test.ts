@@ -0,0 +1,100 @@
+/**
+ * tests/unit/budget.test.ts
+ *
+ * Unit tests for token / cost accounting — price lookup, the UsageMeter's
+ * per-stage totals and budget enforcement.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { describe, expect, it } from "vitest";
+import { type AgentUsage, UsageMeter, costOf, priceFor } from "../../src/core/guardrails/budget.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const call = (overrides: Partial<AgentUsage> = {}): AgentUsage => ({
+  agent: "executor",
+  model: "gpt-4o",
+  kind: "generation",
+  promptTokens: 1_000_000,
+  completionTokens: 100_000,
+  ...overrides,
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("priceFor()", () => {
+  it("prefers an exact entry, then the longest matching prefix", () => {
+    expect(priceFor("gpt-4o-mini")).toEqual({ input: 0.15, output: 0.6 });
+    expect(priceFor("gpt-4o-2024-08-06")).toEqual({ input: 2.5, output: 10 });
+    expect(priceFor("gpt-4o-mini-2024-07-18")).toEqual({ input: 0.15, output: 0.6 });
+    expect(priceFor("unknown-model")).toBeUndefined();
+  });
+});
+
+describe("costOf()", () => {
+  it("prices input and output tokens per million", () => {
+    expect(costOf("gpt-4o", { promptTokens: 1_000_000, completionTokens: 100_000 })).toBe(3.5);
+    expect(costOf("unknown-model", { promptTokens: 1_000, completionTokens: 1_000 })).toBe(0);
+  });
+
+  it("uses a custom price table", () => {
+    expect(
+      costOf(
+        "mine",
+        { promptTokens: 500_000, completionTokens: 0 },
+        { mine: { input: 2, output: 0 } },
+      ),
+    ).toBe(1);
+  });
+});
+
+describe("UsageMeter", () => {
+  it("totals usage per stage and overall", () => {
+    const meter = new UsageMeter();
+    meter.record("plan", call({ agent: "planner" }));
+    meter.record("execute", call());
+    meter.record("execute", call({ kind: "correction", attempt: 1, completionTokens: 0 }));
+
+    const usage = meter.totals();
+    expect(usage.totalTokens).toBe(3_200_000);
+    expect(usage.costUsd).toBeCloseTo(9.5);
+    expect(usage.byStage).toMatchObject({ execute: { totalTokens: 2_100_000 } });
+    expect(usage.records[2]).toMatchObject({ stage: "execute", kind: "correction", attempt: 1 });
+  });
+
+  it("counts unreported (NaN) usage as zero tokens", () => {
+    const meter = new UsageMeter();
+    meter.record("plan", call({ promptTokens: Number.NaN, completionTokens: Number.NaN }));
+    expect(meter.totals().totalTokens).toBe(0);
+  });
+
+  it("flags records of models without a price instead of printing a warning", () => {
+    const meter = new UsageMeter();
+    expect(meter.record("plan", call()).unpriced).toBeUndefined();
+    expect(meter.record("plan", call({ model: "unknown-model" }))).toMatchObject({
+      costUsd: 0,
+      unpriced: true,
+    });
+  });
+
+  it("throws once the token or dollar ceiling is exceeded", () => {
+    const tokens = new UsageMeter({ budget: { maxTokens: 1_500_000 } });
+    tokens.record("plan", call());
+    expect(() => tokens.assertWithinBudget()).not.toThrow();
+    tokens.record("execute", call());
+    expect(() => tokens.assertWithinBudget()).toThrow("[budget] Run budget exceeded");
+
+    const dollars = new UsageMeter({ budget: { maxCostUsd: 1 } });
+    dollars.record("plan", call());
+    expect(() => dollars.assertWithinBudget()).toThrow("$3.5000 > maxCostUsd $1.0000");
+  });
+
+  it("counts usage from before a resume towards the budget", () => {
+    const first = new UsageMeter();
+    first.record("plan", call());
+
+    const resumed = new UsageMeter({ budget: { maxTokens: 1_000_000 }, initial: first.totals() });
+    expect(resumed.totals().totalTokens).toBe(1_100_000);
+    expect(() => resumed.assertWithinBudget()).toThrow("maxTokens");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * tests/unit/cassette.test.ts
+ *
+ * Unit tests for LLM cassettes — recording calls through a real generateText,
+ * replaying them with their original usage, and handling prompt drift.
+ * A ScriptedLanguageModel stands in for the provider being recorded.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateText, tool } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  ReplayLanguageModel,
+  cassetteConfig,
+  cassettePath,
+  loadCassette,
+  recordCalls,
+  resetCassettes,
+} from "../../.agentic/roles/cassette.js";
+import { ScriptedLanguageModel } from "../../.agentic/roles/scripted-model.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const recorded = new ScriptedLanguageModel("product-architect", {
+  responses: [
+    {
+      role: "product-architect",
+      promptIncludes: "GET /hello",
+      steps: [
+        { toolCalls: [{ toolName: "lookup", args: { term: "hello" } }] },
+        { text: "planned hello", toolCalls: [] },
+      ],
+    },
+    { role: "product-architect", steps: [{ text: "planned something else", toolCalls: [] }] },
+  ],
+});
+
+const tools = {
+  lookup: tool({
+    description: "Look up a term",
+    parameters: z.object({ term: z.string() }),
+    execute: async ({ term }) => `definition of ${term}`,
+  }),
+};
+
+const plan = (model: Parameters<typeof generateText>[0]["model"], prompt: string) =>
+  generateText({ model, maxSteps: 3, tools, prompt });
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "cassette-"));
+  resetCassettes();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function recordSession(): Promise<void> {
+  const model = recordCalls(recorded, "product-architect", dir);
+  await plan(model, "Plan GET /hello");
+  await plan(model, "Plan the billing page");
+  resetCassettes();
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("recordCalls()", () => {
+  it("writes every step of every call to the role's cassette", async () => {
+    await recordSession();
+
+    const cassette = loadCassette(cassettePath(dir, "product-architect"));
+    expect(cassette.role).toBe("product-architect");
+    expect(cassette.interactions.map((i) => i.response.finishReason)).toEqual([
+      "tool-calls",
+      "stop",
+      "stop",
+    ]);
+    expect(cassette.interactions[0]?.response.toolCalls[0]?.toolName).toBe("lookup");
+    expect(cassette.interactions[0]?.request.tools).toEqual(["lookup"]);
+    expect(cassette.interactions[0]?.model).toBe("scripted-product-architect");
+  });
+});
+
+describe("ReplayLanguageModel", () => {
+  it("serves the recorded responses, usage and model ID back", async () => {
+    await recordSession();
+    const replay = new ReplayLanguageModel(
+      "product-architect",
+      cassettePath(dir, "product-architect"),
+    );
+
+    const result = await plan(replay, "Plan GET /hello");
+
+    expect(result.text).toBe("planned hello");
+    expect(result.steps[0]?.toolResults[0]?.result).toBe("definition of hello");
+    expect(result.usage.promptTokens).toBeGreaterThan(0);
+    expect(replay.modelId).toBe("scripted-product-architect");
+  });
+
+  it("matches calls by request, whatever order they come in", async () => {
+    await recordSession();
+    const onDrift = vi.fn();
+    const replay = new ReplayLanguageModel(
+      "product-architect",
+      cassettePath(dir, "product-architect"),
+      { onDrift },
+    );
+
+    expect((await plan(replay, "Plan the billing page")).text).toBe("planned something else");
+    expect((await plan(replay, "Plan GET /hello")).text).toBe("planned hello");
+    expect(onDrift).not.toHaveBeenCalled();
+  });
+
+  it("rejects a drifted prompt, or replays it in recorded order given onDrift", async () => {
+    await recordSession();
+    const path = cassettePath(dir, "product-architect");
+
+    const strict = new ReplayLanguageModel("product-architect", path);
+    await expect(plan(strict, "Plan GET /hi")).rejects.toThrow("re-record the cassette");
+
+    resetCassettes();
+    const onDrift = vi.fn();
+    const lenient = await plan(
+      new ReplayLanguageModel("product-architect", path, { onDrift }),
+      "Plan GET /hi",
+    );
+    expect(lenient.text).toBe("planned hello");
+    expect(onDrift).toHaveBeenCalledWith(expect.stringContaining("does not match the recording"));
+  });
+
+  it("fails once every interaction has been replayed", async () => {
+    await recordSession();
+    const replay = new ReplayLanguageModel(
+      "product-architect",
+      cassettePath(dir, "product-architect"),
+      { onDrift: () => {} },
+    );
+    await plan(replay, "Plan GET /hello");
+    await plan(replay, "Plan the billing page");
+
+    await expect(plan(replay, "Plan the billing page")).rejects.toThrow(
+      "all 3 recorded interaction(s)",
+    );
+  });
+});
+
+describe("cassetteConfig()", () => {
+  it("defaults to replay and rejects unknown modes", () => {
+    expect(cassetteConfig({})).toBeUndefined();
+    expect(cassetteConfig({ LLM_CASSETTE: "cassettes" })).toEqual({
+      dir: "cassettes",
+      mode: "replay",
+    });
+    expect(() => cassetteConfig({ LLM_CASSETTE: "c", LLM_CASSETTE_MODE: "rewind" })).toThrow(
+      'LLM_CASSETTE_MODE must be "record" or "replay"',
+    );
+  });
+});
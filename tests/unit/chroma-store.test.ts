@@ -0,0 +1,113 @@
+/**
+ * tests/unit/chroma-store.test.ts
+ *
+ * Unit tests for ChromaMemoryStore's inspection and metadata operations,
+ * against a fake Chroma client and collection.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { localEmbeddings } from "../../.agentic/memory/embeddings.js";
+
+// ── Fake Chroma collection ────────────────────────────────────────────────────
+
+const collection = vi.hoisted(() => ({
+  get: vi.fn(),
+  count: vi.fn(),
+  update: vi.fn(),
+  upsert: vi.fn(),
+}));
+
+/** Names the fake client holds; any other name is not found */
+const existing = vi.hoisted(() => new Set<string>());
+const created = vi.hoisted(() => [] as string[]);
+
+vi.mock("chromadb", () => {
+  class ChromaNotFoundError extends Error {}
+  return {
+    ChromaNotFoundError,
+    OpenAIEmbeddingFunction: class {},
+    ChromaClient: class {
+      async getCollection({ name }: { name: string }) {
+        if (!existing.has(name)) throw new ChromaNotFoundError(`Collection ${name} not found`);
+        return Object.assign(collection, {
+          metadata: { embedding_model: "local:hashed-ngram-512x3" },
+        });
+      }
+      async getOrCreateCollection({ name, metadata }: { name: string; metadata: object }) {
+        created.push(name);
+        existing.add(name);
+        return Object.assign(collection, { metadata });
+      }
+      async listCollections() {
+        return [...existing];
+      }
+    },
+  };
+});
+
+const { ChromaMemoryStore } = await import("../../.agentic/memory/chroma-store.js");
+
+const store = () => new ChromaMemoryStore({ embedding: localEmbeddings() });
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  existing.clear();
+  existing.add("plans");
+  created.length = 0;
+  collection.get.mockResolvedValue({
+    ids: ["b", "a"],
+    documents: ["B", "A"],
+    metadatas: [{ type: "adr" }, null],
+  });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("ChromaMemoryStore", () => {
+  it("returns get() results in the order of the requested IDs", async () => {
+    const docs = await store().get("plans", ["a", "missing", "b"]);
+
+    expect(collection.get).toHaveBeenCalledWith({ ids: ["a", "missing", "b"] });
+    expect(docs).toEqual([
+      { id: "a", content: "A", metadata: {} },
+      { id: "b", content: "B", metadata: { type: "adr" } },
+    ]);
+  });
+
+  it("passes where, limit and offset through to list() and count()", async () => {
+    collection.count.mockResolvedValue(7);
+    const s = store();
+
+    await s.list("plans", { where: { type: "adr" }, limit: 10, offset: 20 });
+    expect(collection.get).toHaveBeenCalledWith({ where: { type: "adr" }, limit: 10, offset: 20 });
+    expect(await s.count("plans")).toBe(7);
+    expect(await s.count("plans", { type: "adr" })).toBe(2);
+    expect(collection.get).toHaveBeenLastCalledWith({ where: { type: "adr" }, include: [] });
+  });
+
+  it("merges metadata patches and updates only existing documents", async () => {
+    await store().updateMetadata("plans", ["a", "b", "missing"], { stale: true });
+
+    expect(collection.update).toHaveBeenCalledWith({
+      ids: ["a", "b"],
+      metadatas: [{ stale: true }, { type: "adr", stale: true }],
+    });
+  });
+
+  it("reads a missing collection as empty without creating it", async () => {
+    const s = store();
+
+    expect(await s.count("runbooks")).toBe(0);
+    expect(await s.list("runbooks")).toEqual([]);
+    expect(await s.get("runbooks", ["a"])).toEqual([]);
+    expect(await s.query("runbooks", "deploy")).toEqual([]);
+    await s.delete("runbooks", ["a"]);
+    expect(created).toEqual([]);
+    expect(await s.listCollections()).toEqual(["plans"]);
+
+    await s.upsert("runbooks", [{ id: "a", content: "A", metadata: {} }]);
+    expect(created).toEqual(["runbooks"]);
+    expect(await s.listCollections()).toEqual(["plans", "runbooks"]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * tests/unit/chunking.test.ts
+ *
+ * Unit tests for the token-budget, sliding-window and heading-breadcrumb
+ * chunking strategies, their validation, and choosing them per
+ * indexDocuments() input (MEMORY_STORE=memory).
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import {
+  ChunkingSchema,
+  chunkTokens,
+  chunkWindows,
+  chunkWith,
+  countTokens,
+  headingSections,
+  indexDocuments,
+} from "../../src/core/context/indexer.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+/** `n` ≤ 100 numbered words: "w00 w01 …" — one token (four characters) each with its space. */
+function words(n: number): string {
+  return Array.from({ length: n }, (_, i) => `w${String(i).padStart(2, "0")}`).join(" ");
+}
+
+const ARCHITECTURE = `# Architecture
+
+Intro to the system.
+
+## Flywheel
+
+### Stage 4
+
+The auditor reviews every artifact.
+
+\`\`\`md
+# not a heading
+\`\`\`
+
+## Guardrails
+
+PII is filtered before embedding.
+`;
+
+beforeEach(() => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetMemoryStore();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("chunkWindows()", () => {
+  it("repeats the last `overlap` tokens of each window at the start of the next", () => {
+    const chunks = chunkWindows(words(100), 40, 10);
+
+    expect(chunks).toHaveLength(3);
+    for (const chunk of chunks) expect(countTokens(chunk)).toBeLessThanOrEqual(40);
+    expect(chunks[0]?.endsWith("w39")).toBe(true);
+    expect(chunks[1]?.startsWith("w30 ")).toBe(true);
+    expect(chunks.at(-1)?.endsWith("w99")).toBe(true);
+  });
+
+  it("rejects an overlap that would never advance", () => {
+    expect(() => chunkWindows(words(10), 5, 5)).toThrow("[indexer] overlap (5)");
+  });
+});
+
+describe("chunkTokens()", () => {
+  it("packs paragraphs by token budget and windows oversized ones without losing text", () => {
+    const text = [words(30), words(30), words(100)].join("\n\n");
+    const chunks = chunkTokens(text, 80);
+
+    expect(chunks[0]).toBe(`${words(30)}\n\n${words(30)}`);
+    for (const chunk of chunks) expect(countTokens(chunk)).toBeLessThanOrEqual(80);
+    expect(chunks.at(-1)?.endsWith("w99")).toBe(true);
+  });
+});
+
+describe("headingSections()", () => {
+  it("tracks the heading path, skipping fenced code and heading-only sections", () => {
+    expect(headingSections(ARCHITECTURE).map((s) => s.path)).toEqual([
+      "Architecture",
+      "Architecture > Flywheel > Stage 4",
+      "Architecture > Guardrails",
+    ]);
+  });
+});
+
+describe("chunkWith()", () => {
+  it("prepends breadcrumbs and records them as metadata", () => {
+    const chunks = chunkWith({ strategy: "tokens", breadcrumbs: true }, ARCHITECTURE);
+
+    expect(chunks[1]?.content).toMatch(
+      /^Architecture > Flywheel > Stage 4\n\n### Stage 4\n\nThe auditor/,
+    );
+    expect(chunks[1]?.metadata).toEqual({ headingPath: "Architecture > Flywheel > Stage 4" });
+  });
+
+  it("validates chunking settings", () => {
+    expect(ChunkingSchema.safeParse("window").success).toBe(true);
+    expect(
+      ChunkingSchema.safeParse({ strategy: "window", maxTokens: 50, overlap: 60 }).success,
+    ).toBe(false);
+    expect(ChunkingSchema.safeParse({ strategy: "tokens", maxToken: 50 }).success).toBe(false);
+  });
+});
+
+describe("indexDocuments() with chunking options", () => {
+  it("chunks each input with its own strategy", async () => {
+    await indexDocuments([
+      { id: "a", content: words(100), collection: "plans", chunking: "text" },
+      {
+        id: "b",
+        content: words(100),
+        collection: "plans",
+        chunking: { strategy: "window", maxTokens: 40, overlap: 10 },
+      },
+    ]);
+
+    expect(await getMemoryStore().count("plans")).toBe(4);
+    const [second] = await getMemoryStore().get("plans", ["b-chunk1"]);
+    expect(second?.content.startsWith("w30 ")).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * tests/unit/embeddings.test.ts
+ *
+ * Unit tests for embedding providers, their per-collection configuration and
+ * ChromaMemoryStore's refusal to mix models in one collection.
+ * No API keys, no network — the Chroma client is replaced by a fake.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  customEmbeddings,
+  embeddingForCollection,
+  localEmbeddings,
+  parseEmbeddingSpec,
+} from "../../.agentic/memory/embeddings.js";
+
+// ── Fake Chroma client ────────────────────────────────────────────────────────
+
+interface FakeCollection {
+  name: string;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+const chroma = vi.hoisted(() => ({ collections: [] as FakeCollection[] }));
+
+vi.mock("chromadb", () => ({
+  ChromaNotFoundError: class extends Error {},
+  OpenAIEmbeddingFunction: class {},
+  ChromaClient: class {
+    async getOrCreateCollection(c: FakeCollection) {
+      let existing = chroma.collections.find((e) => e.name === c.name);
+      if (!existing) {
+        existing = { name: c.name, ...(c.metadata ? { metadata: c.metadata } : {}) };
+        chroma.collections.push(existing);
+      }
+      return { ...existing, upsert: vi.fn() };
+    }
+  },
+}));
+
+const { ChromaMemoryStore } = await import("../../.agentic/memory/chroma-store.js");
+
+const DOC = { id: "adr-1", content: "Use Zod for validation", metadata: {} };
+
+beforeEach(() => {
+  chroma.collections = [];
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("parseEmbeddingSpec()", () => {
+  it("parses openai and local specs into provider ids", () => {
+    expect(parseEmbeddingSpec("openai").id).toBe("openai:text-embedding-3-small");
+    expect(parseEmbeddingSpec("openai:text-embedding-3-large").id).toBe(
+      "openai:text-embedding-3-large",
+    );
+    expect(parseEmbeddingSpec("local").id).toBe("local:hashed-ngram-512x3");
+    expect(parseEmbeddingSpec("local:128").id).toBe("local:hashed-ngram-128x3");
+  });
+
+  it("rejects unknown providers and bad dimension counts", () => {
+    expect(() => parseEmbeddingSpec("cohere")).toThrow('unknown embedding provider "cohere"');
+    expect(() => parseEmbeddingSpec("local:big", "EMBEDDING_MODEL")).toThrow(
+      'EMBEDDING_MODEL: "big" is not a dimension count',
+    );
+  });
+});
+
+describe("embeddingForCollection()", () => {
+  it("prefers EMBEDDING_MODEL_<COLLECTION>, then EMBEDDING_MODEL, then the default", () => {
+    const env = { EMBEDDING_MODEL: "local", EMBEDDING_MODEL_QUALITY_BAR: "local:64" };
+
+    expect(embeddingForCollection("quality-bar", env).id).toBe("local:hashed-ngram-64x3");
+    expect(embeddingForCollection("plans", env).id).toBe("local:hashed-ngram-512x3");
+    expect(embeddingForCollection("plans", {}).id).toBe("openai:text-embedding-3-small");
+  });
+
+  it("produces deterministic local vectors without an API key", async () => {
+    const [a, b] = await localEmbeddings({ dimensions: 32 }).generate(["zod", "zod"]);
+    expect(a).toHaveLength(32);
+    expect(a).toEqual(b);
+  });
+
+  it("namespaces custom providers and requires an id", () => {
+    expect(customEmbeddings("code-v2", async (texts) => texts.map(() => [1])).id).toBe(
+      "custom:code-v2",
+    );
+    expect(() => customEmbeddings(" ", async () => [])).toThrow("needs an id");
+  });
+});
+
+describe("ChromaMemoryStore embeddings", () => {
+  it("records the provider in the metadata of new collections", async () => {
+    const store = new ChromaMemoryStore({
+      embedding: localEmbeddings(),
+      embeddings: { code: customEmbeddings("code-v2", async (t) => t.map(() => [1])) },
+    });
+    await store.upsert("plans", [DOC]);
+    await store.upsert("code", [DOC]);
+
+    expect(chroma.collections).toEqual([
+      {
+        name: "plans",
+        metadata: { "hnsw:space": "cosine", embedding_model: "local:hashed-ngram-512x3" },
+      },
+      { name: "code", metadata: { "hnsw:space": "cosine", embedding_model: "custom:code-v2" } },
+    ]);
+  });
+
+  it("opens a new collection once when first used concurrently", async () => {
+    const store = new ChromaMemoryStore({ embedding: localEmbeddings() });
+    await Promise.all([store.upsert("plans", [DOC]), store.upsert("plans", [DOC])]);
+
+    expect(chroma.collections.map((c) => c.name)).toEqual(["plans"]);
+  });
+
+  it("refuses a collection embedded with a different model", async () => {
+    chroma.collections = [
+      { name: "plans", metadata: { embedding_model: "openai:text-embedding-3-large" } },
+    ];
+    const store = new ChromaMemoryStore({ embedding: localEmbeddings() });
+
+    await expect(store.upsert("plans", [DOC])).rejects.toThrow(
+      'Collection "plans" holds vectors from openai:text-embedding-3-large, but is configured to embed with local:hashed-ngram-512x3',
+    );
+  });
+
+  it("treats collections without a recorded model as the OpenAI default", async () => {
+    chroma.collections = [{ name: "plans", metadata: { "hnsw:space": "cosine" } }];
+    vi.stubEnv("EMBEDDING_MODEL", "local");
+
+    await expect(new ChromaMemoryStore().upsert("plans", [DOC])).rejects.toThrow(
+      "holds vectors from openai:text-embedding-3-small",
+    );
+    vi.stubEnv("EMBEDDING_MODEL", "openai");
+    await expect(new ChromaMemoryStore().upsert("plans", [DOC])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * tests/unit/file-store.test.ts
+ *
+ * Unit tests for FileMemoryStore persistence and the JSONL export/import
+ * bundle.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, truncateSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileMemoryStore } from "../../.agentic/memory/file-store.js";
+import { InMemoryMemoryStore } from "../../.agentic/memory/in-memory-store.js";
+import { exportMemory, importMemory } from "../../.agentic/memory/transfer.js";
+import type { MemoryDocument } from "../../.agentic/memory/types.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const PLANS: MemoryDocument[] = [
+  { id: "plan-1", content: "Add a health check endpoint", metadata: { priority: 2 } },
+  { id: "plan-2", content: "Rate limit the public API", metadata: { priority: 4 } },
+];
+
+const ADR: MemoryDocument = {
+  id: "adr-1",
+  content: "Validate every HTTP request body with Zod",
+  metadata: { type: "adr" },
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "file-store-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("FileMemoryStore", () => {
+  it("persists documents and vectors across instances", async () => {
+    const writer = new FileMemoryStore({ path: dir });
+    await writer.upsert("plans", PLANS);
+    await writer.upsert("schema", [ADR]);
+
+    const reader = new FileMemoryStore({ path: dir });
+    const [top] = await reader.query("plans", "rate limiting for the API", 1, {
+      priority: { $gte: 3 },
+    });
+    expect(top?.id).toBe("plan-2");
+    expect(top?.score).toBeGreaterThan(0.3);
+    expect(await reader.listCollections()).toEqual(["plans", "schema"]);
+    expect(readFileSync(join(dir, "plans.jsonl"), "utf-8").trim().split("\n")).toHaveLength(2);
+  });
+
+  it("persists deletes and clears", async () => {
+    const writer = new FileMemoryStore({ path: dir });
+    await writer.upsert("plans", PLANS);
+    await writer.delete("plans", ["plan-1"]);
+    await writer.upsert("schema", [ADR]);
+    await writer.clear("schema", true);
+
+    const reader = new FileMemoryStore({ path: dir });
+    expect((await reader.list("plans")).map((d) => d.id)).toEqual(["plan-2"]);
+    expect(await reader.listCollections()).toEqual(["plans"]);
+  });
+
+  it("persists metadata updates", async () => {
+    const writer = new FileMemoryStore({ path: dir });
+    await writer.upsert("plans", PLANS);
+    await writer.updateMetadata("plans", ["plan-1"], { status: "done" });
+
+    const reader = new FileMemoryStore({ path: dir });
+    expect(await reader.get("plans", ["plan-1"])).toEqual([
+      { ...PLANS[0], metadata: { priority: 2, status: "done" } },
+    ]);
+    expect(await reader.count("plans", { status: "done" })).toBe(1);
+  });
+
+  it("refuses a vector file that does not match its documents", async () => {
+    await new FileMemoryStore({ path: dir }).upsert("plans", PLANS);
+    truncateSync(join(dir, "plans.vectors"), 20);
+
+    await expect(new FileMemoryStore({ path: dir }).query("plans", "health")).rejects.toThrow(
+      "plans.vectors is truncated",
+    );
+  });
+
+  it("refuses to mix embedding dimensions in one collection", async () => {
+    await new FileMemoryStore({ path: dir }).upsert("plans", PLANS);
+    const other = new FileMemoryStore({
+      path: dir,
+      embeddingFunction: { generate: async (texts) => texts.map(() => [1, 0, 0]) },
+    });
+
+    await expect(other.upsert("plans", [ADR])).rejects.toThrow(
+      "holds 512-dimensional vectors, but the embedding function returned 3",
+    );
+  });
+
+  it("rejects collection names that are not safe file names", async () => {
+    await expect(new FileMemoryStore({ path: dir }).upsert("../escape", PLANS)).rejects.toThrow(
+      'Invalid collection name "../escape"',
+    );
+  });
+});
+
+describe("exportMemory() / importMemory()", () => {
+  it("round-trips a knowledge base into another store", async () => {
+    const source = new FileMemoryStore({ path: join(dir, "source") });
+    await source.upsert("plans", PLANS);
+    await source.upsert("schema", [ADR]);
+    const bundle = join(dir, "kb.jsonl");
+
+    expect(await exportMemory(source, bundle)).toEqual({ plans: 2, schema: 1 });
+
+    const target = new InMemoryMemoryStore();
+    expect(await importMemory(target, bundle, ["plans"])).toEqual({ plans: 2 });
+    const [top] = await target.query("plans", "health check", 1);
+    expect(top).toMatchObject({ id: "plan-1", metadata: { priority: 2 } });
+    expect(await target.query("schema", "Zod")).toEqual([]);
+  });
+
+  it("rejects files that are not bundles", async () => {
+    const bundle = join(dir, "kb.jsonl");
+    writeFileSync(bundle, `${JSON.stringify({ id: "plan-1", content: "x" })}\n`);
+
+    await expect(importMemory(new InMemoryMemoryStore(), bundle)).rejects.toThrow(
+      "is not a memory bundle",
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * tests/unit/hybrid-retrieval.test.ts
+ *
+ * Unit tests for lexical and hybrid retrieval: identifier-aware tokenizing,
+ * BM25 ranking, reciprocal-rank fusion, reranking, and retrieve() in each
+ * mode against the in-memory store (MEMORY_STORE=memory), and the cached
+ * lexical index.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import type { QueryResult } from "../../.agentic/memory/types.js";
+import { indexDocuments } from "../../src/core/context/indexer.js";
+import { Bm25Index, tokenize } from "../../src/core/context/lexical.js";
+import { queryCache } from "../../src/core/context/query-cache.js";
+import {
+  reciprocalRankFusion,
+  retrieve,
+  termCoverageReranker,
+} from "../../src/core/context/retriever.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const DOCS = [
+  { id: "auditor", content: "The auditor truncates each file to MAX_FILE_CHARS before review." },
+  { id: "executor", content: "The executor writes files and asks the auditor to review them." },
+  { id: "parser", content: "parseAgentOutputWithRetry re-prompts the model on invalid JSON." },
+  { id: "planner", content: "The planner turns a brief into a spec with acceptance criteria." },
+];
+
+function result(id: string, score = 0.5): QueryResult {
+  return { id, content: id, metadata: {}, score };
+}
+
+beforeEach(async () => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+  await indexDocuments(DOCS.map((d) => ({ ...d, collection: "default" })));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetMemoryStore();
+  queryCache.clear();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("tokenize()", () => {
+  it("keeps compound identifiers whole and adds their parts", () => {
+    expect(tokenize("parseAgentOutputWithRetry")).toEqual([
+      "parseagentoutputwithretry",
+      "parse",
+      "agent",
+      "output",
+      "with",
+      "retry",
+    ]);
+    expect(tokenize("MAX_FILE_CHARS, HTTPServer!")).toEqual([
+      "max_file_chars",
+      "max",
+      "file",
+      "chars",
+      "httpserver",
+      "http",
+      "server",
+    ]);
+  });
+});
+
+describe("Bm25Index", () => {
+  it("ranks exact identifiers first and leaves out documents without a match", () => {
+    const index = new Bm25Index(DOCS.map((d) => ({ ...d, metadata: {} })));
+
+    expect(index.search("MAX_FILE_CHARS").map((r) => r.id)).toEqual(["auditor"]);
+    expect(index.search("agent output parsing")[0]?.id).toBe("parser");
+    expect(index.search("auditor truncates").map((r) => r.id)).toEqual(["auditor", "executor"]);
+    expect(index.search("kubernetes")).toEqual([]);
+  });
+});
+
+describe("reciprocalRankFusion()", () => {
+  it("rewards documents ranked well by every ranking, scaled to 0–1", () => {
+    const fused = reciprocalRankFusion([
+      [result("a", 0.9), result("b", 0.8)],
+      [result("a", 12), result("c", 3)],
+    ]);
+
+    expect(fused.map((r) => r.id)).toEqual(["a", "b", "c"]);
+    expect(fused[0]?.score).toBe(1);
+    expect(fused[1]?.score).toBeCloseTo(61 / 62 / 2);
+  });
+});
+
+describe("termCoverageReranker", () => {
+  it("moves candidates that contain every query term up", async () => {
+    const reranked = await termCoverageReranker("auditor review", [
+      { ...result("planner", 0.9), content: "The planner writes specs." },
+      { ...result("auditor", 0.6), content: "The auditor does a review." },
+    ]);
+    expect(reranked.map((r) => r.id)).toEqual(["auditor", "planner"]);
+  });
+});
+
+describe("retrieve() modes", () => {
+  it("finds an exact identifier lexically, alone or fused with vector results", async () => {
+    const lexical = await retrieve("MAX_FILE_CHARS", { mode: "lexical" });
+    expect(lexical).toHaveLength(1);
+    expect(lexical[0]).toMatchObject({ id: "auditor", score: 1 });
+
+    const hybrid = await retrieve("MAX_FILE_CHARS", { mode: "hybrid", minScore: 0, topK: 2 });
+    expect(hybrid).toHaveLength(2);
+    expect(hybrid.map((r) => r.id)).toContain("auditor");
+  });
+
+  it("keeps every lexical match whatever the minScore", async () => {
+    const lexical = await retrieve("auditor truncates", { mode: "lexical", minScore: 0.99 });
+    expect(lexical.map((r) => r.id)).toEqual(["auditor", "executor"]);
+    expect(lexical[1]?.score).toBeLessThan(0.99);
+  });
+
+  it("indexes a collection once and rebuilds the index after a write", async () => {
+    const list = vi.spyOn(getMemoryStore(), "list");
+
+    await retrieve("MAX_FILE_CHARS", { mode: "lexical" });
+    await retrieve("auditor review", { mode: "lexical" });
+    expect(list).toHaveBeenCalledOnce();
+
+    // Same ID, so the document count does not change
+    await indexDocuments([
+      {
+        id: "planner",
+        content: "The planner keeps specs under MAX_FILE_CHARS.",
+        collection: "default",
+      },
+    ]);
+    const results = await retrieve("MAX_FILE_CHARS", { mode: "lexical" });
+    expect(list).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => r.id).sort()).toEqual(["auditor", "planner"]);
+  });
+
+  it("reranks a wider pool than topK", async () => {
+    const rerank = vi.fn((_query: string, candidates: QueryResult[]) => [...candidates].reverse());
+    const results = await retrieve("auditor review", {
+      mode: "vector",
+      minScore: 0,
+      topK: 1,
+      rerank,
+    });
+
+    expect(rerank.mock.calls[0]?.[1]).toHaveLength(DOCS.length);
+    expect(results).toHaveLength(1);
+    expect(results[0]?.id).toBe(rerank.mock.results[0]?.value[0]?.id);
+  });
+
+  it("caches each mode separately", async () => {
+    await retrieve("MAX_FILE_CHARS", { mode: "lexical", useCache: true });
+    await retrieve("MAX_FILE_CHARS", { mode: "vector", minScore: 0.3, useCache: true });
+    expect(queryCache.size).toBe(2);
+  });
+});
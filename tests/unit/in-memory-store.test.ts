@@ -0,0 +1,180 @@
+/**
+ * tests/unit/in-memory-store.test.ts
+ *
+ * Unit tests for InMemoryMemoryStore, the hashed n-gram embedder, `where`
+ * filtering and MEMORY_STORE selection.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HashedNgramEmbedding } from "../../.agentic/memory/hashed-embedding.js";
+import { InMemoryMemoryStore, matchesWhere } from "../../.agentic/memory/in-memory-store.js";
+import { getMemoryStore, memoryStoreKind, resetMemoryStore } from "../../.agentic/memory/store.js";
+import type { MemoryDocument } from "../../.agentic/memory/types.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const DOCS: MemoryDocument[] = [
+  {
+    id: "adr-001",
+    content: "Use ChromaDB as the vector store for retrieval-augmented generation",
+    metadata: { type: "adr", priority: 3 },
+  },
+  {
+    id: "adr-002",
+    content: "All HTTP handlers validate request bodies with Zod schemas",
+    metadata: { type: "adr", priority: 1 },
+  },
+  {
+    id: "vuln-001",
+    content: "SQL injection through unsanitised query parameters in the orders endpoint",
+    metadata: { type: "vulnerability", priority: 5 },
+  },
+];
+
+async function seededStore(): Promise<InMemoryMemoryStore> {
+  const store = new InMemoryMemoryStore();
+  await store.upsert("default", DOCS);
+  return store;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetMemoryStore();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("HashedNgramEmbedding", () => {
+  it("is deterministic and L2-normalised", async () => {
+    const embedder = new HashedNgramEmbedding({ dimensions: 64 });
+    const [a, b] = await embedder.generate(["Zod schema validation", "Zod schema validation"]);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...(a ?? []))).toBeCloseTo(1);
+  });
+
+  it("rejects a non-positive dimension count", () => {
+    expect(() => new HashedNgramEmbedding({ dimensions: 0 })).toThrow("dimensions");
+  });
+});
+
+describe("InMemoryMemoryStore", () => {
+  it("ranks documents by similarity to the query", async () => {
+    const store = await seededStore();
+    const results = await store.query("default", "validate request bodies with zod", 2);
+
+    expect(results.map((r) => r.id)[0]).toBe("adr-002");
+    expect(results).toHaveLength(2);
+    expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 1);
+  });
+
+  it("applies equality and $gte where filters", async () => {
+    const store = await seededStore();
+
+    const adrs = await store.query("default", "vector store", 5, { type: "adr" });
+    expect(adrs.map((r) => r.id).sort()).toEqual(["adr-001", "adr-002"]);
+
+    const important = await store.query("default", "vector store", 5, {
+      type: "adr",
+      priority: { $gte: 2 },
+    });
+    expect(important.map((r) => r.id)).toEqual(["adr-001"]);
+  });
+
+  it("overwrites by ID, deletes and clears", async () => {
+    const store = await seededStore();
+    await store.upsert("default", [{ ...(DOCS[0] as MemoryDocument), content: "Replaced" }]);
+    await store.delete("default", ["vuln-001"]);
+
+    const all = await store.query("default", "Replaced", 10);
+    expect(all.map((r) => r.id).sort()).toEqual(["adr-001", "adr-002"]);
+    expect(all.find((r) => r.id === "adr-001")?.content).toBe("Replaced");
+
+    await store.clear("default");
+    expect(await store.query("default", "anything")).toEqual([]);
+  });
+
+  it("uses the embedding function it is given", async () => {
+    const generate = vi.fn(async (texts: string[]) => texts.map(() => [1, 0]));
+    const store = new InMemoryMemoryStore({ embeddingFunction: { generate } });
+    await store.upsert("default", DOCS);
+
+    const results = await store.query("default", "anything", 1);
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(results[0]?.score).toBeCloseTo(1);
+  });
+});
+
+describe("InMemoryMemoryStore inspection", () => {
+  it("gets documents by ID in the order asked, skipping unknown IDs", async () => {
+    const store = await seededStore();
+    const docs = await store.get("default", ["vuln-001", "missing", "adr-001"]);
+
+    expect(docs.map((d) => d.id)).toEqual(["vuln-001", "adr-001"]);
+    expect(docs[0]).toEqual(DOCS[2]);
+  });
+
+  it("lists and counts with where, limit and offset", async () => {
+    const store = await seededStore();
+
+    expect((await store.list("default")).map((d) => d.id)).toEqual([
+      "adr-001",
+      "adr-002",
+      "vuln-001",
+    ]);
+    const page = await store.list("default", { where: { type: "adr" }, limit: 1, offset: 1 });
+    expect(page.map((d) => d.id)).toEqual(["adr-002"]);
+    expect(await store.count("default")).toBe(3);
+    expect(await store.count("default", { priority: { $gte: 3 } })).toBe(2);
+    expect(await store.count("missing")).toBe(0);
+  });
+
+  it("merges metadata without re-embedding", async () => {
+    const generate = vi.fn(async (texts: string[]) => texts.map(() => [1, 0]));
+    const store = new InMemoryMemoryStore({ embeddingFunction: { generate } });
+    await store.upsert("default", DOCS);
+    await store.updateMetadata("default", ["adr-001", "missing"], { stale: true, priority: 0 });
+
+    const [doc] = await store.get("default", ["adr-001"]);
+    expect(doc?.metadata).toEqual({ type: "adr", priority: 0, stale: true });
+    expect(await store.count("default", { stale: true })).toBe(1);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("matchesWhere()", () => {
+  const metadata = { type: "adr", priority: 3, tags: "api" };
+
+  it("supports comparison, set and logical operators", () => {
+    expect(matchesWhere(metadata, { priority: { $gt: 2, $lte: 3 } })).toBe(true);
+    expect(matchesWhere(metadata, { type: { $in: ["plan", "adr"] } })).toBe(true);
+    expect(matchesWhere(metadata, { type: { $ne: "adr" } })).toBe(false);
+    expect(matchesWhere(metadata, { $or: [{ type: "plan" }, { priority: { $gte: 3 } }] })).toBe(
+      true,
+    );
+    expect(matchesWhere(metadata, { $and: [{ type: "adr" }, { tags: "ui" }] })).toBe(false);
+  });
+
+  it("rejects unsupported operators", () => {
+    expect(() => matchesWhere(metadata, { tags: { $contains: "api" } })).toThrow(
+      'Unsupported where operator "$contains"',
+    );
+  });
+});
+
+describe("getMemoryStore()", () => {
+  it("selects the in-memory store with MEMORY_STORE=memory", () => {
+    vi.stubEnv("MEMORY_STORE", "memory");
+    expect(getMemoryStore()).toBeInstanceOf(InMemoryMemoryStore);
+    expect(getMemoryStore()).toBe(getMemoryStore());
+  });
+
+  it("rejects unknown store kinds", () => {
+    expect(memoryStoreKind({})).toBe("chroma");
+    expect(() => memoryStoreKind({ MEMORY_STORE: "redis" })).toThrow(
+      'MEMORY_STORE must be one of chroma, memory, file, got "redis"',
+    );
+  });
+});
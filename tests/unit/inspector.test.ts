@@ -0,0 +1,112 @@
+/**
+ * tests/unit/inspector.test.ts
+ *
+ * Unit tests for the knowledge base inspector behind `pnpm kb`, against the
+ * in-memory store (MEMORY_STORE=memory).
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import {
+  collectionStats,
+  deleteDocuments,
+  dumpCollection,
+  findDocument,
+  knownCollections,
+  selectDocuments,
+} from "../../src/core/context/inspector.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const TMP = mkdtempSync(join(tmpdir(), "inspector-"));
+const CONFIG_PATH = join(TMP, "agentic.config.json");
+writeFileSync(
+  CONFIG_PATH,
+  JSON.stringify({
+    seed: {
+      includeDefaults: true,
+      sources: [{ pattern: "runbooks/**/*.md", collection: "runbooks", priority: 7 }],
+    },
+  }),
+);
+
+afterAll(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+  const store = getMemoryStore();
+  await store.upsert("vulnerabilities", [
+    { id: "v-1", content: "SQL injection in orders", metadata: { severity: "critical" } },
+    { id: "v-2", content: "PII in logs", metadata: { severity: "high" } },
+    { id: "v-3", content: "Open redirect", metadata: { severity: "high" } },
+  ]);
+  await store.upsert("plans", [{ id: "adr-1", content: "Use Zod", metadata: { type: "adr" } }]);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetMemoryStore();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("inspector", () => {
+  it("counts every known collection", async () => {
+    const stats = await collectionStats();
+
+    expect(stats).toContainEqual({ collection: "vulnerabilities", count: 3 });
+    expect(stats).toContainEqual({ collection: "plans", count: 1 });
+    expect(stats.find((s) => s.collection === "schema")?.count).toBe(0);
+  });
+
+  it("adds configured seed collections and any other stored collection, read-only", async () => {
+    vi.stubEnv("AGENTIC_CONFIG", CONFIG_PATH);
+    await getMemoryStore().upsert("scratch", [{ id: "s-1", content: "notes", metadata: {} }]);
+
+    const names = await knownCollections();
+    expect(names.slice(0, 2)).toEqual(["plans", "code"]);
+    expect(names.slice(-2)).toEqual(["runbooks", "scratch"]);
+
+    const stats = await collectionStats();
+    expect(stats).toContainEqual({ collection: "runbooks", count: 0 });
+    expect(stats).toContainEqual({ collection: "scratch", count: 1 });
+    expect(await getMemoryStore().listCollections()).not.toContain("runbooks");
+  });
+
+  it("finds a document by ID in whichever collection holds it", async () => {
+    expect(await findDocument("adr-1")).toEqual([
+      {
+        collection: "plans",
+        document: { id: "adr-1", content: "Use Zod", metadata: { type: "adr" } },
+      },
+    ]);
+    expect(await findDocument("adr-1", ["code"])).toEqual([]);
+  });
+
+  it("dumps a collection, optionally filtered", async () => {
+    expect((await dumpCollection("vulnerabilities")).map((d) => d.id)).toEqual([
+      "v-1",
+      "v-2",
+      "v-3",
+    ]);
+    expect(
+      (await dumpCollection("vulnerabilities", { severity: "high" })).map((d) => d.id),
+    ).toEqual(["v-2", "v-3"]);
+  });
+
+  it("deletes by ID or by where filter", async () => {
+    expect(await selectDocuments("vulnerabilities", { ids: ["v-1", "nope"] })).toEqual(["v-1"]);
+    expect(await deleteDocuments("vulnerabilities", { where: { severity: "high" } })).toEqual([
+      "v-2",
+      "v-3",
+    ]);
+    expect(await deleteDocuments("vulnerabilities", { ids: ["v-1"] })).toEqual(["v-1"]);
+    expect(await getMemoryStore().count("vulnerabilities")).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * tests/unit/model-fallback.test.ts
+ *
+ * Unit tests for withModelFallback() — switching to the next model on
+ * provider errors, timeouts and rate limits, and reporting the model that
+ * served. Stub models run through a real generateText.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { APICallError, type LanguageModelV1, RetryError, generateText } from "ai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { AgentContext } from "../../src/core/agents/agent-context.js";
+import { isFallbackError, withModelFallback } from "../../src/core/agents/model-fallback.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const apiError = (statusCode: number | undefined) =>
+  new APICallError({
+    message: `HTTP ${statusCode ?? "connection failed"}`,
+    url: "https://api.example.com/v1/chat",
+    requestBodyValues: {},
+    ...(statusCode !== undefined ? { statusCode } : {}),
+  });
+
+const timeoutError = () =>
+  Object.assign(new Error("The operation was aborted due to timeout"), {
+    name: "TimeoutError",
+  });
+
+function stubModel(
+  provider: string,
+  modelId: string,
+  doGenerate: LanguageModelV1["doGenerate"],
+): LanguageModelV1 {
+  return {
+    specificationVersion: "v1",
+    provider,
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doGenerate,
+    doStream: async () => {
+      throw new Error("not implemented");
+    },
+  };
+}
+
+const failingModel = (modelId: string, error: unknown) =>
+  stubModel("mock-primary", modelId, async () => {
+    throw error;
+  });
+
+const workingModel = (modelId: string) =>
+  stubModel("mock-fallback", modelId, async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    finishReason: "stop",
+    usage: { promptTokens: 10, completionTokens: 5 },
+    text: `served by ${modelId}`,
+  }));
+
+function context(): AgentContext & {
+  emit: ReturnType<typeof vi.fn>;
+  recordModel: ReturnType<typeof vi.fn>;
+} {
+  return { runId: "run-1", emit: vi.fn(), recordModel: vi.fn() };
+}
+
+const generate = (model: LanguageModelV1) =>
+  generateText({ model, maxRetries: 0, prompt: "hello" });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("withModelFallback()", () => {
+  it("uses the primary model when it succeeds", async () => {
+    const ctx = context();
+    const { result, model } = await withModelFallback(
+      ctx,
+      "planner",
+      [workingModel("primary"), workingModel("backup")],
+      generate,
+    );
+
+    expect(result.text).toBe("served by primary");
+    expect(model.modelId).toBe("primary");
+    expect(ctx.recordModel).toHaveBeenCalledWith({
+      agent: "planner",
+      provider: "mock-fallback",
+      model: "primary",
+      failedOver: [],
+    });
+    expect(ctx.emit).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a rate limit", apiError(429)],
+    ["a server error", apiError(503)],
+    ["a connection failure", apiError(undefined)],
+    ["a timeout", timeoutError()],
+  ])("falls back to the next model on %s", async (_label, error) => {
+    const ctx = context();
+    const { result, model } = await withModelFallback(
+      ctx,
+      "auditor",
+      [failingModel("primary", error), workingModel("backup")],
+      generate,
+    );
+
+    expect(result.text).toBe("served by backup");
+    expect(model.modelId).toBe("backup");
+    expect(ctx.recordModel).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "backup",
+        failedOver: [expect.objectContaining({ provider: "mock-primary", model: "primary" })],
+      }),
+    );
+    expect(ctx.emit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "model:fallback",
+        agent: "auditor",
+        from: "mock-primary/primary",
+        to: "mock-fallback/backup",
+      }),
+    );
+  });
+
+  it("rethrows errors another model would not fix", async () => {
+    const backup = workingModel("backup");
+    const doGenerate = vi.spyOn(backup, "doGenerate");
+
+    await expect(
+      withModelFallback(
+        undefined,
+        "executor",
+        [failingModel("primary", apiError(400)), backup],
+        generate,
+      ),
+    ).rejects.toThrow("HTTP 400");
+    expect(doGenerate).not.toHaveBeenCalled();
+  });
+
+  it("rethrows a later model's non-fallback error unchanged", async () => {
+    const error = apiError(400);
+
+    await expect(
+      withModelFallback(
+        undefined,
+        "executor",
+        [failingModel("primary", apiError(429)), failingModel("backup", error)],
+        generate,
+      ),
+    ).rejects.toBe(error);
+  });
+
+  it("lists every failed model once the chain is exhausted", async () => {
+    await expect(
+      withModelFallback(
+        undefined,
+        "polisher",
+        [failingModel("primary", apiError(429)), failingModel("backup", apiError(500))],
+        generate,
+      ),
+    ).rejects.toThrow(
+      "[polisher] Every model failed: mock-primary/primary (HTTP 429); mock-primary/backup (HTTP 500)",
+    );
+  });
+});
+
+describe("isFallbackError()", () => {
+  it("unwraps generateText's RetryError", () => {
+    const retryError = (lastError: unknown) =>
+      new RetryError({
+        message: "Failed after 3 attempts",
+        reason: "maxRetriesExceeded",
+        errors: [apiError(500), lastError],
+      });
+
+    expect(isFallbackError(retryError(apiError(429)))).toBe(true);
+    expect(isFallbackError(retryError(apiError(400)))).toBe(false);
+  });
+
+  it("ignores client errors and ordinary exceptions", () => {
+    expect(isFallbackError(apiError(401))).toBe(false);
+    expect(isFallbackError(new Error("[budget] Run budget exceeded"))).toBe(false);
+  });
+});
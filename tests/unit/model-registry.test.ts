@@ -0,0 +1,186 @@
+/**
+ * tests/unit/model-registry.test.ts
+ *
+ * Unit tests for the role model registry — layering of built-in defaults,
+ * the models file and env overrides, and model instantiation.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  createModel,
+  loadModelsFile,
+  resolveFallbackConfigs,
+  resolveModelConfig,
+} from "../../.agentic/roles/model-registry.js";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "models-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("resolveModelConfig()", () => {
+  it("falls back to the built-in per-role defaults", () => {
+    expect(resolveModelConfig("security-lead", { env: {}, file: {} })).toEqual({
+      provider: "openai",
+      model: "gpt-4o",
+    });
+    expect(resolveModelConfig("context-engineer", { env: {}, file: {} })).toEqual({
+      provider: "openai",
+      model: "gpt-4o-mini",
+    });
+  });
+
+  it("applies DEFAULT_MODEL to every role and infers the provider from the model ID", () => {
+    const env = { DEFAULT_MODEL: "claude-sonnet-4-0" };
+    for (const role of ["product-architect", "context-engineer", "logic-critic"] as const) {
+      expect(resolveModelConfig(role, { env, file: {} })).toEqual({
+        provider: "anthropic",
+        model: "claude-sonnet-4-0",
+      });
+    }
+  });
+
+  it("lets a role entry in the models file override the global env default", () => {
+    const file = {
+      default: { temperature: 0.2 },
+      roles: { "security-lead": { provider: "anthropic" as const, model: "claude-sonnet-4-0" } },
+    };
+    const env = { DEFAULT_MODEL: "gpt-4.1" };
+
+    expect(resolveModelConfig("security-lead", { env, file })).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-0",
+      temperature: 0.2,
+    });
+    expect(resolveModelConfig("product-architect", { env, file })).toEqual({
+      provider: "openai",
+      model: "gpt-4.1",
+      temperature: 0.2,
+    });
+  });
+
+  it("gives MODEL_<ROLE> env vars the last word", () => {
+    const env = {
+      MODEL_SECURITY_LEAD: "anthropic:claude-3-5-haiku-latest",
+      MODEL_SECURITY_LEAD_TEMPERATURE: "0",
+      MODEL_SECURITY_LEAD_MAX_TOKENS: "2048",
+    };
+    const file = { roles: { "security-lead": { model: "gpt-4.1", temperature: 0.7 } } };
+
+    expect(resolveModelConfig("security-lead", { env, file })).toEqual({
+      provider: "anthropic",
+      model: "claude-3-5-haiku-latest",
+      temperature: 0,
+      maxTokens: 2048,
+    });
+  });
+
+  it("rejects unknown providers and malformed numbers", () => {
+    expect(() =>
+      resolveModelConfig("logic-critic", {
+        env: { MODEL_LOGIC_CRITIC: "mistral:large" },
+        file: {},
+      }),
+    ).toThrow('unknown provider "mistral"');
+    expect(() =>
+      resolveModelConfig("logic-critic", {
+        env: { MODEL_LOGIC_CRITIC_MAX_TOKENS: "lots" },
+        file: {},
+      }),
+    ).toThrow("MODEL_LOGIC_CRITIC_MAX_TOKENS must be a number");
+    expect(() =>
+      resolveModelConfig("logic-critic", {
+        env: { MODEL_LOGIC_CRITIC_TEMPERATURE: "5" },
+        file: {},
+      }),
+    ).toThrow("Invalid model config for logic-critic");
+  });
+});
+
+describe("resolveFallbackConfigs()", () => {
+  it("has no fallbacks unless configured", () => {
+    expect(resolveFallbackConfigs("agentic-engineer", { env: {}, file: {} })).toEqual([]);
+  });
+
+  it("inherits the role's call settings and infers providers", () => {
+    const file = {
+      roles: {
+        "agentic-engineer": {
+          temperature: 0.1,
+          timeoutMs: 60_000,
+          fallbacks: [{ model: "claude-sonnet-4-0" }, { model: "gpt-4o-mini", temperature: 0.5 }],
+        },
+      },
+    };
+
+    expect(resolveFallbackConfigs("agentic-engineer", { env: {}, file })).toEqual([
+      { provider: "anthropic", model: "claude-sonnet-4-0", temperature: 0.1, timeoutMs: 60_000 },
+      { provider: "openai", model: "gpt-4o-mini", temperature: 0.5, timeoutMs: 60_000 },
+    ]);
+  });
+
+  it("lets MODEL_<ROLE>_FALLBACKS replace the file's list", () => {
+    const file = { default: { fallbacks: [{ model: "gpt-4o-mini" }] } };
+    const env = { MODEL_SECURITY_LEAD_FALLBACKS: "anthropic:claude-3-5-haiku-latest, gpt-4.1" };
+
+    expect(
+      resolveFallbackConfigs("security-lead", { env, file }).map((f) => `${f.provider}:${f.model}`),
+    ).toEqual(["anthropic:claude-3-5-haiku-latest", "openai:gpt-4.1"]);
+    expect(resolveFallbackConfigs("product-architect", { env: {}, file })).toHaveLength(1);
+  });
+
+  it("rejects a fallback whose provider cannot be inferred", () => {
+    const env = { MODEL_VIBE_ENGINEER_FALLBACKS: "llama-3-70b" };
+    expect(() => resolveFallbackConfigs("vibe-engineer", { env, file: {} })).toThrow(
+      'Invalid fallback #1 ("llama-3-70b") for vibe-engineer',
+    );
+  });
+});
+
+describe("loadModelsFile()", () => {
+  it("treats a missing default file as no configuration", () => {
+    expect(loadModelsFile({}, join(dir, "models.json"))).toBeUndefined();
+  });
+
+  it("reads the file named by MODELS_CONFIG", () => {
+    const path = join(dir, "custom.json");
+    writeFileSync(path, JSON.stringify({ roles: { "vibe-engineer": { model: "gpt-4.1-mini" } } }));
+
+    expect(loadModelsFile({ MODELS_CONFIG: path })).toEqual({
+      roles: { "vibe-engineer": { model: "gpt-4.1-mini" } },
+    });
+  });
+
+  it("rejects unknown roles and a missing MODELS_CONFIG file", () => {
+    const path = join(dir, "models.json");
+    writeFileSync(path, JSON.stringify({ roles: { auditor: { model: "gpt-4o" } } }));
+
+    expect(() => loadModelsFile({ MODELS_CONFIG: path })).toThrow("Invalid models file");
+    expect(() => loadModelsFile({ MODELS_CONFIG: join(dir, "nope.json") })).toThrow(
+      "Could not read",
+    );
+  });
+});
+
+describe("createModel()", () => {
+  it("instantiates the configured provider and keeps the model ID for pricing", () => {
+    const claude = createModel({ provider: "anthropic", model: "claude-sonnet-4-0" });
+    expect(claude.provider).toMatch(/^anthropic/);
+    expect(claude.modelId).toBe("claude-sonnet-4-0");
+
+    const tuned = createModel({ provider: "openai", model: "gpt-4o", temperature: 0 });
+    expect(tuned.provider).toMatch(/^openai/);
+    expect(tuned.modelId).toBe("gpt-4o");
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * tests/unit/patch-validator.test.ts
+ *
+ * Unit tests for unified-diff patches on CodeArtifacts.
+ * Fast, deterministic — no API keys, no network, no ChromaDB.
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CodeArtifact } from "../../docs/schema/entities.js";
+import {
+  applyUnifiedDiff,
+  findPatchConflicts,
+  formatArtifactForReview,
+  materializeFiles,
+  withCleanPatches,
+} from "../../src/core/guardrails/patch-validator.js";
+
+const BASE = "line 1\nline 2\nline 3\nline 4\nline 5\nline 6\n";
+
+const EDIT_LINE_3 = `--- a/src/app.ts
++++ b/src/app.ts
+@@ -2,3 +2,3 @@
+ line 2
+-line 3
++line three
+ line 4
+`;
+
+const artifactWith = (patches: Record<string, string>, files = {}): CodeArtifact => ({
+  id: "artifact-1",
+  specId: "spec-1",
+  files,
+  patches,
+  summary: "Patched",
+  verificationSteps: [],
+  createdAt: new Date().toISOString(),
+});
+
+const tree: Record<string, string> = { "src/app.ts": BASE };
+const readBase = (path: string) => tree[path];
+
+describe("applyUnifiedDiff()", () => {
+  it("applies a hunk at its stated position", () => {
+    expect(applyUnifiedDiff(BASE, EDIT_LINE_3)).toBe(BASE.replace("line 3", "line three"));
+  });
+
+  it("applies a hunk whose line numbers are offset, like git apply", () => {
+    const shifted = `header\nheader\n${BASE}`;
+    expect(applyUnifiedDiff(shifted, EDIT_LINE_3)).toBe(shifted.replace("line 3", "line three"));
+  });
+
+  it("rejects a hunk whose context does not match", () => {
+    expect(() => applyUnifiedDiff(BASE.replace("line 2", "changed"), EDIT_LINE_3)).toThrow(
+      "Hunk 1 (@@ -2,3 @@) does not apply",
+    );
+  });
+
+  it("rejects a hunk whose header counts disagree with its body", () => {
+    const bad = EDIT_LINE_3.replace("@@ -2,3 +2,3 @@", "@@ -2,4 +2,3 @@");
+    expect(() => applyUnifiedDiff(BASE, bad)).toThrow("body has 3 old and 3 new line(s)");
+  });
+
+  it("creates and deletes files via /dev/null", () => {
+    const create = "--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n";
+    expect(applyUnifiedDiff(undefined, create)).toBe("a\nb\n");
+    expect(() => applyUnifiedDiff("exists\n", create)).toThrow("already exists");
+
+    const remove = "--- a/old.ts\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-a\n-b\n";
+    expect(applyUnifiedDiff("a\nb\n", remove)).toBeNull();
+  });
+
+  it("honours '\\ No newline at end of file'", () => {
+    const diff = "--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n\\ No newline at end of file\n";
+    expect(applyUnifiedDiff("a\n", diff)).toBe("b");
+  });
+});
+
+describe("artifact helpers", () => {
+  it("reports patches that do not apply or duplicate a whole file", () => {
+    const artifact = artifactWith(
+      { "src/app.ts": EDIT_LINE_3, "src/missing.ts": EDIT_LINE_3, "src/dup.ts": EDIT_LINE_3 },
+      { "src/dup.ts": "whole file" },
+    );
+
+    const conflicts = findPatchConflicts(artifact, readBase);
+
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]).toMatch(/^src\/missing\.ts: .*does not exist/);
+    expect(conflicts[1]).toMatch(/^src\/dup\.ts: appears in both/);
+  });
+
+  it("withCleanPatches() surfaces conflicts as schema issues", () => {
+    const result = withCleanPatches(readBase).safeParse(
+      artifactWith({ "src/missing.ts": EDIT_LINE_3 }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.path).toEqual(["patches"]);
+  });
+
+  it("materializeFiles() merges whole files with patched contents", () => {
+    const files = materializeFiles(
+      artifactWith({ "src/app.ts": EDIT_LINE_3 }, { "src/new.ts": "new" }),
+      readBase,
+    );
+
+    expect(files).toEqual({
+      "src/new.ts": "new",
+      "src/app.ts": BASE.replace("line 3", "line three"),
+    });
+  });
+
+  it("formatArtifactForReview() shows diff hunks instead of the whole patched file", () => {
+    const text = formatArtifactForReview(artifactWith({ "src/app.ts": EDIT_LINE_3 }));
+
+    expect(text).toContain("// src/app.ts (unified diff against the current tree)");
+    expect(text).toContain("+line three");
+    expect(text).not.toContain("line 6");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * tests/unit/polisher.test.ts
+ *
+ * Unit tests for the Polisher's golden-example nomination, run on the offline
+ * scripted LLM provider (LLM_SCRIPT) and the in-memory store
+ * (MEMORY_STORE=memory). No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+import type { LlmScript } from "../../.agentic/roles/scripted-model.js";
+
+const TMP = mkdtempSync(join(tmpdir(), "polisher-"));
+const SCRIPT_PATH = join(TMP, "llm-script.json");
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["LLM_SCRIPT"] = SCRIPT_PATH;
+// biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation
+process.env["MEMORY_STORE"] = "memory";
+
+afterAll(() => {
+  rmSync(TMP, { recursive: true, force: true });
+});
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+/** A tracked file the patch applies to, read from the working tree */
+const TARGET = "docs/golden-examples/tool-definition.ts";
+const firstLine = readFileSync(TARGET, "utf-8").split("\n")[0] ?? "";
+
+const PATCH_ONLY = {
+  id: "artifact-2",
+  specId: "spec-1",
+  files: {},
+  patches: {
+    [TARGET]: `--- a/${TARGET}\n+++ b/${TARGET}\n@@ -1 +1,2 @@\n+// Polished\n ${firstLine}\n`,
+  },
+  summary: "Polished tool definition",
+  verificationSteps: [],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  nominateAsGolden: true,
+  goldenTitle: "Tool definition",
+};
+
+const SCRIPT: LlmScript = {
+  responses: [{ role: "vibe-engineer", steps: [{ json: PATCH_ONLY, toolCalls: [] }] }],
+};
+writeFileSync(SCRIPT_PATH, JSON.stringify(SCRIPT));
+
+const AUDIT = {
+  id: "audit-1",
+  artifactId: "artifact-1",
+  passed: true,
+  findings: [],
+  summary: "No issues found.",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("polishOutput() golden nomination", () => {
+  it("indexes the patched file contents of a patch-only artifact", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const { polishOutput } = await import("../../src/core/agents/polisher.js");
+    const { getMemoryStore } = await import("../../.agentic/memory/store.js");
+
+    await polishOutput({ ...PATCH_ONLY, id: "artifact-1", nominateAsGolden: false }, AUDIT);
+
+    const golden = await getMemoryStore().list("code", { where: { artifactId: "artifact-2" } });
+    const content = golden.map((d) => d.content).join("");
+    expect(content).toContain(`"${TARGET}": "// Polished\\n`);
+    expect(content).not.toContain("@@ -1 +1,2 @@");
+    expect(golden[0]?.metadata).toMatchObject({ isGolden: true, title: "Tool definition" });
+  });
+});
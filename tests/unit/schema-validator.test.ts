@@ -141,6 +141,8 @@ describe("parseAgentOutput() generic", () => {
 describe("parseAgentOutputWithRetry()", () => {
   const Schema = z.object({ value: z.string() });
   const mockModel = { specifier: "mock" } as never;
+  /** generateText always reports usage */
+  const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
   const retryOpts = {
     model: mockModel,
     systemPrompt: "You are a helpful assistant.",
@@ -172,6 +174,7 @@ describe("parseAgentOutputWithRetry()", () => {
   it("calls generateText once and resolves on the retry", async () => {
     vi.mocked(generateText).mockResolvedValue({
       text: JSON.stringify({ value: "corrected" }),
+      usage,
     } as never);
 
     const result = await parseAgentOutputWithRetry(
@@ -185,8 +188,29 @@ describe("parseAgentOutputWithRetry()", () => {
     expect(generateText).toHaveBeenCalledOnce();
   });
 
+  it("reports the token usage of each correction request", async () => {
+    vi.mocked(generateText).mockResolvedValue({
+      text: JSON.stringify({ value: "corrected" }),
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+    } as never);
+    const onUsage = vi.fn();
+
+    await parseAgentOutputWithRetry(Schema, "not json", "test", {
+      ...retryOpts,
+      model: { modelId: "gpt-4o" } as never,
+      onUsage,
+    });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      model: "gpt-4o",
+      attempt: 1,
+      promptTokens: 120,
+      completionTokens: 30,
+    });
+  });
+
   it("throws after exhausting all retries", async () => {
-    vi.mocked(generateText).mockResolvedValue({ text: "still not json" } as never);
+    vi.mocked(generateText).mockResolvedValue({ text: "still not json", usage } as never);
 
     await expect(
       parseAgentOutputWithRetry(Schema, "bad", "ExhaustedLabel", {
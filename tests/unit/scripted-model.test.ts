@@ -0,0 +1,126 @@
+/**
+ * tests/unit/scripted-model.test.ts
+ *
+ * Unit tests for the offline ScriptedLanguageModel — response matching,
+ * scripted tool loops through a real generateText, and the LLM_SCRIPT switch
+ * in the model registry.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateText, tool } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { fallbacksFor, modelFor } from "../../.agentic/roles/model-registry.js";
+import {
+  type LlmScript,
+  ScriptedLanguageModel,
+  loadLlmScript,
+  promptFingerprint,
+} from "../../.agentic/roles/scripted-model.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SCRIPT: LlmScript = {
+  responses: [
+    {
+      role: "product-architect",
+      fingerprint: promptFingerprint([
+        { role: "user", content: [{ type: "text", text: "exact task" }] },
+      ]),
+      steps: [{ text: "by fingerprint", toolCalls: [] }],
+    },
+    {
+      role: "product-architect",
+      promptIncludes: "GET /hello",
+      steps: [
+        { toolCalls: [{ toolName: "lookup", args: { term: "hello" } }] },
+        { json: { answer: "hello world" }, toolCalls: [] },
+      ],
+    },
+    { role: "product-architect", steps: [{ text: "default", toolCalls: [] }] },
+  ],
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "llm-script-"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("ScriptedLanguageModel", () => {
+  const model = new ScriptedLanguageModel("product-architect", SCRIPT);
+
+  it("matches by fingerprint, then prompt substring, then the role default", async () => {
+    const exact = await generateText({ model, prompt: "exact task" });
+    const fallback = await generateText({ model, prompt: "something else entirely" });
+
+    expect(exact.text).toBe("by fingerprint");
+    expect(fallback.text).toBe("default");
+    expect(fallback.usage.promptTokens).toBeGreaterThan(0);
+  });
+
+  it("walks a scripted tool loop, executing the real tools between steps", async () => {
+    const lookup = vi.fn(async ({ term }: { term: string }) => `definition of ${term}`);
+    const result = await generateText({
+      model,
+      maxSteps: 3,
+      tools: {
+        lookup: tool({
+          description: "Look up a term",
+          parameters: z.object({ term: z.string() }),
+          execute: lookup,
+        }),
+      },
+      prompt: "Plan GET /hello",
+    });
+
+    expect(lookup).toHaveBeenCalledWith({ term: "hello" }, expect.anything());
+    expect(result.steps).toHaveLength(2);
+    expect(JSON.parse(result.text)).toEqual({ answer: "hello world" });
+  });
+
+  it("names the fingerprint to script when nothing matches", async () => {
+    const auditor = new ScriptedLanguageModel("security-lead", SCRIPT);
+
+    await expect(generateText({ model: auditor, prompt: "Audit this" })).rejects.toThrow(
+      /No scripted response for role "security-lead" \(fingerprint [0-9a-f]{16}\)/,
+    );
+  });
+});
+
+describe("loadLlmScript()", () => {
+  it("rejects a response with both text and json", () => {
+    const path = join(dir, "script.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ responses: [{ role: "vibe-engineer", steps: [{ text: "a", json: {} }] }] }),
+    );
+
+    expect(() => loadLlmScript(path)).toThrow("Use either text or json, not both");
+  });
+});
+
+describe("LLM_SCRIPT", () => {
+  it("switches every role to a scripted model with no fallbacks", async () => {
+    const path = join(dir, "script.json");
+    writeFileSync(path, JSON.stringify(SCRIPT));
+    vi.stubEnv("LLM_SCRIPT", path);
+    vi.stubEnv("MODEL_PRODUCT_ARCHITECT_FALLBACKS", "gpt-4o-mini");
+
+    const model = modelFor("product-architect");
+    expect(model.provider).toBe("scripted");
+    expect(model.modelId).toBe("scripted-product-architect");
+    expect(fallbacksFor("product-architect")).toEqual([]);
+    expect((await generateText({ model, prompt: "anything" })).text).toBe("default");
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * tests/unit/seed-config.test.ts
+ *
+ * Unit tests for config-file driven seed sources (agentic.config.json):
+ * validation, includeDefaults, and seeding with exclude globs, chunking and
+ * custom metadata into the in-memory store (MEMORY_STORE=memory).
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import { DEFAULT_SOURCES, loadSeedSources } from "../../src/core/context/seed-config.js";
+import { seedContext } from "../../src/core/context/seeder.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const APP_SOURCE = {
+  pattern: "src/**/*.ts",
+  collection: "code",
+  priority: 6,
+  exclude: ["**/*.test.ts"],
+  chunking: "none",
+  metadata: { origin: "app" },
+};
+
+let root: string;
+
+function writeConfig(config: unknown): void {
+  writeFileSync(join(root, "agentic.config.json"), JSON.stringify(config));
+}
+
+beforeEach(() => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  root = mkdtempSync(join(tmpdir(), "seed-config-"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  resetMemoryStore();
+  rmSync(root, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("loadSeedSources()", () => {
+  it("falls back to the default sources without a config file", () => {
+    expect(loadSeedSources(root)).toBe(DEFAULT_SOURCES);
+  });
+
+  it("reads sources from agentic.config.json, optionally after the defaults", () => {
+    writeConfig({ seed: { sources: [APP_SOURCE] } });
+    expect(loadSeedSources(root)).toEqual([APP_SOURCE]);
+
+    writeConfig({ seed: { includeDefaults: true, sources: [APP_SOURCE] } });
+    expect(loadSeedSources(root)).toEqual([APP_SOURCE, ...DEFAULT_SOURCES]);
+  });
+
+  it("honours AGENTIC_CONFIG and reports invalid sources by path", () => {
+    vi.stubEnv("AGENTIC_CONFIG", "config/seed.json");
+    mkdirSync(join(root, "config"));
+    writeFileSync(
+      join(root, "config", "seed.json"),
+      JSON.stringify({ seed: { sources: [{ ...APP_SOURCE, priority: 11, chunking: "ast" }] } }),
+    );
+
+    expect(() => loadSeedSources(root)).toThrow(
+      /seed\.json failed validation.*seed\.sources\.0\.priority/,
+    );
+    expect(() => loadSeedSources(root)).toThrow("seed.sources.0.chunking");
+  });
+});
+
+describe("seedContext() with a config file", () => {
+  it("applies exclude globs, the chunking strategy and custom metadata", async () => {
+    mkdirSync(join(root, "src"));
+    writeFileSync(join(root, "src", "app.ts"), "export const a = 1;\n\n".repeat(200));
+    writeFileSync(join(root, "src", "app.test.ts"), "test('a', () => {});");
+    writeConfig({ seed: { sources: [APP_SOURCE] } });
+    const manifestPath = join(root, "manifest.json");
+
+    expect(await seedContext(undefined, root, { manifestPath })).toMatchObject({
+      added: 1,
+      totalDocuments: 1,
+    });
+    const [doc] = await getMemoryStore().list("code");
+    expect(doc?.metadata).toMatchObject({
+      origin: "app",
+      source: join("src", "app.ts"),
+      priority: 6,
+    });
+
+    writeConfig({ seed: { sources: [{ ...APP_SOURCE, chunking: "text" }] } });
+    const reseeded = await seedContext(undefined, root, { manifestPath });
+    expect(reseeded).toMatchObject({ updated: 1, purgedChunks: 1 });
+    expect(await getMemoryStore().count("code")).toBe(reseeded.totalDocuments);
+    expect(reseeded.totalDocuments).toBeGreaterThan(1);
+  });
+});
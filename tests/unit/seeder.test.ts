@@ -0,0 +1,155 @@
+/**
+ * tests/unit/seeder.test.ts
+ *
+ * Unit tests for incremental seeding — the seed manifest, stale chunk purging,
+ * the added/updated/removed/unchanged summary — and watch mode. Seeds a
+ * throwaway docs directory into the in-memory store (MEMORY_STORE=memory).
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import { SEED_MANIFEST_VERSION } from "../../src/core/context/seed-manifest.js";
+import { type SeedResult, seedContext, watchContext } from "../../src/core/context/seeder.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SOURCES = [{ pattern: "docs/**/*.md", collection: "plans", priority: 8 }];
+
+/** A document chunkText() splits into `n` chunks (one ~1,000-char paragraph each). */
+function doc(n: number, word = "lorem"): string {
+  return Array.from({ length: n }, (_, i) => `${word}${i} `.repeat(140)).join("\n\n");
+}
+
+let root: string;
+let manifestPath: string;
+
+function write(name: string, content: string): void {
+  writeFileSync(join(root, "docs", name), content);
+}
+
+const seed = (full = false) => seedContext(SOURCES, root, { manifestPath, full });
+
+beforeEach(() => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  root = mkdtempSync(join(tmpdir(), "seeder-"));
+  manifestPath = join(root, "__seed__", "manifest.json");
+  mkdirSync(join(root, "docs"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  resetMemoryStore();
+  rmSync(root, { recursive: true, force: true });
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("seedContext()", () => {
+  it("only re-indexes files that changed since the last seed", async () => {
+    write("a.md", doc(2));
+    write("b.md", doc(1));
+
+    expect(await seed()).toMatchObject({ added: 2, unchanged: 0, totalDocuments: 3 });
+    const upsert = vi.spyOn(getMemoryStore(), "upsert");
+
+    write("b.md", doc(1, "ipsum"));
+    expect(await seed()).toMatchObject({
+      added: 0,
+      updated: 1,
+      unchanged: 1,
+      totalFiles: 2,
+      totalDocuments: 1,
+    });
+    expect(upsert).toHaveBeenCalledOnce();
+  });
+
+  it("purges orphaned chunks when a document shrinks", async () => {
+    write("a.md", doc(4));
+    await seed();
+    expect(await getMemoryStore().count("plans")).toBe(4);
+
+    write("a.md", doc(2));
+    expect(await seed()).toMatchObject({ updated: 1, purgedChunks: 2 });
+    const ids = (await getMemoryStore().list("plans")).map((d) => d.id);
+    expect(ids).toHaveLength(2);
+    expect(ids.every((id) => /-chunk[01]$/.test(id))).toBe(true);
+  });
+
+  it("removes every chunk of deleted files", async () => {
+    write("a.md", doc(3));
+    write("b.md", doc(1));
+    await seed();
+
+    rmSync(join(root, "docs", "a.md"));
+    expect(await seed()).toMatchObject({ removed: 1, unchanged: 1, purgedChunks: 3 });
+    const remaining = await getMemoryStore().list("plans");
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0]?.metadata).toMatchObject({ source: join("docs", "b.md") });
+  });
+
+  it("re-indexes files whose chunks are missing from the store, or with full", async () => {
+    write("a.md", doc(2));
+    await seed();
+
+    resetMemoryStore();
+    expect(await seed()).toMatchObject({ updated: 1, unchanged: 0 });
+    expect(await getMemoryStore().count("plans")).toBe(2);
+    expect(await seed(true)).toMatchObject({ updated: 1, unchanged: 0, purgedChunks: 0 });
+  });
+
+  it("purges chunks recorded by a manifest from an older version", async () => {
+    write("a.md", doc(4));
+    write("b.md", doc(1));
+    await seed();
+
+    // The same manifest, as written by the previous SEED_MANIFEST_VERSION
+    const manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+    writeFileSync(
+      manifestPath,
+      JSON.stringify({ ...manifest, version: SEED_MANIFEST_VERSION - 1 }),
+    );
+    write("a.md", doc(2));
+    rmSync(join(root, "docs", "b.md"));
+
+    expect(await seed()).toMatchObject({ updated: 1, removed: 1, purgedChunks: 3 });
+    const ids = (await getMemoryStore().list("plans")).map((d) => d.id);
+    expect(ids).toHaveLength(2);
+    expect(ids.every((id) => /-chunk[01]$/.test(id))).toBe(true);
+  });
+});
+
+describe("watchContext()", () => {
+  it("re-indexes only touched files, debounced, and drops deleted ones", async () => {
+    write("a.md", doc(1));
+    write("b.md", doc(1));
+    await seed();
+    const seeds: Array<{ result: SeedResult; paths: string[] }> = [];
+    const watcher = watchContext(SOURCES, root, {
+      manifestPath,
+      debounceMs: 50,
+      onSeed: (result, paths) => seeds.push({ result, paths }),
+    });
+
+    try {
+      write("a.md", doc(3, "ipsum"));
+      write("notes.txt", "not a seed source");
+      await vi.waitFor(() => expect(seeds).toHaveLength(1), { timeout: 5_000 });
+      expect(seeds[0]?.result).toMatchObject({ totalFiles: 1, updated: 1, totalDocuments: 3 });
+      expect(seeds[0]?.paths).toContain(join("docs", "a.md"));
+
+      rmSync(join(root, "docs", "b.md"));
+      await vi.waitFor(() => expect(seeds).toHaveLength(2), { timeout: 5_000 });
+      expect(seeds[1]?.result).toMatchObject({ removed: 1, purgedChunks: 1 });
+      expect(await getMemoryStore().count("plans")).toBe(3);
+      expect(await seed()).toMatchObject({ unchanged: 1, added: 0, removed: 0 });
+    } finally {
+      watcher.close();
+    }
+  });
+});
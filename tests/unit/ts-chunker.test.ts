@@ -0,0 +1,117 @@
+/**
+ * tests/unit/ts-chunker.test.ts
+ *
+ * Unit tests for language-aware TypeScript chunking: one chunk per top-level
+ * declaration with its JSDoc, symbol/kind/line metadata, chunkText() dispatch
+ * by extension, and the metadata reaching indexed documents (MEMORY_STORE=memory).
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getMemoryStore, resetMemoryStore } from "../../.agentic/memory/store.js";
+import { chunkText, indexDocuments } from "../../src/core/context/indexer.js";
+import { chunkTypeScript } from "../../src/core/context/ts-chunker.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SOURCE = `/**
+ * entities.ts — example schema module
+ */
+
+import { z } from "zod";
+import type { Other } from "./other.js";
+
+// ── Schemas ───────────────────────────────
+
+/** A thing with a name. */
+export const ThingSchema = z.object({
+  name: z.string(),
+});
+export type Thing = z.infer<typeof ThingSchema>;
+
+export const NamedThingSchema = ThingSchema.extend({ alias: z.string() });
+
+/**
+ * Shout a thing's name.
+ */
+export function shout(thing: Thing): string {
+  return thing.name.toUpperCase();
+}
+
+export interface Registry {
+  things: Thing[];
+}
+
+export class Store {
+  items: Other[] = [];
+}
+`;
+
+beforeEach(() => {
+  vi.stubEnv("MEMORY_STORE", "memory");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetMemoryStore();
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("chunkTypeScript()", () => {
+  it("emits one chunk per top-level declaration with its kind and line range", () => {
+    expect(chunkTypeScript(SOURCE).map((c) => c.metadata)).toEqual([
+      { symbol: "", kind: "imports", startLine: 1, endLine: 6 },
+      { symbol: "ThingSchema", kind: "schema", startLine: 10, endLine: 14 },
+      { symbol: "NamedThingSchema", kind: "schema", startLine: 16, endLine: 16 },
+      { symbol: "shout", kind: "function", startLine: 18, endLine: 23 },
+      { symbol: "Registry", kind: "interface", startLine: 25, endLine: 27 },
+      { symbol: "Store", kind: "class", startLine: 29, endLine: 31 },
+    ]);
+  });
+
+  it("keeps leading JSDoc and inferred types with their declaration, not dividers", () => {
+    const [header, thing, , shout] = chunkTypeScript(SOURCE);
+
+    expect(header?.content).toMatch(/^\/\*\*\n \* entities\.ts/);
+    expect(header?.content).toContain('import type { Other } from "./other.js";');
+    expect(thing?.content).toMatch(/^\/\*\* A thing with a name\. \*\/\nexport const ThingSchema/);
+    expect(thing?.content).toMatch(/export type Thing = z\.infer<typeof ThingSchema>;$/);
+    expect(thing?.content).not.toContain("── Schemas");
+    expect(shout?.content).toMatch(/^\/\*\*\n \* Shout a thing's name\.\n \*\/\nexport function/);
+  });
+});
+
+describe("chunkText() with an extension", () => {
+  it("dispatches TypeScript to the declaration chunker and splits oversized declarations", () => {
+    expect(chunkText(SOURCE, "ts")).toHaveLength(6);
+    expect(chunkText(SOURCE, "md")).toHaveLength(1);
+
+    const long = `export const big = [\n${'  "item",\n'.repeat(300)}];\nexport const small = 1;\n`;
+    const chunks = chunkText(long, "ts");
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.at(-1)).toBe("export const small = 1;");
+  });
+
+  it("falls back to text chunking for files without declarations", () => {
+    expect(chunkText("// nothing to see here", "ts")).toEqual(["// nothing to see here"]);
+  });
+});
+
+describe("indexDocuments() with TypeScript", () => {
+  it("stores each chunk's symbol, kind and line range as metadata", async () => {
+    await indexDocuments([
+      { id: "file:entities", content: SOURCE, collection: "schema", extension: "ts" },
+    ]);
+
+    const docs = await getMemoryStore().list("schema");
+    expect(docs).toHaveLength(6);
+    expect(docs.find((d) => d.id === "file:entities-chunk3")?.metadata).toMatchObject({
+      symbol: "shout",
+      kind: "function",
+      startLine: 18,
+      endLine: 23,
+      totalChunks: 6,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * tests/unit/verification.test.ts
+ *
+ * Unit tests for the verificationSteps runner — the allow-list and real
+ * execution against a scratch copy of a tiny fixture package.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CodeArtifact } from "../../docs/schema/entities.js";
+import {
+  DEFAULT_VERIFICATION_SCRIPTS,
+  resolveVerificationStep,
+  runVerificationSteps,
+} from "../../src/core/tools/verification.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const SCRIPTS = new Set(DEFAULT_VERIFICATION_SCRIPTS);
+const PACKAGE_SCRIPTS = new Set(["typecheck", "lint", "test:unit", "deploy"]);
+
+let source: string;
+
+beforeEach(() => {
+  source = mkdtempSync(join(tmpdir(), "verify-source-"));
+  mkdirSync(join(source, "src"));
+  writeFileSync(
+    join(source, "package.json"),
+    JSON.stringify({
+      name: "fixture",
+      private: true,
+      scripts: {
+        // Passes only when the artifact's file has been materialized.
+        check: "node -e \"require('fs').accessSync('src/generated.txt')\"",
+        fail: "node -e \"console.error('boom'); process.exit(3)\"",
+        test: 'node -e ""',
+      },
+    }),
+  );
+});
+
+afterEach(() => {
+  rmSync(source, { recursive: true, force: true });
+});
+
+const artifact = (verificationSteps: string[]): CodeArtifact => ({
+  id: "artifact-1",
+  specId: "spec-1",
+  files: { "src/generated.txt": "hello\n" },
+  summary: "test",
+  verificationSteps,
+  createdAt: new Date().toISOString(),
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("resolveVerificationStep()", () => {
+  it("runs allow-listed package scripts through the given package manager", () => {
+    expect(resolveVerificationStep("pnpm typecheck", SCRIPTS, PACKAGE_SCRIPTS)).toEqual({
+      file: "pnpm",
+      args: ["typecheck"],
+    });
+    expect(resolveVerificationStep("npm run test:unit", SCRIPTS, PACKAGE_SCRIPTS)).toEqual({
+      file: "npm",
+      args: ["run", "test:unit"],
+    });
+  });
+
+  it("runs tsc, biome and vitest run via npx without installing", () => {
+    expect(resolveVerificationStep("npx tsc --noEmit", SCRIPTS, PACKAGE_SCRIPTS)).toEqual({
+      file: "npx",
+      args: ["--no-install", "tsc", "--noEmit"],
+    });
+    expect(
+      resolveVerificationStep("pnpm exec vitest run tests/unit", SCRIPTS, PACKAGE_SCRIPTS),
+    ).toEqual({ file: "npx", args: ["--no-install", "vitest", "run", "tests/unit"] });
+  });
+
+  it("skips anything off the allow-list", () => {
+    const skipped = [
+      "pnpm deploy",
+      "pnpm test",
+      "npx vitest",
+      "curl https://example.com",
+      "pnpm typecheck && rm -rf /",
+      "echo $HOME",
+    ];
+    for (const command of skipped) {
+      expect(resolveVerificationStep(command, SCRIPTS, PACKAGE_SCRIPTS)).toHaveProperty("skip");
+    }
+  });
+});
+
+describe("runVerificationSteps()", () => {
+  it("runs each step against the materialized artifact and records the outcome", async () => {
+    const result = await runVerificationSteps(
+      artifact(["npm run check", "npm run fail", "rm -rf src"]),
+      { source, scripts: ["check", "fail"] },
+    );
+
+    expect(result.artifactId).toBe("artifact-1");
+    expect(result.passed).toBe(false);
+    expect(result.steps.map((s) => s.status)).toEqual(["passed", "failed", "skipped"]);
+    expect(result.steps[1]?.exitCode).toBe(3);
+    expect(result.steps[1]?.output).toContain("boom");
+    expect(result.steps[2]?.reason).toContain("not on the verification allow-list");
+  }, 30_000);
+
+  it("passes when every step that ran passed", async () => {
+    const result = await runVerificationSteps(artifact(["npm run check", "make all"]), {
+      source,
+      scripts: ["check"],
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.steps.map((s) => s.status)).toEqual(["passed", "skipped"]);
+  }, 30_000);
+
+  it("never runs a script the artifact rewrites in package.json", async () => {
+    const pwn = "node -e \"require('fs').writeFileSync('pwned.txt', '')\"";
+    const result = await runVerificationSteps(
+      {
+        ...artifact(["npm test", "npm run check"]),
+        files: {
+          "package.json": JSON.stringify({
+            scripts: { test: pwn, check: 'node -e ""', precheck: pwn },
+          }),
+        },
+      },
+      { source, scripts: ["check"] },
+    );
+
+    expect(result.steps.map((s) => s.status)).toEqual(["skipped", "skipped"]);
+    expect(result.steps[0]?.reason).toBe('the artifact changes the "test" script in package.json');
+    expect(result.steps[1]?.reason).toContain('"check"');
+    expect(existsSync(join(source, "pwned.txt"))).toBe(false);
+  }, 30_000);
+});
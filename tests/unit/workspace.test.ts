@@ -0,0 +1,138 @@
+/**
+ * tests/unit/workspace.test.ts
+ *
+ * Unit tests for ScratchWorkspace — the executor's throwaway repository copy.
+ * Each test copies a small fixture tree in the OS temp dir.
+ * No API keys, no network, no ChromaDB.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { CodeArtifact } from "../../docs/schema/entities.js";
+import { ScratchWorkspace, withScratchWorkspace } from "../../src/core/tools/workspace.js";
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+let source: string;
+let workspace: ScratchWorkspace | undefined;
+
+beforeEach(() => {
+  source = mkdtempSync(join(tmpdir(), "ws-source-"));
+  mkdirSync(join(source, "src"));
+  mkdirSync(join(source, ".git"));
+  mkdirSync(join(source, "node_modules"));
+  mkdirSync(join(source, "__runs__"));
+  writeFileSync(join(source, "src/a.ts"), "export const a = 1;\n");
+  writeFileSync(join(source, ".git/HEAD"), "ref: refs/heads/main\n");
+  writeFileSync(join(source, "__runs__/result.json"), "{}");
+  mkdirSync(join(source, "__memory__"));
+  writeFileSync(join(source, "__memory__/store.json"), "{}");
+  writeFileSync(join(source, ".env"), "OPENAI_API_KEY=sk-secret\n");
+  writeFileSync(join(source, "src/.env.local"), "TOKEN=secret\n");
+  writeFileSync(join(source, ".env.example"), "OPENAI_API_KEY=\n");
+});
+
+afterEach(async () => {
+  await workspace?.dispose();
+  workspace = undefined;
+  rmSync(source, { recursive: true, force: true });
+});
+
+const artifact = (overrides: Partial<CodeArtifact>): CodeArtifact => ({
+  id: "artifact-1",
+  specId: "spec-1",
+  files: {},
+  summary: "test",
+  verificationSteps: [],
+  createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe("ScratchWorkspace.create()", () => {
+  it("copies source files but skips .git and run output", async () => {
+    workspace = await ScratchWorkspace.create(source);
+
+    expect(workspace.root).not.toBe(workspace.source);
+    expect(readFileSync(join(workspace.root, "src/a.ts"), "utf-8")).toBe("export const a = 1;\n");
+    expect(existsSync(join(workspace.root, ".git"))).toBe(false);
+    expect(existsSync(join(workspace.root, "__runs__"))).toBe(false);
+    expect(existsSync(join(workspace.root, "__memory__"))).toBe(false);
+    // node_modules is linked back so the toolchain still resolves.
+    expect(existsSync(join(workspace.root, "node_modules"))).toBe(true);
+  });
+
+  it("skips .env files at any depth but keeps .env.example", async () => {
+    workspace = await ScratchWorkspace.create(source);
+
+    expect(existsSync(join(workspace.root, ".env"))).toBe(false);
+    expect(existsSync(join(workspace.root, "src/.env.local"))).toBe(false);
+    expect(existsSync(join(workspace.root, ".env.example"))).toBe(true);
+  });
+});
+
+describe("ScratchWorkspace.materialize()", () => {
+  it("writes files and applies patches without touching the source tree", async () => {
+    workspace = await ScratchWorkspace.create(source);
+
+    const written = await workspace.materialize(
+      artifact({
+        files: { "src/b.ts": "export const b = 2;\n" },
+        patches: {
+          "src/a.ts":
+            "--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-export const a = 1;\n+export const a = 42;\n",
+        },
+      }),
+    );
+
+    expect(written).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(workspace.read("src/a.ts")).toBe("export const a = 42;\n");
+    expect(workspace.read("src/b.ts")).toBe("export const b = 2;\n");
+    expect(readFileSync(join(source, "src/a.ts"), "utf-8")).toBe("export const a = 1;\n");
+    expect(existsSync(join(source, "src/b.ts"))).toBe(false);
+  });
+
+  it("throws when a patch does not apply", async () => {
+    workspace = await ScratchWorkspace.create(source);
+
+    await expect(
+      workspace.materialize(
+        artifact({ patches: { "src/a.ts": "@@ -1 +1 @@\n-export const z = 0;\n+x\n" } }),
+      ),
+    ).rejects.toThrow("do not apply");
+  });
+});
+
+describe("ScratchWorkspace.writeFile()", () => {
+  it("refuses paths that escape the workspace or target excluded directories", async () => {
+    workspace = await ScratchWorkspace.create(source);
+
+    await expect(workspace.writeFile("../outside.ts", "x")).rejects.toThrow(
+      "outside the workspace",
+    );
+    await expect(workspace.writeFile(".git/hooks/pre-commit", "x")).rejects.toThrow(
+      "excluded directory",
+    );
+    await expect(workspace.writeFile("config/.env.production", "x")).rejects.toThrow(
+      "environment file",
+    );
+  });
+});
+
+describe("withScratchWorkspace()", () => {
+  it("disposes the workspace even when the callback throws", async () => {
+    let root = "";
+    await expect(
+      withScratchWorkspace(async (ws) => {
+        root = ws.root;
+        throw new Error("boom");
+      }, source),
+    ).rejects.toThrow("boom");
+
+    expect(root).not.toBe("");
+    expect(existsSync(root)).toBe(false);
+  });
+});